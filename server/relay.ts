@@ -0,0 +1,485 @@
+// ============================================
+// RELAY SERVER - Authoritative rooms, duels and co-op relay
+// ============================================
+// Speaks the same { type, payload } JSON protocol as MultiplayerManager.
+// Duel turns are resolved here with resolveDuelTurn so clients only ever
+// submit actions, never results.
+//
+// Run: npm run server  (PORT env var, default 8080)
+
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+    MultiplayerManager,
+    DuelPhase,
+    DuelAction,
+    DUEL_SERIES_LENGTHS,
+    MAX_PLAYER_NAME_LENGTH,
+    type GameRoom,
+    type DuelState,
+    type DuelStats,
+    type MultiplayerMode,
+    type CoopPlayerState,
+    type CoopEnemyState,
+    type CoopEvent
+} from '../src/Multiplayer';
+
+const PORT = Number(process.env.PORT) || 8080;
+
+// Rules engine - the same duel code the clients run offline
+const rules = new MultiplayerManager();
+
+interface ServerRoom {
+    room: GameRoom;
+    sockets: Map<string, WebSocket>; // playerId -> socket
+    spectatorSockets: Map<string, WebSocket>;
+    duel: DuelState | null;
+    pendingActions: Map<string, DuelAction>; // Hidden until both players commit
+    rematchVotes: Set<string>; // Duelists who want another game
+}
+
+interface Client {
+    playerId: string | null;
+    roomCode: string | null;
+}
+
+const rooms = new Map<string, ServerRoom>();
+const clients = new Map<WebSocket, Client>();
+
+// ============================================
+// MESSAGING
+// ============================================
+
+function send(ws: WebSocket, type: string, payload: unknown) {
+    if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type, payload }));
+    }
+}
+
+// Spectators hear everything the players do
+function broadcast(serverRoom: ServerRoom, type: string, payload: unknown, exceptId?: string) {
+    for (const sockets of [serverRoom.sockets, serverRoom.spectatorSockets]) {
+        for (const [playerId, ws] of sockets) {
+            if (playerId !== exceptId) send(ws, type, payload);
+        }
+    }
+}
+
+function broadcastRoom(serverRoom: ServerRoom) {
+    broadcast(serverRoom, 'room_update', serverRoom.room);
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const DUEL_ACTIONS = new Set<number>(Object.values(DuelAction));
+
+// Ids and names end up in every room update, so they must be plain strings
+function isValidIdentity(payload: { playerId: unknown; playerName: unknown }): boolean {
+    return typeof payload.playerId === 'string' && payload.playerId.length > 0 && payload.playerId.length <= 64 &&
+        typeof payload.playerName === 'string' && payload.playerName.trim().length > 0 &&
+        payload.playerName.length <= MAX_PLAYER_NAME_LENGTH;
+}
+
+// A build must spend exactly the 50-point budget on top of the default stats
+function isValidDuelBuild(stats: DuelStats | undefined): boolean {
+    if (!stats) return false;
+    const base = rules.createDefaultDuelStats();
+    const spent =
+        (stats.maxHp - base.maxHp) / 5 +
+        (stats.attack - base.attack) +
+        (stats.defense - base.defense) +
+        (stats.maxMana - base.maxMana) / 2 +
+        (stats.speed - base.speed);
+    return (
+        stats.pointsRemaining === 0 &&
+        spent === base.pointsRemaining &&
+        stats.hp === stats.maxHp &&
+        stats.mana === stats.maxMana &&
+        stats.maxHp >= base.maxHp &&
+        stats.attack >= base.attack &&
+        stats.defense >= base.defense &&
+        stats.maxMana >= base.maxMana &&
+        stats.speed >= base.speed
+    );
+}
+
+// ============================================
+// ROOM HANDLERS
+// ============================================
+
+function createRoom(ws: WebSocket, client: Client, payload: { mode: MultiplayerMode; playerId: string; playerName: string }) {
+    if (!isValidIdentity(payload)) {
+        send(ws, 'error', 'Invalid player id or name');
+        return;
+    }
+    if (client.roomCode) leaveRoom(client);
+    if (payload.mode !== 'duel' && payload.mode !== 'coop') {
+        send(ws, 'error', 'Unknown room mode');
+        return;
+    }
+
+    let code = rules.generateRoomCode();
+    while (rooms.has(code)) code = rules.generateRoomCode();
+
+    const room: GameRoom = {
+        code,
+        mode: payload.mode,
+        state: 'waiting',
+        players: [{ id: payload.playerId, name: payload.playerName, ready: false, stats: null, isHost: true }],
+        spectators: [],
+        hostId: payload.playerId,
+        maxPlayers: payload.mode === 'duel' ? 2 : 4,
+        settings: { duelLevel: 50, coopFloor: 1, allowSpectators: false, bestOf: 1 }
+    };
+    const serverRoom: ServerRoom = { room, sockets: new Map([[payload.playerId, ws]]), spectatorSockets: new Map(), duel: null, pendingActions: new Map(), rematchVotes: new Set() };
+    rooms.set(code, serverRoom);
+
+    client.playerId = payload.playerId;
+    client.roomCode = code;
+    console.log(`[${code}] ${payload.playerName} created a ${payload.mode} room`);
+    broadcastRoom(serverRoom);
+}
+
+// Ids are broadcast in room updates, so a second socket must not be able to claim one
+function isIdTaken(room: GameRoom, playerId: string): boolean {
+    return room.players.some(p => p.id === playerId) || room.spectators.some(s => s.id === playerId);
+}
+
+function joinRoom(ws: WebSocket, client: Client, payload: { code: string; playerId: string; playerName: string; asSpectator?: boolean }) {
+    if (!isValidIdentity(payload)) {
+        send(ws, 'error', 'Invalid player id or name');
+        return;
+    }
+    const serverRoom = rooms.get(String(payload.code).toUpperCase());
+    if (!serverRoom) {
+        send(ws, 'error', 'Room not found');
+        return;
+    }
+    const { room } = serverRoom;
+    if (payload.asSpectator) {
+        spectateRoom(ws, client, serverRoom, payload);
+        return;
+    }
+    if (room.players.length >= room.maxPlayers) {
+        send(ws, 'error', 'Room is full');
+        return;
+    }
+    if (room.state !== 'waiting') {
+        send(ws, 'error', 'Game already in progress');
+        return;
+    }
+    if (isIdTaken(room, payload.playerId)) {
+        send(ws, 'error', 'Player id already in this room');
+        return;
+    }
+    if (client.roomCode) leaveRoom(client);
+
+    room.players.push({ id: payload.playerId, name: payload.playerName, ready: false, stats: null, isHost: false });
+    serverRoom.sockets.set(payload.playerId, ws);
+    client.playerId = payload.playerId;
+    client.roomCode = room.code;
+    console.log(`[${room.code}] ${payload.playerName} joined`);
+    broadcastRoom(serverRoom);
+}
+
+// Spectators can drop in at any point of a duel, even mid-fight
+function spectateRoom(ws: WebSocket, client: Client, serverRoom: ServerRoom, payload: { playerId: string; playerName: string }) {
+    const { room } = serverRoom;
+    if (room.mode !== 'duel') {
+        send(ws, 'error', 'Only duels can be spectated');
+        return;
+    }
+    if (!room.settings.allowSpectators) {
+        send(ws, 'error', 'This room does not allow spectators');
+        return;
+    }
+    if (isIdTaken(room, payload.playerId)) {
+        send(ws, 'error', 'Player id already in this room');
+        return;
+    }
+    if (client.roomCode) leaveRoom(client);
+
+    room.spectators.push({ id: payload.playerId, name: payload.playerName });
+    serverRoom.spectatorSockets.set(payload.playerId, ws);
+    client.playerId = payload.playerId;
+    client.roomCode = room.code;
+    console.log(`[${room.code}] ${payload.playerName} is spectating`);
+    broadcastRoom(serverRoom);
+    if (serverRoom.duel) send(ws, 'duel_update', serverRoom.duel);
+}
+
+function leaveRoom(client: Client) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    const playerId = client.playerId;
+    client.roomCode = null;
+    if (!serverRoom || !playerId) return;
+
+    const { room } = serverRoom;
+    if (serverRoom.spectatorSockets.delete(playerId)) {
+        room.spectators = room.spectators.filter(s => s.id !== playerId);
+        console.log(`[${room.code}] ${playerId} stopped spectating`);
+        broadcastRoom(serverRoom);
+        return;
+    }
+
+    const leaverIndex = room.players.findIndex(p => p.id === playerId);
+    room.players = room.players.filter(p => p.id !== playerId);
+    serverRoom.sockets.delete(playerId);
+    serverRoom.pendingActions.delete(playerId);
+    serverRoom.rematchVotes.delete(playerId);
+    console.log(`[${room.code}] ${playerId} left`);
+
+    if (room.players.length === 0) {
+        // Nobody left to watch
+        for (const ws of serverRoom.spectatorSockets.values()) {
+            const watcher = clients.get(ws);
+            if (watcher) watcher.roomCode = null;
+            send(ws, 'room_closed', { code: room.code });
+        }
+        rooms.delete(room.code);
+        return;
+    }
+
+    // Leaving mid-duel forfeits
+    const duel = serverRoom.duel;
+    if (duel && duel.phase !== DuelPhase.Victory && leaverIndex !== -1) {
+        duel.phase = DuelPhase.Victory;
+        duel.winnerId = leaverIndex === 0 ? 'player2' : 'player1';
+        duel.lastResult = 'Opponent left - you win by forfeit!';
+        room.state = 'finished';
+        broadcast(serverRoom, 'duel_update', duel);
+    }
+
+    if (room.hostId === playerId) {
+        room.hostId = room.players[0].id;
+        room.players[0].isHost = true;
+    }
+    broadcastRoom(serverRoom);
+}
+
+function setReady(ws: WebSocket, client: Client, payload: { playerId: string; ready: boolean; stats?: DuelStats }) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    const player = serverRoom?.room.players.find(p => p.id === client.playerId);
+    if (!serverRoom || !player) {
+        send(ws, 'error', 'Not in a room');
+        return;
+    }
+    const { room } = serverRoom;
+    // Readying up again mid-duel would restart it with full HP and a fresh series
+    if (room.state !== 'waiting') {
+        send(ws, 'error', 'The game has already started');
+        return;
+    }
+
+    if (room.mode === 'duel' && payload.ready && !isValidDuelBuild(payload.stats)) {
+        send(ws, 'error', 'Invalid duel build - spend exactly 50 points');
+        return;
+    }
+    player.ready = payload.ready;
+    player.stats = payload.ready && payload.stats ? { ...payload.stats } : null;
+
+    // Both duelists ready - start the duel
+    if (room.mode === 'duel' && room.players.length === 2 && room.players.every(p => p.ready && p.stats)) {
+        const series = { bestOf: room.settings.bestOf, player1Wins: 0, player2Wins: 0 };
+        serverRoom.duel = rules.initDuelState(room.players[0].stats!, room.players[1].stats!, series);
+        serverRoom.pendingActions.clear();
+        serverRoom.rematchVotes.clear();
+        room.state = 'playing';
+        console.log(`[${room.code}] Duel started`);
+        broadcastRoom(serverRoom);
+        broadcast(serverRoom, 'duel_update', serverRoom.duel);
+        return;
+    }
+    broadcastRoom(serverRoom);
+}
+
+function duelAction(ws: WebSocket, client: Client, payload: { playerId: string; action: DuelAction }) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    const duel = serverRoom?.duel;
+    if (!serverRoom || !duel || !client.playerId) {
+        send(ws, 'error', 'No duel in progress');
+        return;
+    }
+    if (duel.phase === DuelPhase.Victory) {
+        send(ws, 'error', 'The duel is over');
+        return;
+    }
+    if (!DUEL_ACTIONS.has(payload.action)) {
+        send(ws, 'error', 'Unknown duel action');
+        return;
+    }
+
+    // Only the socket that holds the seat may act for it - never a spectator's
+    const seat = serverRoom.room.players.findIndex(p => p.id === client.playerId);
+    if (seat === -1 || serverRoom.sockets.get(client.playerId) !== ws || serverRoom.spectatorSockets.has(client.playerId)) {
+        send(ws, 'error', 'Not a duelist in this room');
+        return;
+    }
+    const stats = seat === 0 ? duel.player1Stats : duel.player2Stats;
+    if ((payload.action === DuelAction.Heal || payload.action === DuelAction.Fireball) && stats.mana < 15) {
+        send(ws, 'error', 'Not enough mana');
+        return;
+    }
+    if (serverRoom.pendingActions.has(client.playerId)) {
+        send(ws, 'error', 'Action already submitted this turn');
+        return;
+    }
+    serverRoom.pendingActions.set(client.playerId, payload.action);
+
+    // Resolve once both players have committed
+    const [p1, p2] = serverRoom.room.players;
+    const p1Action = p1 && serverRoom.pendingActions.get(p1.id);
+    const p2Action = p2 && serverRoom.pendingActions.get(p2.id);
+    if (!p1Action || !p2Action) return;
+
+    serverRoom.pendingActions.clear();
+    serverRoom.duel = rules.resolveDuelTurn(duel, p1Action, p2Action);
+    if (serverRoom.duel.phase === DuelPhase.Victory) {
+        serverRoom.room.state = 'finished';
+        console.log(`[${serverRoom.room.code}] ${serverRoom.duel.lastResult}`);
+        broadcastRoom(serverRoom);
+    }
+    broadcast(serverRoom, 'duel_update', serverRoom.duel);
+}
+
+function updateSettings(ws: WebSocket, client: Client, payload: { playerId: string; bestOf?: number; allowSpectators?: boolean }) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    if (!serverRoom || serverRoom.room.hostId !== client.playerId) {
+        send(ws, 'error', 'Only the host can change settings');
+        return;
+    }
+    if (serverRoom.room.state !== 'waiting') {
+        send(ws, 'error', 'Settings are locked once the game starts');
+        return;
+    }
+    if (payload.bestOf !== undefined && !DUEL_SERIES_LENGTHS.includes(payload.bestOf)) {
+        send(ws, 'error', 'Series must be best of 1, 3 or 5');
+        return;
+    }
+    if (payload.bestOf !== undefined) serverRoom.room.settings.bestOf = payload.bestOf;
+    if (payload.allowSpectators !== undefined) serverRoom.room.settings.allowSpectators = !!payload.allowSpectators;
+    broadcastRoom(serverRoom);
+}
+
+// Both duelists must ask before the next game starts with the same builds
+function requestRematch(ws: WebSocket, client: Client) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    const duel = serverRoom?.duel;
+    const player = serverRoom?.room.players.find(p => p.id === client.playerId);
+    if (!serverRoom || !duel || !player || duel.phase !== DuelPhase.Victory) {
+        send(ws, 'error', 'No finished duel to rematch');
+        return;
+    }
+    if (serverRoom.room.players.length < 2) {
+        send(ws, 'error', 'Your opponent has left');
+        return;
+    }
+
+    serverRoom.rematchVotes.add(player.id);
+    broadcast(serverRoom, 'rematch_vote', { playerId: player.id, name: player.name });
+    if (!serverRoom.room.players.every(p => serverRoom.rematchVotes.has(p.id))) return;
+
+    serverRoom.rematchVotes.clear();
+    serverRoom.pendingActions.clear();
+    serverRoom.duel = rules.rematchDuel(duel);
+    serverRoom.room.state = 'playing';
+    console.log(`[${serverRoom.room.code}] Rematch started`);
+    broadcastRoom(serverRoom);
+    broadcast(serverRoom, 'duel_update', serverRoom.duel);
+}
+
+function startCoop(ws: WebSocket, client: Client, payload: { playerId: string; seed: number; floor: number }) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    if (!serverRoom || serverRoom.room.mode !== 'coop') {
+        send(ws, 'error', 'Not in a co-op room');
+        return;
+    }
+    if (serverRoom.room.hostId !== client.playerId) {
+        send(ws, 'error', 'Only the host can start');
+        return;
+    }
+    serverRoom.room.state = 'playing';
+    broadcastRoom(serverRoom);
+    broadcast(serverRoom, 'coop_start', { seed: Number(payload.seed) >>> 0, floor: Math.max(1, Number(payload.floor) || 1) });
+}
+
+function coopState(client: Client, payload: { playerId: string; state: CoopPlayerState }) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    const player = serverRoom?.room.players.find(p => p.id === client.playerId);
+    if (!serverRoom || serverRoom.room.mode !== 'coop' || !player) return;
+
+    // Identity comes from the room, not the client
+    broadcast(serverRoom, 'coop_update', { ...payload.state, id: player.id, name: player.name }, player.id);
+}
+
+// The host runs the floor's enemies - everyone else follows its snapshot
+function coopEnemies(client: Client, payload: { playerId: string; floor: number; enemies: CoopEnemyState[] }) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    if (!serverRoom || serverRoom.room.mode !== 'coop' || serverRoom.room.hostId !== client.playerId) return;
+    if (!Array.isArray(payload.enemies)) return;
+
+    broadcast(serverRoom, 'coop_enemies', { floor: payload.floor, enemies: payload.enemies }, client.playerId);
+}
+
+function coopEvent(client: Client, payload: { playerId: string; event: CoopEvent }) {
+    const serverRoom = client.roomCode ? rooms.get(client.roomCode) : undefined;
+    const player = serverRoom?.room.players.find(p => p.id === client.playerId);
+    if (!serverRoom || serverRoom.room.mode !== 'coop' || !player) return;
+    if (typeof payload.event?.kind !== 'string') return;
+
+    broadcast(serverRoom, 'coop_event', { playerId: player.id, event: payload.event }, player.id);
+}
+
+// ============================================
+// SERVER
+// ============================================
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (ws) => {
+    const client: Client = { playerId: null, roomCode: null };
+    clients.set(ws, client);
+
+    ws.on('message', (raw) => {
+        let msg: { type: string; payload: any };
+        try {
+            msg = JSON.parse(raw.toString());
+        } catch {
+            send(ws, 'error', 'Malformed message');
+            return;
+        }
+        if (!msg || typeof msg.type !== 'string' || typeof msg.payload !== 'object' || msg.payload === null) {
+            send(ws, 'error', 'Malformed message');
+            return;
+        }
+
+        // A socket may only speak for the player it joined as
+        if (client.playerId && msg.payload.playerId && msg.payload.playerId !== client.playerId) {
+            send(ws, 'error', 'Player id mismatch');
+            return;
+        }
+
+        switch (msg.type) {
+            case 'create_room': createRoom(ws, client, msg.payload); break;
+            case 'join_room': joinRoom(ws, client, msg.payload); break;
+            case 'leave_room': leaveRoom(client); break;
+            case 'set_ready': setReady(ws, client, msg.payload); break;
+            case 'duel_action': duelAction(ws, client, msg.payload); break;
+            case 'update_settings': updateSettings(ws, client, msg.payload); break;
+            case 'request_rematch': requestRematch(ws, client); break;
+            case 'start_coop': startCoop(ws, client, msg.payload); break;
+            case 'coop_state': coopState(client, msg.payload); break;
+            case 'coop_enemies': coopEnemies(client, msg.payload); break;
+            case 'coop_event': coopEvent(client, msg.payload); break;
+            default: send(ws, 'error', `Unknown message type: ${msg.type}`);
+        }
+    });
+
+    ws.on('close', () => {
+        leaveRoom(client);
+        clients.delete(ws);
+    });
+});
+
+console.log(`Deluge-2 relay server listening on ws://localhost:${PORT}`);
@@ -9,10 +9,11 @@ export interface BiomeTheme {
     floorColor: string;
     floorAccent: string;
     fogColor: string;
-    ambientLight: number; // 0-1, affects explored but not visible tiles
+    ambientLight: number; // 0-1, sets sight radius and dims explored but not visible tiles
     particleColor: string;
     combatBgColor: string;
     combatAccent: string;
+    shopPriceMod: number; // Merchant price multiplier
 }
 
 export const BIOMES: Record<string, BiomeTheme> = {
@@ -26,7 +27,8 @@ export const BIOMES: Record<string, BiomeTheme> = {
         ambientLight: 0.5,
         particleColor: '#666',
         combatBgColor: 'rgba(15, 15, 25, 0.95)',
-        combatAccent: '#4af'
+        combatAccent: '#4af',
+        shopPriceMod: 1.0
     },
     cave: {
         name: 'Crystal Caves',
@@ -38,7 +40,8 @@ export const BIOMES: Record<string, BiomeTheme> = {
         ambientLight: 0.4,
         particleColor: '#a0f',
         combatBgColor: 'rgba(20, 10, 30, 0.95)',
-        combatAccent: '#a0f'
+        combatAccent: '#a0f',
+        shopPriceMod: 1.1
     },
     forest: {
         name: 'Overgrown Ruins',
@@ -50,7 +53,8 @@ export const BIOMES: Record<string, BiomeTheme> = {
         ambientLight: 0.6,
         particleColor: '#4f8',
         combatBgColor: 'rgba(10, 25, 15, 0.95)',
-        combatAccent: '#4f8'
+        combatAccent: '#4f8',
+        shopPriceMod: 1.0
     },
     ice: {
         name: 'Frozen Depths',
@@ -62,7 +66,8 @@ export const BIOMES: Record<string, BiomeTheme> = {
         ambientLight: 0.7,
         particleColor: '#aef',
         combatBgColor: 'rgba(15, 25, 35, 0.95)',
-        combatAccent: '#aef'
+        combatAccent: '#aef',
+        shopPriceMod: 1.2
     },
     fire: {
         name: 'Volcanic Pit',
@@ -74,7 +79,8 @@ export const BIOMES: Record<string, BiomeTheme> = {
         ambientLight: 0.5,
         particleColor: '#f84',
         combatBgColor: 'rgba(30, 15, 10, 0.95)',
-        combatAccent: '#f84'
+        combatAccent: '#f84',
+        shopPriceMod: 1.3
     },
     void: {
         name: 'The Void',
@@ -86,7 +92,8 @@ export const BIOMES: Record<string, BiomeTheme> = {
         ambientLight: 0.3,
         particleColor: '#55f',
         combatBgColor: 'rgba(5, 5, 20, 0.95)',
-        combatAccent: '#55f'
+        combatAccent: '#55f',
+        shopPriceMod: 1.5
     },
     blood: {
         name: 'Crimson Halls',
@@ -98,7 +105,8 @@ export const BIOMES: Record<string, BiomeTheme> = {
         ambientLight: 0.45,
         particleColor: '#f44',
         combatBgColor: 'rgba(25, 10, 10, 0.95)',
-        combatAccent: '#f44'
+        combatAccent: '#f44',
+        shopPriceMod: 1.4
     }
 };
 
@@ -117,3 +125,8 @@ export function getBiomeForFloor(floor: number): BiomeTheme {
 export function getBiomeName(floor: number): string {
     return getBiomeForFloor(floor).name;
 }
+
+// How far the player sees without a light source - brighter biomes see further
+export function getSightRadius(floor: number): number {
+    return Math.max(4, Math.round(getBiomeForFloor(floor).ambientLight * 16));
+}
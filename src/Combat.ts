@@ -1,5 +1,9 @@
 import { Player, Enemy } from './Entity';
 import { getRandomInt } from './utils';
+import { getChallengeDescription, type ChallengeConfig } from './RoomTypes';
+import { KeyBindings, DEFAULT_KEY_BINDINGS, type BindingAction } from './KeyBindings';
+import { getEnemySpriteById } from './EnemySprites';
+import type { SpriteMovesetAction } from './Sprite';
 
 // ============================================
 // COMBAT SYSTEM - Stance-Based Tactical Combat
@@ -12,7 +16,8 @@ export const CombatPhase = {
     Resolution: 2,      // Actions resolve with animation
     Result: 3,          // Show result, wait for next turn
     Victory: 4,
-    Defeat: 5
+    Defeat: 5,
+    Escaped: 6          // Player slipped away (Smoke Bomb)
 } as const;
 
 export type CombatPhase = typeof CombatPhase[keyof typeof CombatPhase];
@@ -39,46 +44,46 @@ export interface CombatActionDef {
     manaCost: number;
     baseDamage: number;
     speed: number; // Higher = faster, determines who hits first on clashes
-    key: string;   // Keyboard shortcut
+    binding: BindingAction | null; // Key binding that selects it
 }
 
 // Action definitions
 export const ACTIONS: Record<CombatAction, CombatActionDef> = {
     [CombatAction.None]: {
         id: CombatAction.None, name: 'Wait', description: 'Do nothing',
-        staminaCost: 0, manaCost: 0, baseDamage: 0, speed: 0, key: ''
+        staminaCost: 0, manaCost: 0, baseDamage: 0, speed: 0, binding: null
     },
     [CombatAction.Strike]: {
         id: CombatAction.Strike, name: 'Strike', description: 'Quick attack. Beats Feint, loses to Guard.',
-        staminaCost: 15, manaCost: 0, baseDamage: 1.0, speed: 5, key: '1'
+        staminaCost: 15, manaCost: 0, baseDamage: 1.0, speed: 5, binding: 'combatStrike'
     },
     [CombatAction.Guard]: {
         id: CombatAction.Guard, name: 'Guard', description: 'Block attacks. Beats Strike, loses to Feint.',
-        staminaCost: 10, manaCost: 0, baseDamage: 0, speed: 3, key: '2'
+        staminaCost: 10, manaCost: 0, baseDamage: 0, speed: 3, binding: 'combatGuard'
     },
     [CombatAction.Feint]: {
         id: CombatAction.Feint, name: 'Feint', description: 'Dodge & counter. Beats Guard, loses to Strike.',
-        staminaCost: 20, manaCost: 0, baseDamage: 0.5, speed: 7, key: '3'
+        staminaCost: 20, manaCost: 0, baseDamage: 0.5, speed: 7, binding: 'combatFeint'
     },
     [CombatAction.HeavyStrike]: {
         id: CombatAction.HeavyStrike, name: 'Heavy Strike', description: 'Powerful but slow. High risk, high reward.',
-        staminaCost: 30, manaCost: 0, baseDamage: 2.0, speed: 2, key: '4'
+        staminaCost: 30, manaCost: 0, baseDamage: 2.0, speed: 2, binding: 'combatHeavy'
     },
     [CombatAction.Heal]: {
         id: CombatAction.Heal, name: 'Heal', description: 'Restore 15 HP. Vulnerable while casting.',
-        staminaCost: 0, manaCost: 12, baseDamage: 0, speed: 1, key: 'Q'
+        staminaCost: 0, manaCost: 12, baseDamage: 0, speed: 1, binding: 'combatHeal'
     },
     [CombatAction.Fireball]: {
         id: CombatAction.Fireball, name: 'Fireball', description: 'Magic attack. Ignores Guard partially.',
-        staminaCost: 10, manaCost: 15, baseDamage: 1.8, speed: 4, key: 'W'
+        staminaCost: 10, manaCost: 15, baseDamage: 1.8, speed: 4, binding: 'combatFireball'
     },
     [CombatAction.Premonition]: {
         id: CombatAction.Premonition, name: 'Premonition', description: 'See enemy\'s next move before choosing.',
-        staminaCost: 0, manaCost: 8, baseDamage: 0, speed: 10, key: 'E'
+        staminaCost: 0, manaCost: 8, baseDamage: 0, speed: 10, binding: 'combatPremonition'
     },
     [CombatAction.Execute]: {
         id: CombatAction.Execute, name: 'Execute', description: 'Combo finisher! Requires 3 combo points.',
-        staminaCost: 25, manaCost: 0, baseDamage: 3.5, speed: 6, key: 'R'
+        staminaCost: 25, manaCost: 0, baseDamage: 3.5, speed: 6, binding: 'combatExecute'
     }
 };
 
@@ -95,6 +100,172 @@ export interface CombatResult {
     comboGained: number;
 }
 
+// ============================================
+// SPRITE MOVESETS - Moves authored in .sprite files
+// ============================================
+
+// Statuses a move's `special` can inflict. Other specials act at once:
+// 'heal' (lifesteal), 'restore_mana', 'crit_boost' and 'escape'
+export type CombatStatus = 'poison' | 'burn' | 'slow' | 'weaken' | 'stun' | 'buff_attack' | 'dodge_boost';
+
+// `self` statuses land on the move's user, the rest on its target
+export const COMBAT_STATUS_INFO: Record<CombatStatus, { name: string; turns: number; self: boolean; color: string }> = {
+    poison: { name: 'Poisoned', turns: 3, self: false, color: '#0f0' },  // 4% max HP per exchange
+    burn: { name: 'Burning', turns: 2, self: false, color: '#f60' },     // 6% max HP per exchange
+    slow: { name: 'Slowed', turns: 2, self: false, color: '#8af' },      // Half stamina regen
+    weaken: { name: 'Weakened', turns: 3, self: false, color: '#a8a' },  // -25% damage dealt
+    stun: { name: 'Stunned', turns: 1, self: false, color: '#ff0' },     // Lose the next action
+    buff_attack: { name: 'Empowered', turns: 3, self: true, color: '#f44' }, // +30% damage dealt
+    dodge_boost: { name: 'Evasive', turns: 2, self: true, color: '#aaf' }    // Half damage taken
+};
+
+export type CombatStatuses = Partial<Record<CombatStatus, number>>; // Turns left
+
+function isCombatStatus(special: string): special is CombatStatus {
+    return special in COMBAT_STATUS_INFO;
+}
+
+// Where an enemy move sits in the combat triangle: harmless moves guard or (with a special) leave the enemy open
+function classifyMove(move: SpriteMovesetAction): CombatAction {
+    if (move.baseDamage <= 0) return move.special ? CombatAction.None : CombatAction.Guard;
+    return move.baseDamage >= 1.5 ? CombatAction.HeavyStrike : CombatAction.Strike;
+}
+
+// Class moves named after a base action resolve as that action
+const BASE_MOVE_ACTIONS: Record<string, CombatAction> = {
+    strike: CombatAction.Strike,
+    guard: CombatAction.Guard,
+    feint: CombatAction.Feint,
+    heavy: CombatAction.HeavyStrike,
+    heal: CombatAction.Heal,
+    fireball: CombatAction.Fireball
+};
+
+// Menu slots a class move can take - a move goes in the slot whose default key it declares
+const MOVE_SLOTS: BindingAction[] = [
+    'combatStrike', 'combatGuard', 'combatFeint', 'combatHeavy',
+    'combatHeal', 'combatFireball', 'combatClass1', 'combatClass2'
+];
+const CLASS_SLOTS: BindingAction[] = ['combatClass1', 'combatClass2'];
+
+// Heal and Fireball only give way to a move of the same kind
+const RESERVED_SLOTS: Partial<Record<BindingAction, CombatAction>> = {
+    combatHeal: CombatAction.Heal,
+    combatFireball: CombatAction.Fireball
+};
+
+function slotForMove(move: SpriteMovesetAction): BindingAction | null {
+    const key = move.key.length === 1 ? move.key.toLowerCase() : move.key;
+    return MOVE_SLOTS.find(slot => DEFAULT_KEY_BINDINGS[slot].keys.includes(key)) ?? null;
+}
+
+// Moves whose key has no slot, is taken, or is reserved for another kind fill the free class slots
+function assignMoveSlots(moveset: SpriteMovesetAction[]): Map<BindingAction, SpriteMovesetAction> {
+    const slots = new Map<BindingAction, SpriteMovesetAction>();
+    const unplaced: SpriteMovesetAction[] = [];
+    for (const move of moveset) {
+        const slot = slotForMove(move);
+        const reserved = slot ? RESERVED_SLOTS[slot] : undefined;
+        if (slot && !slots.has(slot) && (reserved === undefined || BASE_MOVE_ACTIONS[move.id] === reserved)) {
+            slots.set(slot, move);
+        } else {
+            unplaced.push(move);
+        }
+    }
+    for (const move of unplaced) {
+        const free = CLASS_SLOTS.find(slot => !slots.has(slot));
+        if (free) {
+            slots.set(free, move);
+        } else {
+            console.warn(`No free combat slot for ${move.name} (key ${move.key})`);
+        }
+    }
+    return slots;
+}
+
+// Other class moves: spells cast like Fireball, harmless ones leave the player open
+function classifyPlayerMove(move: SpriteMovesetAction): CombatAction {
+    const base = BASE_MOVE_ACTIONS[move.id];
+    if (base !== undefined) return base;
+    if (move.baseDamage <= 0) return CombatAction.None;
+    if (move.manaCost > 0) return CombatAction.Fireball;
+    return move.baseDamage >= 1.5 ? CombatAction.HeavyStrike : CombatAction.Strike;
+}
+
+// A combat menu button - a base action, or the class move that took its slot
+export interface CombatMenuEntry extends CombatActionDef {
+    move: SpriteMovesetAction | null;
+}
+
+function isActive(statuses: CombatStatuses, status: CombatStatus): boolean {
+    return (statuses[status] ?? 0) > 0;
+}
+
+// ============================================
+// BOSS PHASES - HP thresholds that change the fight
+// ============================================
+
+// Lasting hazards a boss phase adds to the fight
+export type ArenaEffect = 'scorched' | 'unholy' | 'quake';
+
+export const ARENA_EFFECT_INFO: Record<ArenaEffect, { name: string; description: string; color: string }> = {
+    scorched: { name: 'Scorched Earth', description: 'You burn for 4% max HP each turn', color: '#f60' },
+    unholy: { name: 'Unholy Ground', description: 'The boss regains 3% max HP each turn', color: '#a0f' },
+    quake: { name: 'Quaking Floor', description: 'Your stamina recovers at half speed', color: '#a86' }
+};
+
+// Wound up one turn ahead - only Guard blunts it
+export interface ChargedAttack {
+    name: string;
+    damage: number; // Multiplier on the boss's attack
+    cooldown: number; // Turns between charges
+}
+
+export interface BossPhase {
+    name: string;
+    hpThreshold: number; // Entered once HP falls to this fraction of max
+    banner: string;
+    pattern?: CombatAction[]; // Replaces the boss's action pattern
+    summon?: { spriteId: string; count: number }; // Minions join the fight at the boss's side
+    arena?: ArenaEffect;
+    chargedAttack?: ChargedAttack;
+    attackBonus?: number; // Attack multiplier from here on
+}
+
+// Bosses without their own script just get angrier
+const DEFAULT_BOSS_PHASES: BossPhase[] = [
+    { name: 'Enraged', hpThreshold: 0.3, banner: 'Wounded and furious!', attackBonus: 1.25 }
+];
+
+// Keyed by sprite id, in order of falling HP
+export const BOSS_PHASES: Record<string, BossPhase[]> = {
+    ogre_boss: [
+        { name: 'Bloodrage', hpThreshold: 0.5, banner: 'The Ogre King roars in fury!', attackBonus: 1.25,
+            pattern: [CombatAction.HeavyStrike, CombatAction.Strike, CombatAction.Strike] },
+        { name: 'Earthshaker', hpThreshold: 0.25, banner: 'Every stomp shakes the floor!', arena: 'quake',
+            chargedAttack: { name: 'Ground Slam', damage: 2.5, cooldown: 3 } }
+    ],
+    necromancer_boss: [
+        { name: 'Unholy Ward', hpThreshold: 0.65, banner: 'Dark power seeps from the ground!', arena: 'unholy',
+            pattern: [CombatAction.Guard, CombatAction.Feint, CombatAction.Guard, CombatAction.Strike] },
+        { name: 'Raise the Dead', hpThreshold: 0.35, banner: 'Skeletons claw their way up!',
+            summon: { spriteId: 'skeleton', count: 2 } }
+    ],
+    dragon_boss: [
+        { name: 'Inferno Breath', hpThreshold: 0.66, banner: 'The dragon draws a deep breath...',
+            chargedAttack: { name: 'Inferno Breath', damage: 3, cooldown: 3 } },
+        { name: 'Molten Fury', hpThreshold: 0.33, banner: 'The ground itself catches fire!', arena: 'scorched',
+            attackBonus: 1.2, pattern: [CombatAction.HeavyStrike, CombatAction.Strike, CombatAction.Strike] }
+    ]
+};
+
+export function getBossPhases(enemy: Enemy): BossPhase[] {
+    if (!enemy.isBoss) return [];
+    return BOSS_PHASES[enemy.enemyType] ?? DEFAULT_BOSS_PHASES;
+}
+
+export const PHASE_BANNER_FRAMES = 120;
+
 export class CombatSystem {
     player: Player;
     enemy: Enemy;
@@ -119,9 +290,18 @@ export class CombatSystem {
 
     // Current turn state
     selectedAction: CombatAction | null = null;
+    selectedMove: SpriteMovesetAction | null = null; // Class move behind the selected action
     pendingEnemyAction: CombatAction = CombatAction.None;
     lastResult: CombatResult | null = null;
 
+    // Sprite moveset - the chosen move overrides the action's damage and speed
+    enemyMana: number = 0;
+    maxEnemyMana: number = 0;
+    pendingEnemyMove: SpriteMovesetAction | null = null;
+    enemyIntendedMove: SpriteMovesetAction | null = null;
+    playerStatuses: CombatStatuses = {};
+    enemyStatuses: CombatStatuses = {};
+
     // Animation/timing
     phaseTimer: number = 0;
     animationProgress: number = 0;
@@ -137,16 +317,42 @@ export class CombatSystem {
     enemyPattern: number[] = [];
     enemyPatternIndex: number = 0;
 
-    constructor(player: Player, enemy: Enemy) {
+    // Challenge room rules (null for normal fights)
+    challenge: ChallengeConfig | null = null;
+    challengeFailed: boolean = false;
+
+    // Enemy was caught unaware on the map and loses the first turn
+    ambushTurn: boolean = false;
+    escaped: boolean = false; // Set by an 'escape' class move - the fight ends after this exchange
+
+    // Boss phases
+    bossPhases: BossPhase[] = [];
+    bossPhaseIndex: number = -1; // Last phase entered
+    phaseBanner: { title: string; subtitle: string; timer: number } | null = null;
+    enemyAttackMult: number = 1;
+    arenaEffect: ArenaEffect | null = null;
+    chargedAttack: ChargedAttack | null = null;
+    chargeCooldown: number = 0;
+    charging: boolean = false; // Charged attack lands on the coming exchange
+    adds: Enemy[] = []; // Summoned minions - they strike every exchange and crumble when the boss falls
+    targetedAdd: Enemy | null = null; // Picked with the retarget key - null aims at the boss
+    private moveSlots: Map<BindingAction, SpriteMovesetAction>; // The player's class moves by menu slot
+
+    constructor(player: Player, enemy: Enemy, challenge: ChallengeConfig | null = null) {
         this.player = player;
         this.enemy = enemy;
+        this.challenge = challenge;
+        this.moveSlots = assignMoveSlots(player.sprite?.moveset ?? []);
 
         // Set enemy stamina based on level
         this.maxEnemyStamina = 80 + enemy.stats.level * 10;
         this.enemyStamina = this.maxEnemyStamina;
+        this.maxEnemyMana = enemy.sprite?.stats.baseMana ?? 0;
+        this.enemyMana = this.maxEnemyMana;
 
         // Generate enemy AI pattern (semi-predictable for skilled players)
         this.generateEnemyPattern();
+        this.bossPhases = getBossPhases(enemy);
 
         // Start with intro animation
         this.phase = CombatPhase.Intro;
@@ -154,7 +360,86 @@ export class CombatSystem {
         this.phaseTimer = 90; // 1.5 seconds at 60fps
 
         this.log.push(`-- Combat with ${enemy.name} begins! --`);
-        this.log.push(`Tip: Use [E] Premonition to see enemy's next move`);
+        if (challenge) {
+            this.log.push(`[CHALLENGE] ${getChallengeDescription(challenge)}`);
+        } else {
+            this.log.push(`Tip: Use [E] Premonition to see enemy's next move`);
+        }
+    }
+
+    // Free first strike - with Vanish unlocked the opener always crits
+    grantAmbush() {
+        this.ambushTurn = true;
+        this.log.push(`${this.enemy.name} is caught unaware! Free first strike.`);
+    }
+
+    // Enter every phase whose threshold the boss's HP has fallen past
+    checkBossPhase() {
+        if (this.enemy.isDead) return;
+        const hpRatio = this.enemy.stats.hp / this.enemy.stats.maxHp;
+        while (this.bossPhaseIndex + 1 < this.bossPhases.length &&
+            hpRatio <= this.bossPhases[this.bossPhaseIndex + 1].hpThreshold) {
+            this.bossPhaseIndex++;
+            this.enterBossPhase(this.bossPhases[this.bossPhaseIndex]);
+        }
+    }
+
+    enterBossPhase(phase: BossPhase) {
+        this.phaseBanner = { title: phase.name.toUpperCase(), subtitle: phase.banner, timer: PHASE_BANNER_FRAMES };
+        this.log.push(`[PHASE] ${this.enemy.name}: ${phase.name}!`);
+
+        if (phase.pattern) {
+            this.enemyPattern = phase.pattern;
+            this.enemyPatternIndex = 0;
+        }
+        if (phase.attackBonus) {
+            this.enemyAttackMult *= phase.attackBonus;
+        }
+        if (phase.arena) {
+            this.arenaEffect = phase.arena;
+            const info = ARENA_EFFECT_INFO[phase.arena];
+            this.log.push(`${info.name}: ${info.description}.`);
+        }
+        if (phase.chargedAttack) {
+            // First charge starts right away
+            this.chargedAttack = phase.chargedAttack;
+            this.chargeCooldown = 0;
+        }
+        if (phase.summon) {
+            const sprite = getEnemySpriteById(phase.summon.spriteId);
+            const level = Math.max(1, this.enemy.stats.level - 1);
+            for (let i = 0; sprite && i < phase.summon.count; i++) {
+                this.adds.push(new Enemy(this.enemy.x, this.enemy.y, level, false, sprite));
+            }
+            if (sprite && phase.summon.count > 0) {
+                this.log.push(`${this.enemy.name} summons ${phase.summon.count} ${sprite.name}s!`);
+            }
+        }
+    }
+
+    failChallenge(reason: string) {
+        if (!this.challenge || this.challengeFailed) return;
+        this.challengeFailed = true;
+        this.log.push(`[CHALLENGE FAILED] ${reason}`);
+    }
+
+    isChallengeMet(): boolean {
+        return this.challenge !== null && !this.challengeFailed;
+    }
+
+    // Rules that depend on the action chosen
+    checkChallengeAction(action: CombatAction, move: SpriteMovesetAction | null = null) {
+        if (!this.challenge) return;
+        // Class moves carry their own costs
+        const def = move ?? ACTIONS[action];
+
+        if (this.challenge.type === 'no_heal' && action === CombatAction.Heal) {
+            this.failChallenge('You healed.');
+        } else if (this.challenge.type === 'no_guard' && action === CombatAction.Guard) {
+            this.failChallenge('You raised your guard.');
+        } else if (this.challenge.type === 'no_mana' && def.manaCost > 0) {
+            this.failChallenge('You spent mana.');
+        }
     }
 
     generateEnemyPattern() {
@@ -205,8 +490,61 @@ export class CombatSystem {
         return action;
     }
 
-    canUseAction(action: CombatAction): boolean {
-        const def = ACTIONS[action];
+    // The pattern picks the kind of action, then enemies with a moveset pick one of their own moves to fit it
+    planEnemyTurn(): { action: CombatAction; move: SpriteMovesetAction | null } {
+        const action = this.getEnemyAction();
+        const move = this.pickEnemyMove(action);
+        return move ? { action: classifyMove(move), move } : { action, move: null };
+    }
+
+    // Feints have no moveset equivalent and stay generic
+    pickEnemyMove(action: CombatAction): SpriteMovesetAction | null {
+        // Self-buffs aren't recast while they last
+        const affordable = (this.enemy.sprite?.moveset ?? []).filter(m =>
+            m.staminaCost <= this.enemyStamina && m.manaCost <= this.enemyMana &&
+            !(m.special && isCombatStatus(m.special) && COMBAT_STATUS_INFO[m.special].self && isActive(this.enemyStatuses, m.special))
+        );
+        const fitting = (kinds: CombatAction[]) => affordable.filter(m => kinds.includes(classifyMove(m)));
+
+        let options: SpriteMovesetAction[] = [];
+        if (action === CombatAction.Guard) {
+            options = fitting([CombatAction.Guard, CombatAction.None]);
+        } else if (action === CombatAction.Strike || action === CombatAction.HeavyStrike) {
+            options = fitting([action]);
+            if (options.length === 0) options = fitting([CombatAction.Strike, CombatAction.HeavyStrike]);
+        }
+        return options.length > 0 ? options[getRandomInt(0, options.length)] : null;
+    }
+
+    playerHas(status: CombatStatus): boolean {
+        return isActive(this.playerStatuses, status);
+    }
+
+    enemyHas(status: CombatStatus): boolean {
+        return isActive(this.enemyStatuses, status);
+    }
+
+    // Land a move's special - returns the text for the result message
+    applyMoveSpecial(move: SpriteMovesetAction, byPlayer: boolean, damageDealt: number): string {
+        if (!move.special) return '';
+        const user = byPlayer ? this.player : this.enemy;
+        if (move.special === 'heal') {
+            const healed = Math.floor(damageDealt * 0.5);
+            if (healed <= 0) return '';
+            user.stats.hp = Math.min(user.stats.maxHp, user.stats.hp + healed);
+            return byPlayer ? ` You drain ${healed} HP!` : ` ${this.enemy.name} drains ${healed} HP!`;
+        }
+        if (!isCombatStatus(move.special)) return '';
+
+        const info = COMBAT_STATUS_INFO[move.special];
+        const onPlayer = info.self === byPlayer;
+        const statuses = onPlayer ? this.playerStatuses : this.enemyStatuses;
+        statuses[move.special] = Math.max(statuses[move.special] ?? 0, info.turns);
+        return onPlayer ? ` You are ${info.name.toLowerCase()}!` : ` ${this.enemy.name} is ${info.name.toLowerCase()}!`;
+    }
+
+    canUseAction(action: CombatAction, move: SpriteMovesetAction | null = null): boolean {
+        const def = move ?? ACTIONS[action];
 
         if (def.staminaCost > this.playerStamina) return false;
         if (def.manaCost > this.player.stats.mana) return false;
@@ -216,7 +554,7 @@ export class CombatSystem {
     }
 
     handleInput(key: string) {
-        if (this.phase === CombatPhase.Victory || this.phase === CombatPhase.Defeat) {
+        if (this.phase === CombatPhase.Victory || this.phase === CombatPhase.Defeat || this.phase === CombatPhase.Escaped) {
             return;
         }
 
@@ -240,13 +578,14 @@ export class CombatSystem {
 
         // Selection phase
         if (this.phase === CombatPhase.SelectAction) {
-            const upperKey = key.toUpperCase();
+            if (KeyBindings.matches('combatRetarget', key) && this.getLivingAdds().length > 0) {
+                this.cycleTarget();
+                return;
+            }
 
             // Find action by key
-            for (const actionId of Object.keys(ACTIONS)) {
-                const action = ACTIONS[Number(actionId) as CombatAction];
-                if (action.key === upperKey || action.key === key) {
-                    if (action.id === CombatAction.None) continue;
+            for (const action of this.getAvailableActions()) {
+                if (action.binding && KeyBindings.matches(action.binding, key)) {
 
                     // Special case: Premonition
                     if (action.id === CombatAction.Premonition) {
@@ -259,8 +598,8 @@ export class CombatSystem {
                     }
 
                     // Try to use the action
-                    if (this.canUseAction(action.id)) {
-                        this.selectAction(action.id);
+                    if (this.canUseAction(action.id, action.move)) {
+                        this.selectAction(action.id, action.move);
                     } else {
                         if (action.staminaCost > this.playerStamina) {
                             this.log.push(`Not enough stamina for ${action.name}!`);
@@ -277,39 +616,59 @@ export class CombatSystem {
     }
 
     usePremonition() {
+        this.checkChallengeAction(CombatAction.Premonition);
         this.player.stats.mana -= ACTIONS[CombatAction.Premonition].manaCost;
         this.premonitionActive = true;
 
         // Determine what enemy will do
-        this.enemyIntendedAction = this.getEnemyAction();
-        // Reset pattern index since we peeked
-        this.enemyPatternIndex--;
+        this.enemyIntendedMove = null;
+        if (this.ambushTurn || this.charging || this.enemyHas('stun')) {
+            this.enemyIntendedAction = CombatAction.None;
+        } else {
+            const plan = this.planEnemyTurn();
+            this.enemyIntendedAction = plan.action;
+            this.enemyIntendedMove = plan.move;
+            // Reset pattern index since we peeked
+            this.enemyPatternIndex--;
+        }
 
-        this.log.push(`[PREMONITION] Enemy intends to use ${ACTIONS[this.enemyIntendedAction].name}!`);
+        const intent = this.charging && this.chargedAttack ? this.chargedAttack.name
+            : this.enemyIntendedMove?.name ?? ACTIONS[this.enemyIntendedAction].name;
+        this.log.push(`[PREMONITION] Enemy intends to use ${intent}!`);
         this.phase = CombatPhase.ShowPremonition;
 
         this.addEffect('premonition', 400, 240, '#a0f');
     }
 
-    selectAction(action: CombatAction) {
+    selectAction(action: CombatAction, move: SpriteMovesetAction | null = null) {
         this.selectedAction = action;
+        this.selectedMove = move;
+        this.checkChallengeAction(action, move);
 
         // Determine enemy action (use premonition result if active)
-        if (this.premonitionActive) {
+        if (this.ambushTurn || this.charging || this.enemyHas('stun')) {
+            this.pendingEnemyAction = CombatAction.None;
+            this.pendingEnemyMove = null;
+            this.premonitionActive = false;
+        } else if (this.premonitionActive) {
             this.pendingEnemyAction = this.enemyIntendedAction;
+            this.pendingEnemyMove = this.enemyIntendedMove;
             this.premonitionActive = false;
         } else {
-            this.pendingEnemyAction = this.getEnemyAction();
+            const plan = this.planEnemyTurn();
+            this.pendingEnemyAction = plan.action;
+            this.pendingEnemyMove = plan.move;
         }
 
         // Pay costs
-        const actionDef = ACTIONS[action];
+        const actionDef = move ?? ACTIONS[action];
         this.playerStamina -= actionDef.staminaCost;
         this.player.stats.mana -= actionDef.manaCost;
 
         // Enemy pays costs
-        const enemyActionDef = ACTIONS[this.pendingEnemyAction];
-        this.enemyStamina -= enemyActionDef.staminaCost;
+        const enemyCost = this.pendingEnemyMove ?? ACTIONS[this.pendingEnemyAction];
+        this.enemyStamina -= enemyCost.staminaCost;
+        this.enemyMana -= enemyCost.manaCost;
 
         // Move to resolution
         this.phase = CombatPhase.Resolution;
@@ -319,10 +678,13 @@ export class CombatSystem {
 
     resolveActions(): CombatResult {
         const playerAction = this.selectedAction!;
+        const playerMove = this.selectedMove;
         const enemyAction = this.pendingEnemyAction;
+        const enemyMove = this.pendingEnemyMove;
 
-        const playerDef = ACTIONS[playerAction];
-        const enemyDef = ACTIONS[enemyAction];
+        const playerDef = playerMove ?? ACTIONS[playerAction];
+        const enemyDef = enemyMove ?? ACTIONS[enemyAction];
+        const enemyMoveName = enemyMove?.name ?? ACTIONS[enemyAction].name;
 
         let playerDamage = 0;
         let enemyDamage = 0;
@@ -333,13 +695,48 @@ export class CombatSystem {
         let comboGained = 0;
 
         // Calculate base damages
-        const playerBaseDmg = playerDef.baseDamage * this.player.stats.attack;
-        const enemyBaseDmg = enemyDef.baseDamage * this.enemy.stats.attack;
+        const statusMult = (statuses: CombatStatuses) =>
+            (isActive(statuses, 'weaken') ? 0.75 : 1) * (isActive(statuses, 'buff_attack') ? 1.3 : 1);
+        const playerAttack = this.player.stats.attack * statusMult(this.playerStatuses);
+        const enemyAttack = this.enemy.stats.attack * this.enemyAttackMult * statusMult(this.enemyStatuses);
+        const playerStunned = playerAction === CombatAction.None && !playerMove;
+        const enemyStunned = this.enemyHas('stun');
+        const playerBaseDmg = playerDef.baseDamage * playerAttack;
+        const enemyBaseDmg = enemyDef.baseDamage * enemyAttack;
 
         // ========== RESOLUTION MATRIX ==========
 
+        // Turning on a minion leaves the boss's move unanswered
+        const targetedAdd = this.targetedAdd && !this.targetedAdd.isDead ? this.targetedAdd : null;
+        if (targetedAdd && playerDef.baseDamage > 0) {
+            let addDamage = playerBaseDmg;
+            if (playerAction === CombatAction.Execute) {
+                addDamage *= 1 + this.comboPoints * 0.5;
+                this.comboPoints = 0;
+            }
+            message = this.strikeAdd(targetedAdd, addDamage);
+            if (enemyDef.baseDamage > 0) {
+                playerDamage = Math.floor(enemyBaseDmg);
+                message += ` ${this.enemy.name}'s ${enemyMoveName} hits you for ${playerDamage}!`;
+                outcome = 'enemy_wins';
+            } else {
+                outcome = 'player_wins';
+            }
+        }
         // Handle special actions first
-        if (playerAction === CombatAction.Heal) {
+        else if (playerMove?.special === 'restore_mana') {
+            const restored = Math.min(20, this.player.stats.maxMana - this.player.stats.mana);
+            this.player.stats.mana += restored;
+            message = `${playerMove.name} restores ${restored} MP.`;
+            if (enemyDef.baseDamage > 0) {
+                enemyDamage = 0;
+                playerDamage = Math.floor(enemyBaseDmg * 1.5);
+                message += ` But take ${playerDamage} damage while vulnerable!`;
+                outcome = 'enemy_wins';
+            }
+            this.addEffect('heal', 200, 300, '#00f');
+        }
+        else if (playerAction === CombatAction.Heal) {
             playerHealed = 15 + Math.floor(this.player.stats.level * 2);
             this.player.heal(playerHealed);
             message = `You heal for ${playerHealed} HP!`;
@@ -366,7 +763,9 @@ export class CombatSystem {
             // Magic damage - partially ignores guard
             const guardReduction = enemyAction === CombatAction.Guard ? 0.5 : 1.0;
             enemyDamage = Math.floor(playerBaseDmg * guardReduction);
-            message = `[FIRE] Fireball hits for ${enemyDamage} damage!`;
+            message = playerMove && playerMove.id !== 'fireball'
+                ? `${playerMove.name} hits for ${enemyDamage} damage!`
+                : `[FIRE] Fireball hits for ${enemyDamage} damage!`;
             if (guardReduction < 1) message += ' (Partially blocked)';
             outcome = 'player_wins';
             comboGained = 1;
@@ -441,14 +840,14 @@ export class CombatSystem {
                 this.enemyStamina = Math.min(this.maxEnemyStamina, this.enemyStamina + 20);
             }
             else {
-                message = `You guard, enemy uses ${ACTIONS[enemyAction].name}.`;
+                message = enemyMove ? 'You hold your guard.' : `You guard, enemy uses ${enemyMoveName}.`;
                 outcome = 'neutral';
             }
         }
         else if (playerAction === CombatAction.Feint) {
             if (enemyAction === CombatAction.Guard) {
                 // Feint vs Guard - break their guard, counter!
-                enemyDamage = Math.floor(this.player.stats.attack * 0.8);
+                enemyDamage = Math.floor(playerBaseDmg * 1.6);
                 message = `Feint breaks guard! Counter for ${enemyDamage}!`;
                 outcome = 'player_wins';
                 comboGained = 1;
@@ -474,6 +873,57 @@ export class CombatSystem {
             }
         }
 
+        // Smoke Bomb and the like - gone before the enemy can act
+        else if (playerMove?.special === 'escape') {
+            this.escaped = true;
+            message = `${playerMove.name}! You slip away from ${this.enemy.name}.`;
+            outcome = 'neutral';
+        }
+        // Stunned, or a harmless class move - the enemy gets a free hit
+        else if (playerAction === CombatAction.None) {
+            playerDamage = Math.floor(enemyBaseDmg);
+            const opener = playerStunned ? `You're stunned!` : `You use ${playerMove!.name}.`;
+            message = playerDamage > 0 ? `${opener} ${enemyMoveName} hits for ${playerDamage}!` : opener;
+            outcome = playerDamage > 0 ? 'enemy_wins' : 'neutral';
+        }
+
+        if (playerMove && playerMove.name !== ACTIONS[playerAction].name && !message.includes(playerMove.name)) {
+            message = `${playerMove.name}: ${message}`;
+        }
+        if (enemyMove) {
+            message = `${this.enemy.name} uses ${enemyMove.name}! ${message}`;
+        } else if (enemyStunned) {
+            message = `${this.enemy.name} is stunned! ${message}`;
+        }
+
+        // A stun breaks the boss's concentration
+        if (this.charging && this.chargedAttack && enemyStunned) {
+            message += ` ${this.chargedAttack.name} is interrupted!`;
+            this.charging = false;
+            this.chargeCooldown = this.chargedAttack.cooldown;
+        }
+
+        // Charged boss attack lands - a raised guard takes only chip damage
+        if (this.charging && this.chargedAttack && !this.escaped) {
+            const chargeDmg = Math.floor(enemyAttack * this.chargedAttack.damage);
+            if (playerAction === CombatAction.Guard) {
+                const chip = Math.floor(chargeDmg * 0.1);
+                playerDamage += chip;
+                message = `You brace against ${this.chargedAttack.name}! Only ${chip} damage!`;
+                outcome = 'player_wins';
+                this.addEffect('block', 200, 300, '#0af');
+            } else {
+                playerDamage += chargeDmg;
+                message += ` ${this.chargedAttack.name} hits you for ${chargeDmg}!`;
+                outcome = 'enemy_wins';
+                this.addEffect('fireball', 200, 300, '#f40', { secondary: '#ff0' });
+            }
+            this.charging = false;
+            this.chargeCooldown = this.chargedAttack.cooldown;
+        }
+
+        if (!this.escaped) message += this.resolveAdds(playerAction, playerBaseDmg, targetedAdd);
+
         // Apply combo gain
         this.comboPoints = Math.min(this.maxComboPoints, this.comboPoints + comboGained);
 
@@ -483,17 +933,25 @@ export class CombatSystem {
             if (Math.random() < this.player.stats.critChance) {
                 playerDamage = Math.floor(playerDamage * 0.5); // Crit reduction for defense
             }
+            if (this.playerHas('dodge_boost')) {
+                playerDamage = Math.floor(playerDamage * 0.5);
+            }
             playerDamage = Math.max(1, playerDamage - this.player.stats.defense);
             this.player.stats.hp -= playerDamage;
         }
 
         if (enemyDamage > 0) {
             // Check for player crit
-            if (Math.random() < this.player.stats.critChance) {
+            const ambushCrit = this.ambushTurn && this.player.unlockedAbilities.includes('vanish');
+            const critChance = this.player.stats.critChance + (playerMove?.special === 'crit_boost' ? 0.5 : 0);
+            if (ambushCrit || Math.random() < critChance) {
                 enemyDamage = Math.floor(enemyDamage * 1.5);
                 criticalHit = true;
                 message += ' CRITICAL!';
             }
+            if (this.enemyHas('dodge_boost')) {
+                enemyDamage = Math.floor(enemyDamage * 0.5);
+            }
             enemyDamage = Math.max(1, enemyDamage - this.enemy.stats.defense);
             this.enemy.stats.hp -= enemyDamage;
 
@@ -504,6 +962,34 @@ export class CombatSystem {
             }
         }
 
+        // Lingering statuses tick down before this exchange's specials land
+        message += this.tickStatuses(this.playerStatuses, this.player);
+        message += this.tickStatuses(this.enemyStatuses, this.enemy);
+
+        // Damaging specials need the hit to get through a guard; harmless ones (roars, buffs) always land.
+        // A combatant who just sat out a stun can't be stunned again straight away
+        if (enemyMove?.special) {
+            const landed = enemyMove.baseDamage <= 0 || (playerDamage > 0 && playerAction !== CombatAction.Guard);
+            const chainStun = enemyMove.special === 'stun' && playerStunned;
+            if (landed && !chainStun) message += this.applyMoveSpecial(enemyMove, false, playerDamage);
+        }
+        if (playerMove?.special && !this.escaped) {
+            const landed = playerMove.baseDamage <= 0 || (enemyDamage > 0 && enemyAction !== CombatAction.Guard);
+            const chainStun = playerMove.special === 'stun' && enemyStunned;
+            if (landed && !chainStun) message += this.applyMoveSpecial(playerMove, true, enemyDamage);
+        }
+
+        // Arena hazards tick after every exchange
+        if (this.arenaEffect === 'scorched') {
+            const burn = Math.max(1, Math.floor(this.player.stats.maxHp * 0.04));
+            this.player.stats.hp -= burn;
+            message += ` Scorched for ${burn}.`;
+        } else if (this.arenaEffect === 'unholy' && this.enemy.stats.hp > 0) {
+            const mend = Math.max(1, Math.floor(this.enemy.stats.maxHp * 0.03));
+            this.enemy.stats.hp = Math.min(this.enemy.stats.maxHp, this.enemy.stats.hp + mend);
+            message += ` ${this.enemy.name} mends ${mend} HP.`;
+        }
+
         // Check for death
         if (this.player.stats.hp <= 0) {
             this.player.stats.hp = 0;
@@ -529,11 +1015,97 @@ export class CombatSystem {
         };
     }
 
+    getLivingAdds(): Enemy[] {
+        return this.adds.filter(add => !add.isDead);
+    }
+
+    // Step through the boss and each minion still standing
+    cycleTarget() {
+        const targets: (Enemy | null)[] = [null, ...this.getLivingAdds()];
+        this.targetedAdd = targets[(targets.indexOf(this.targetedAdd) + 1) % targets.length];
+        this.log.push(`Targeting ${(this.targetedAdd ?? this.enemy).name}.`);
+    }
+
+    // A blow aimed at a minion - they never guard
+    strikeAdd(add: Enemy, baseDamage: number): string {
+        const damage = Math.max(1, Math.floor(baseDamage) - add.stats.defense);
+        add.stats.hp -= damage;
+        let message = `You hit ${add.name} for ${damage} damage!`;
+        if (add.stats.hp <= 0) {
+            add.stats.hp = 0;
+            add.isDead = true;
+            message += ` ${add.name} is destroyed!`;
+        }
+        if (add.isDead && this.targetedAdd === add) this.targetedAdd = null;
+        return message;
+    }
+
+    // Fireball's blast reaches the other minions, then each one still standing strikes -
+    // a raised guard turns their blows to chip damage
+    resolveAdds(playerAction: CombatAction, playerBaseDmg: number, struck: Enemy | null): string {
+        let message = '';
+        if (playerAction === CombatAction.Fireball) {
+            for (const add of this.getLivingAdds()) {
+                if (add === struck) continue;
+                add.stats.hp -= Math.max(1, Math.floor(playerBaseDmg * 0.7) - add.stats.defense);
+                if (add.stats.hp <= 0) {
+                    add.stats.hp = 0;
+                    add.isDead = true;
+                    message += ` ${add.name} is destroyed!`;
+                }
+            }
+            if (this.targetedAdd?.isDead) this.targetedAdd = null;
+        }
+
+        let damage = 0;
+        for (const add of this.getLivingAdds()) {
+            const hit = Math.floor(add.stats.attack * (playerAction === CombatAction.Guard ? 0.2 : 0.7));
+            damage += Math.max(1, hit - this.player.stats.defense);
+        }
+        if (damage > 0) {
+            this.player.stats.hp -= damage;
+            message += ` Minions hit you for ${damage}!`;
+        }
+        return message;
+    }
+
+    // Poison and burning hurt, then every status loses a turn
+    tickStatuses(statuses: CombatStatuses, holder: Player | Enemy): string {
+        let message = '';
+        for (const status of Object.keys(statuses) as CombatStatus[]) {
+            if (!isActive(statuses, status)) continue;
+            if (status === 'poison' || status === 'burn') {
+                const tick = Math.max(1, Math.floor(holder.stats.maxHp * (status === 'poison' ? 0.04 : 0.06)));
+                const name = COMBAT_STATUS_INFO[status].name;
+                holder.stats.hp -= tick;
+                message += holder === this.player ? ` ${name}: -${tick} HP.` : ` ${holder.name} is ${name.toLowerCase()}: -${tick} HP.`;
+            }
+            statuses[status]!--;
+        }
+        return message;
+    }
+
     advanceToNextTurn() {
+        // Turn-based challenge rules
+        if (this.challenge && !this.enemy.isDead && !this.player.isDead && this.turn >= this.challenge.duration) {
+            if (this.challenge.type === 'speed_kill') {
+                this.failChallenge('Out of time.');
+            } else if (this.challenge.type === 'survive') {
+                // Challenger yields once the player has outlasted them
+                this.enemy.stats.hp = 0;
+                this.enemy.isDead = true;
+                this.log.push(`${this.enemy.name} yields!`);
+            }
+        }
+
         // Check for combat end
         if (this.enemy.isDead) {
             this.phase = CombatPhase.Victory;
             this.log.push(`** Victory! ** ${this.enemy.name} defeated!`);
+            if (this.getLivingAdds().length > 0) {
+                this.log.push('Its minions crumble without their master.');
+                this.adds.forEach(add => { add.isDead = true; });
+            }
             return;
         }
         if (this.player.isDead) {
@@ -541,19 +1113,44 @@ export class CombatSystem {
             this.log.push(`** Defeat! ** You have fallen...`);
             return;
         }
+        if (this.escaped) {
+            this.phase = CombatPhase.Escaped;
+            this.failChallenge('You fled.');
+            return;
+        }
 
         // Stamina regeneration
-        this.playerStamina = Math.min(this.maxPlayerStamina, this.playerStamina + 15);
-        this.enemyStamina = Math.min(this.maxEnemyStamina, this.enemyStamina + 15);
+        const staminaRegen = this.arenaEffect === 'quake' || this.playerHas('slow') ? 7 : 15;
+        this.playerStamina = Math.min(this.maxPlayerStamina, this.playerStamina + staminaRegen);
+        this.enemyStamina = Math.min(this.maxEnemyStamina, this.enemyStamina + (this.enemyHas('slow') ? 7 : 15));
+        this.enemyMana = Math.min(this.maxEnemyMana, this.enemyMana + 3);
 
         // Mana regeneration (small)
         this.player.stats.mana = Math.min(this.player.stats.maxMana, this.player.stats.mana + 2);
 
+        // Boss winds up its charged attack for the coming turn
+        if (this.chargedAttack) {
+            if (this.chargeCooldown > 0) {
+                this.chargeCooldown--;
+            } else {
+                this.charging = true;
+                this.log.push(`${this.enemy.name} is charging ${this.chargedAttack.name}! GUARD!`);
+            }
+        }
+
         // Reset turn state
+        this.ambushTurn = false;
         this.selectedAction = null;
+        this.selectedMove = null;
         this.lastResult = null;
         this.turn++;
         this.phase = CombatPhase.SelectAction;
+
+        // A stun skips straight to the enemy's move
+        if (this.playerHas('stun')) {
+            this.log.push('You are stunned and lose your turn!');
+            this.selectAction(CombatAction.None);
+        }
     }
 
     update() {
@@ -565,6 +1162,10 @@ export class CombatSystem {
             }
         }
 
+        if (this.phaseBanner && --this.phaseBanner.timer <= 0) {
+            this.phaseBanner = null;
+        }
+
         // Handle intro phase animation
         if (this.phase === CombatPhase.Intro) {
             this.introProgress += 2; // Progress the intro animation
@@ -585,6 +1186,10 @@ export class CombatSystem {
                 // Resolve the actions
                 this.lastResult = this.resolveActions();
                 this.log.push(this.lastResult.message);
+                if (this.challenge?.type === 'no_damage' && this.lastResult.playerDamage > 0) {
+                    this.failChallenge('You took damage.');
+                }
+                this.checkBossPhase();
                 this.phase = CombatPhase.Result;
                 this.phaseTimer = 90; // Show result for 1.5 seconds
             }
@@ -619,18 +1224,21 @@ export class CombatSystem {
         // Clean up
     }
 
-    // Get available actions for UI
-    getAvailableActions(): CombatActionDef[] {
-        return [
-            ACTIONS[CombatAction.Strike],
-            ACTIONS[CombatAction.Guard],
-            ACTIONS[CombatAction.Feint],
-            ACTIONS[CombatAction.HeavyStrike],
-            ACTIONS[CombatAction.Heal],
-            ACTIONS[CombatAction.Fireball],
-            ACTIONS[CombatAction.Premonition],
-            ACTIONS[CombatAction.Execute]
-        ];
+    // Get available actions for UI - the class moveset takes over the slots its moves declare
+    getAvailableActions(): CombatMenuEntry[] {
+        const entries: CombatMenuEntry[] = [];
+        for (const slot of MOVE_SLOTS) {
+            const move = this.moveSlots.get(slot);
+            const base = Object.values(ACTIONS).find(a => a.binding === slot);
+            if (move) {
+                entries.push({ ...move, id: classifyPlayerMove(move), binding: slot, move });
+            } else if (base) {
+                entries.push({ ...base, move: null });
+            }
+        }
+        entries.push({ ...ACTIONS[CombatAction.Premonition], move: null });
+        entries.push({ ...ACTIONS[CombatAction.Execute], move: null });
+        return entries;
     }
 }
 
@@ -677,7 +1285,8 @@ export interface EnemyCombatState {
 }
 
 export class MultiCombatSystem {
-    player: Player;
+    player: Player; // Party member acting this turn
+    party: Player[]; // Co-op allies take turns acting
     enemies: EnemyCombatState[] = [];
 
     phase: MultiCombatPhase = MultiCombatPhase.SelectTarget;
@@ -710,8 +1319,9 @@ export class MultiCombatSystem {
     // Visual effects
     effects: CombatEffect[] = [];
 
-    constructor(player: Player, enemies: Enemy[]) {
+    constructor(player: Player, enemies: Enemy[], ally: Player | null = null) {
         this.player = player;
+        this.party = ally ? [player, ally] : [player];
 
         // Initialize enemy combat states
         for (const enemy of enemies) {
@@ -729,6 +1339,9 @@ export class MultiCombatSystem {
         }
 
         this.log.push(`-- Swarm Battle! ${enemies.length} enemies! --`);
+        if (ally) {
+            this.log.push(`${ally.name} joins the fight! Allies take turns.`);
+        }
         this.log.push(`Use UP/DOWN to select target, then choose action`);
     }
 
@@ -797,11 +1410,11 @@ export class MultiCombatSystem {
         // Target selection
         if (this.phase === MultiCombatPhase.SelectTarget) {
             const aliveEnemies = this.getAliveEnemies();
-            if (key === 'ArrowUp' || key === 'w') {
+            if (KeyBindings.matches('moveUp', key)) {
                 this.selectedTargetIndex = Math.max(0, this.selectedTargetIndex - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 this.selectedTargetIndex = Math.min(aliveEnemies.length - 1, this.selectedTargetIndex + 1);
-            } else if (key === 'Enter' || key === ' ') {
+            } else if (KeyBindings.matches('confirm', key)) {
                 this.phase = MultiCombatPhase.SelectAction;
             }
             return;
@@ -809,18 +1422,15 @@ export class MultiCombatSystem {
 
         // Action selection
         if (this.phase === MultiCombatPhase.SelectAction) {
-            const upperKey = key.toUpperCase();
-
-            // Tab to go back to target selection
-            if (key === 'Tab' || key === 'Escape') {
+            // Back to target selection
+            if (KeyBindings.matches('combatRetarget', key) || KeyBindings.matches('cancel', key)) {
                 this.phase = MultiCombatPhase.SelectTarget;
                 return;
             }
 
             for (const actionId of Object.keys(ACTIONS)) {
                 const action = ACTIONS[Number(actionId) as CombatAction];
-                if (action.key === upperKey || action.key === key) {
-                    if (action.id === CombatAction.None) continue;
+                if (action.binding && KeyBindings.matches(action.binding, key)) {
 
                     if (action.id === CombatAction.Premonition) {
                         if (this.canUseAction(CombatAction.Premonition)) {
@@ -1046,7 +1656,8 @@ export class MultiCombatSystem {
             return;
         }
 
-        if (this.player.isDead) {
+        const aliveParty = this.party.filter(p => !p.isDead);
+        if (aliveParty.length === 0) {
             this.phase = MultiCombatPhase.Defeat;
             this.log.push(`** Defeat! ** Overwhelmed by the swarm...`);
             return;
@@ -1065,6 +1676,15 @@ export class MultiCombatSystem {
 
         this.player.stats.mana = Math.min(this.player.stats.maxMana, this.player.stats.mana + 2);
 
+        // Hand the turn to the next standing ally
+        if (this.party.length > 1) {
+            const next = aliveParty[(aliveParty.indexOf(this.player) + 1) % aliveParty.length];
+            if (next !== this.player) {
+                this.player = next;
+                this.log.push(`${next.name}'s turn!`);
+            }
+        }
+
         this.selectedAction = null;
         this.lastResult = null;
         this.turn++;
@@ -0,0 +1,67 @@
+// ============================================
+// DUEL RANKING - Local Elo ladder per player name
+// ============================================
+
+const RATINGS_KEY = 'deluge2_duel_ratings';
+export const STARTING_RATING = 1200;
+const K_FACTOR = 32;
+
+export interface DuelRating {
+    name: string;
+    rating: number;
+    wins: number;
+    losses: number;
+    draws: number;
+}
+
+export class DuelRanking {
+    private static load(): Record<string, DuelRating> {
+        try {
+            const json = localStorage.getItem(RATINGS_KEY);
+            if (json) return JSON.parse(json);
+        } catch (e) {
+            console.error('Failed to load duel ratings:', e);
+        }
+        return {};
+    }
+
+    static getRating(name: string): DuelRating {
+        return this.load()[name] ?? { name, rating: STARTING_RATING, wins: 0, losses: 0, draws: 0 };
+    }
+
+    // Highest rated first
+    static getLeaderboard(limit: number): DuelRating[] {
+        return Object.values(this.load())
+            .sort((a, b) => b.rating - a.rating)
+            .slice(0, limit);
+    }
+
+    // Rate one finished game. winner is 'player1', 'player2' or null for a draw
+    static recordResult(player1Name: string, player2Name: string, winner: string | null) {
+        if (player1Name === player2Name) return;
+        const ratings = this.load();
+        const p1 = ratings[player1Name] ?? this.getRating(player1Name);
+        const p2 = ratings[player2Name] ?? this.getRating(player2Name);
+
+        const expected1 = 1 / (1 + Math.pow(10, (p2.rating - p1.rating) / 400));
+        const score1 = winner === 'player1' ? 1 : winner === 'player2' ? 0 : 0.5;
+        const change = Math.round(K_FACTOR * (score1 - expected1));
+        p1.rating += change;
+        p2.rating -= change;
+
+        if (winner === 'player1') {
+            p1.wins++;
+            p2.losses++;
+        } else if (winner === 'player2') {
+            p2.wins++;
+            p1.losses++;
+        } else {
+            p1.draws++;
+            p2.draws++;
+        }
+
+        ratings[player1Name] = p1;
+        ratings[player2Name] = p2;
+        localStorage.setItem(RATINGS_KEY, JSON.stringify(ratings));
+    }
+}
@@ -0,0 +1,135 @@
+// ============================================
+// DUEL REPLAYS - Turn-by-turn history of finished duels
+// ============================================
+
+import { DuelPhase, DUEL_ACTION_NAMES } from './Multiplayer';
+import type { DuelState, DuelStats, DuelTurnRecord } from './Multiplayer';
+
+const REPLAYS_KEY = 'deluge2_duel_replays';
+const MAX_STORED_REPLAYS = 10;
+
+export interface DuelReplay {
+    id: string;
+    date: number; // ms timestamp
+    player1Name: string;
+    player2Name: string;
+    player1Stats: DuelStats; // Builds at the start of the duel
+    player2Stats: DuelStats;
+    winnerId: string | null;
+    history: DuelTurnRecord[];
+}
+
+// Capture a finished duel
+export function createDuelReplay(state: DuelState, player1Name: string, player2Name: string): DuelReplay {
+    // Duels start at full HP/mana, so the builds are the final stats topped back up
+    const startStats = (stats: DuelStats): DuelStats => ({ ...stats, hp: stats.maxHp, mana: stats.maxMana });
+    return {
+        id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+        date: Date.now(),
+        player1Name,
+        player2Name,
+        player1Stats: startStats(state.player1Stats),
+        player2Stats: startStats(state.player2Stats),
+        winnerId: state.winnerId,
+        history: state.history
+    };
+}
+
+// Rebuild the duel as it stood after `turnIndex` turns (0 = before the first turn)
+export function getReplayFrame(replay: DuelReplay, turnIndex: number): DuelState {
+    const index = Math.max(0, Math.min(turnIndex, replay.history.length));
+    const record = index > 0 ? replay.history[index - 1] : null;
+    const isLast = index === replay.history.length;
+
+    const frame: DuelState = {
+        phase: DuelPhase.Resolution,
+        turn: index + 1,
+        player1Stats: { ...replay.player1Stats },
+        player2Stats: { ...replay.player2Stats },
+        player1Stamina: 100,
+        player2Stamina: 100,
+        player1Action: null,
+        player2Action: null,
+        lastResult: `${replay.player1Name} vs ${replay.player2Name} - the duel begins!`,
+        winnerId: null,
+        history: replay.history.slice(0, index),
+        series: { bestOf: 1, player1Wins: 0, player2Wins: 0 }
+    };
+
+    if (record) {
+        frame.turn = record.turn;
+        frame.player1Stats.hp = record.player1Hp;
+        frame.player2Stats.hp = record.player2Hp;
+        frame.player1Stats.mana = record.player1Mana;
+        frame.player2Stats.mana = record.player2Mana;
+        frame.player1Stamina = record.player1Stamina;
+        frame.player2Stamina = record.player2Stamina;
+        frame.player1Action = record.player1Action;
+        frame.player2Action = record.player2Action;
+        frame.lastResult = record.message;
+    }
+
+    if (record && isLast) {
+        frame.phase = DuelPhase.Victory;
+        frame.winnerId = replay.winnerId;
+        if (replay.winnerId === 'player1') frame.lastResult = `${replay.player1Name} wins!`;
+        else if (replay.winnerId === 'player2') frame.lastResult = `${replay.player2Name} wins!`;
+        else frame.lastResult = 'DRAW!';
+    }
+    return frame;
+}
+
+// Short "P1 Strike vs P2 Guard" line for a recorded turn
+export function describeTurn(replay: DuelReplay, record: DuelTurnRecord): string {
+    return `${replay.player1Name}: ${DUEL_ACTION_NAMES[record.player1Action]} (-${record.player1Damage} HP)  vs  ` +
+        `${replay.player2Name}: ${DUEL_ACTION_NAMES[record.player2Action]} (-${record.player2Damage} HP)`;
+}
+
+export class DuelReplayManager {
+    static getReplays(): DuelReplay[] {
+        try {
+            const json = localStorage.getItem(REPLAYS_KEY);
+            if (json) return JSON.parse(json);
+        } catch (e) {
+            console.error('Failed to load duel replays:', e);
+        }
+        return [];
+    }
+
+    // Newest first, oldest dropped past the cap
+    static saveReplay(replay: DuelReplay) {
+        const replays = this.getReplays().filter(r => r.id !== replay.id);
+        replays.unshift(replay);
+        localStorage.setItem(REPLAYS_KEY, JSON.stringify(replays.slice(0, MAX_STORED_REPLAYS)));
+    }
+
+    static deleteReplay(id: string) {
+        const replays = this.getReplays().filter(r => r.id !== id);
+        localStorage.setItem(REPLAYS_KEY, JSON.stringify(replays));
+    }
+
+    // Export replay as .json file content
+    static exportReplay(replay: DuelReplay): string {
+        return JSON.stringify(replay, null, 2);
+    }
+
+    // Import replay from .json file content
+    static importReplay(content: string): DuelReplay | null {
+        try {
+            const replay = JSON.parse(content) as DuelReplay;
+            // Validate required fields
+            if (!replay.id || !replay.player1Name || !replay.player2Name ||
+                !replay.player1Stats || !replay.player2Stats || !Array.isArray(replay.history)) {
+                throw new Error('Invalid replay format');
+            }
+            if (replay.history.some(t => typeof t.turn !== 'number' || typeof t.player1Hp !== 'number' ||
+                typeof t.player2Hp !== 'number' || !DUEL_ACTION_NAMES[t.player1Action] || !DUEL_ACTION_NAMES[t.player2Action])) {
+                throw new Error('Invalid replay turn history');
+            }
+            return replay;
+        } catch (e) {
+            console.error('Failed to import replay:', e);
+            return null;
+        }
+    }
+}
@@ -3,6 +3,7 @@
 // ============================================
 
 import type { SpriteData } from './Sprite';
+import { random } from './utils';
 
 // ============================================
 // TIER 1 ENEMIES (Floors 1-2)
@@ -141,7 +142,10 @@ export const SPIDER_SPRITE: SpriteData = {
         { id: 'web', name: 'Web Shot', description: 'Slow enemy', staminaCost: 20, manaCost: 5, baseDamage: 0.3, speed: 7, key: '2', special: 'slow' },
         { id: 'pounce', name: 'Pounce', description: 'Leaping attack', staminaCost: 25, manaCost: 0, baseDamage: 1.5, speed: 8, key: '3' },
     ],
-    behavior: { pattern: 'tricky', aggroRange: 6 },
+    behavior: {
+        pattern: 'tricky', aggroRange: 6,
+        ranged: { name: 'Venom Spit', range: 4, damage: 0.3, windup: 1, cooldown: 5, effect: 'poison', color: '#6f3' }
+    },
     minFloor: 2
 };
 
@@ -172,6 +176,35 @@ export const ORC_SPRITE: SpriteData = {
     minFloor: 3
 };
 
+export const SKELETON_ARCHER_SPRITE: SpriteData = {
+    id: 'skeleton_archer',
+    name: 'Skeleton Archer',
+    type: 'enemy',
+    metadata: { description: 'Still a fine shot without eyes', version: '1.0' },
+    pixels: [
+        ['', '', '#eee', '#eee', '#eee', '#eee', '', '#a73'],
+        ['', '#eee', '#000', '#ddd', '#ddd', '#000', '#a73', '#ccc'],
+        ['', '', '#ddd', '#ddd', '#ddd', '#ddd', '#a73', '#ccc'],
+        ['#ddd', '#ddd', '#ddd', '#ccc', '#ccc', '#ddd', '#a73', '#ccc'],
+        ['', '', '#ccc', '#bbb', '#bbb', '#ccc', '#a73', '#ccc'],
+        ['', '', '#bbb', '', '', '#bbb', '', '#a73'],
+        ['', '', '#aaa', '', '', '#aaa', '', ''],
+        ['', '', '#999', '', '', '#999', '', ''],
+    ],
+    color: '#ccb',
+    char: 'a',
+    stats: { baseHp: 18, baseMana: 0, baseAttack: 6, baseDefense: 1, critChance: 12, dodgeChance: 8, speed: 5 },
+    moveset: [
+        { id: 'shot', name: 'Point Blank', description: 'Arrow at close range', staminaCost: 12, manaCost: 0, baseDamage: 1.0, speed: 6, key: '1' },
+        { id: 'bowbash', name: 'Bow Bash', description: 'Clumsy swing', staminaCost: 10, manaCost: 0, baseDamage: 0.7, speed: 4, key: '2' },
+    ],
+    behavior: {
+        pattern: 'defensive', aggroRange: 8, keepDistance: 2,
+        ranged: { name: 'Bone Arrow', range: 7, damage: 0.9, windup: 1, cooldown: 3, color: '#eed' }
+    },
+    minFloor: 3
+};
+
 // ============================================
 // TIER 3 ENEMIES (Floors 4-6)
 // ============================================
@@ -230,6 +263,36 @@ export const WRAITH_SPRITE: SpriteData = {
     minFloor: 4
 };
 
+export const CULTIST_SPRITE: SpriteData = {
+    id: 'cultist',
+    name: 'Dark Cultist',
+    type: 'enemy',
+    metadata: { description: 'Chants hexes from the back of the room', version: '1.0' },
+    pixels: [
+        ['', '', '#402', '#402', '#402', '#402', '', ''],
+        ['', '#402', '#603', '#603', '#603', '#603', '#402', ''],
+        ['', '#603', '#000', '#f0f', '#f0f', '#000', '#603', ''],
+        ['#c8f', '#603', '#603', '#603', '#603', '#603', '#603', ''],
+        ['#a0f', '#402', '#603', '#804', '#804', '#603', '#402', ''],
+        ['', '#402', '#603', '#804', '#804', '#603', '#402', ''],
+        ['', '#402', '#603', '#603', '#603', '#603', '#402', ''],
+        ['', '#301', '#301', '', '', '#301', '#301', ''],
+    ],
+    color: '#804',
+    char: 'c',
+    stats: { baseHp: 24, baseMana: 40, baseAttack: 7, baseDefense: 1, critChance: 8, dodgeChance: 8, speed: 4 },
+    moveset: [
+        { id: 'dagger', name: 'Ritual Dagger', description: 'Desperate stab', staminaCost: 12, manaCost: 0, baseDamage: 0.9, speed: 5, key: '1' },
+        { id: 'hex', name: 'Hex', description: 'Sap strength', staminaCost: 10, manaCost: 10, baseDamage: 0.6, speed: 6, key: '2', special: 'weaken' },
+        { id: 'flames', name: 'Dark Flame', description: 'Burning curse', staminaCost: 15, manaCost: 15, baseDamage: 1.3, speed: 4, key: '3', special: 'burn' },
+    ],
+    behavior: {
+        pattern: 'balanced', aggroRange: 7, keepDistance: 3,
+        ranged: { name: 'Hex Bolt', range: 6, damage: 0.5, windup: 2, cooldown: 4, effect: 'weaken', color: '#c4f' }
+    },
+    minFloor: 4
+};
+
 // ============================================
 // BOSS ENEMIES
 // ============================================
@@ -332,8 +395,10 @@ export const ALL_ENEMY_SPRITES: SpriteData[] = [
     SKELETON_SPRITE,
     SPIDER_SPRITE,
     ORC_SPRITE,
+    SKELETON_ARCHER_SPRITE,
     DEMON_SPRITE,
     WRAITH_SPRITE,
+    CULTIST_SPRITE,
     OGRE_BOSS_SPRITE,
     NECROMANCER_BOSS_SPRITE,
     DRAGON_BOSS_SPRITE,
@@ -358,12 +423,17 @@ export function getEnemySpriteForFloor(floor: number, isBoss: boolean = false):
         }
     }
 
-    return weighted[Math.floor(Math.random() * weighted.length)];
+    return weighted[Math.floor(random() * weighted.length)];
+}
+
+// Look up a sprite by id (e.g. for boss summons)
+export function getEnemySpriteById(id: string): SpriteData | null {
+    return ALL_ENEMY_SPRITES.find(s => s.id === id) ?? null;
 }
 
 // Get boss sprite for floor
 export function getBossSpriteForFloor(floor: number): SpriteData {
     const bosses = ALL_ENEMY_SPRITES.filter(s => s.isBoss && (s.minFloor || 1) <= floor);
     if (bosses.length === 0) return OGRE_BOSS_SPRITE;
-    return bosses[Math.floor(Math.random() * bosses.length)];
+    return bosses[Math.floor(random() * bosses.length)];
 }
@@ -1,11 +1,12 @@
 
-import { ItemType, clamp, TrapType, getRandomInt } from './utils';
+import { ItemType, clamp, TrapType, getRandomInt, random, shuffle } from './utils';
 import type { Point } from './utils';
 import { EquipSlot, MaterialType } from './Equipment';
 import type { Equipment } from './Equipment';
 import { getEnemySpriteForFloor, getBossSpriteForFloor } from './EnemySprites';
-import type { SpriteData } from './Sprite';
+import type { SpriteData, SpriteRangedAttack } from './Sprite';
 import type { MulticlassData } from './SkillTree';
+import type { ShrineEffect, ChallengeConfig } from './RoomTypes';
 import { SKILL_TREES, calculateSkillBonuses, getUnlockedAbilities, getActivePassives } from './SkillTree';
 
 export interface Stats {
@@ -35,11 +36,29 @@ export interface Stats {
 
 export interface Buff {
     name: string;
-    duration: number; // turns
+    duration: number; // turns (Infinity = permanent)
+    untilNextFloor?: boolean; // Removed when a new floor is generated
     apply: (stats: Stats) => void;
     remove: (stats: Stats) => void;
 }
 
+// Timed debuffs by name, so saved games can rebuild them (callbacks don't survive JSON)
+const STATUS_BUFFS: Record<string, () => Buff> = {
+    'Poisoned': () => ({ name: 'Poisoned', duration: 5, apply: () => { }, remove: () => { } }),
+    'Burning': () => ({ name: 'Burning', duration: 3, apply: () => { }, remove: () => { } }),
+    'Slowed': () => ({ name: 'Slowed', duration: 3, apply: () => { }, remove: () => { } }),
+    'Weakened': () => ({
+        name: 'Weakened', duration: 5,
+        apply: s => { s.attack -= 3; },
+        remove: s => { s.attack += 3; }
+    })
+};
+
+export function createStatusBuff(name: string): Buff | null {
+    const factory = STATUS_BUFFS[name];
+    return factory ? factory() : null;
+}
+
 export interface Skill {
     id: string;
     name: string;
@@ -141,6 +160,15 @@ export class Entity {
             if (s.currentCooldown > 0) s.currentCooldown--;
         });
     }
+
+    clearFloorBuffs() {
+        for (let i = this.buffs.length - 1; i >= 0; i--) {
+            if (this.buffs[i].untilNextFloor) {
+                this.buffs[i].remove(this.stats);
+                this.buffs.splice(i, 1);
+            }
+        }
+    }
 }
 
 export class Player extends Entity {
@@ -422,6 +450,11 @@ export class Player extends Entity {
             }
         }
 
+        // Re-apply active buffs on top of gear and skills
+        for (const buff of this.buffs) {
+            buff.apply(this.stats);
+        }
+
         // Clamp HP if it exceeds new max
         if (this.stats.hp > this.stats.maxHp) {
             this.stats.hp = this.stats.maxHp;
@@ -479,6 +512,15 @@ interface EnemyTemplate {
     pattern: 'aggressive' | 'defensive' | 'tricky' | 'balanced';
 }
 
+// How much an enemy knows about the player on the map
+export const AlertState = {
+    Unaware: 'unaware',       // Wandering - can be ambushed
+    Suspicious: 'suspicious', // Caught a glimpse, stops to look
+    Hunting: 'hunting'        // Chasing the player or their last known position
+} as const;
+
+export type AlertState = typeof AlertState[keyof typeof AlertState];
+
 // Fallback templates (used when sprite system fails)
 const ENEMY_TEMPLATES: EnemyTemplate[] = [
     { type: EnemyType.Rat, name: 'Rat', char: 'r', color: '#864', baseHp: 8, baseAttack: 2, baseDefense: 0, baseXp: 5, minFloor: 1, isBoss: false, pattern: 'aggressive' },
@@ -504,17 +546,30 @@ export class Enemy extends Entity {
     isBoss: boolean;
     isGolden: boolean = false;
     aggroRange: number = 8;
+    fleeThreshold: number = 0; // HP fraction at or below which it runs from the player
+    home: Point; // Spawn tile - defensive enemies guard the room around it
+    ranged: SpriteRangedAttack | null = null;
+    keepDistance: number = 0;
+    rangedCooldown: number = 0;
+    aimedAt: (Point & { turns: number; line: Point[] }) | null = null; // Telegraphed target and line of fire of a ranged attack
     sprite: SpriteData | null = null;
+    challenge: ChallengeConfig | null = null; // Set for challenge room guardians
+
+    // Stealth - enemies only see what is in front of them
+    facing: Point = { x: 0, y: 1 };
+    alertState: AlertState = AlertState.Unaware;
+    alertTimer: number = 0; // Turns until it calms down a level
+    lastKnownPlayer: Point | null = null;
 
-    constructor(x: number, y: number, difficulty: number, forceBoss: boolean = false) {
+    constructor(x: number, y: number, difficulty: number, forceBoss: boolean = false, spriteOverride: SpriteData | null = null) {
         // Try to use new sprite system first
         const bossChance = difficulty >= 5 ? 0.05 : 0;
-        const isBoss = forceBoss || Math.random() < bossChance;
+        const isBoss = forceBoss || (!spriteOverride && random() < bossChance);
 
-        // Get sprite from new system
-        const sprite = isBoss
+        // Get sprite from new system - summons ask for a specific one
+        const sprite = spriteOverride ?? (isBoss
             ? getBossSpriteForFloor(difficulty)
-            : getEnemySpriteForFloor(difficulty, false);
+            : getEnemySpriteForFloor(difficulty, false));
 
         if (sprite) {
             // Use sprite data
@@ -525,6 +580,9 @@ export class Enemy extends Entity {
             this.pattern = sprite.behavior?.pattern || 'aggressive';
             this.isBoss = sprite.isBoss || false;
             this.aggroRange = sprite.behavior?.aggroRange || 8;
+            this.fleeThreshold = sprite.behavior?.fleeThreshold ?? (this.pattern === 'fleeing' ? 1 : 0);
+            this.ranged = sprite.behavior?.ranged ?? null;
+            this.keepDistance = sprite.behavior?.keepDistance ?? 0;
 
             // Use sprite stats scaled with difficulty
             const minFloor = sprite.minFloor || 1;
@@ -588,6 +646,20 @@ export class Enemy extends Entity {
                 this.name = 'Boss ' + this.name;
             }
         }
+
+        this.home = { x, y };
+    }
+
+    // Turn to look at a tile
+    faceToward(x: number, y: number) {
+        const dx = Math.sign(x - this.x);
+        const dy = Math.sign(y - this.y);
+        if (dx !== 0 || dy !== 0) this.facing = { x: dx, y: dy };
+    }
+
+    // True when the tile is in the half of the world the enemy is looking at
+    isFacing(x: number, y: number): boolean {
+        return (x - this.x) * this.facing.x + (y - this.y) * this.facing.y > 0;
     }
 
     // Make this enemy a golden variant (5x rewards, flees from player)
@@ -633,7 +705,7 @@ export class DungeonCore extends Entity {
         const types: PuzzleType[] = ['sequence', 'match', 'memory', 'math', 'logic', 'cipher', 'slider', 'wire'];
 
         // Generate 4 random puzzle types (no repeats if possible)
-        const shuffled = [...types].sort(() => Math.random() - 0.5);
+        const shuffled = shuffle(types);
         for (let i = 0; i < this.puzzlesRequired; i++) {
             this.currentPuzzleTypes.push(shuffled[i % shuffled.length]);
         }
@@ -671,7 +743,7 @@ export class DungeonCore extends Entity {
             }
             // Shuffle
             for (let i = pairs.length - 1; i > 0; i--) {
-                const j = Math.floor(Math.random() * (i + 1));
+                const j = Math.floor(random() * (i + 1));
                 [pairs[i], pairs[j]] = [pairs[j], pairs[i]];
             }
             this.puzzleData = {
@@ -690,7 +762,7 @@ export class DungeonCore extends Entity {
             for (let y = 0; y < gridSize; y++) {
                 pattern.push([]);
                 for (let x = 0; x < gridSize; x++) {
-                    const lit = Math.random() < 0.35;
+                    const lit = random() < 0.35;
                     pattern[y].push(lit);
                     if (lit) litCount++;
                 }
@@ -740,13 +812,10 @@ export class DungeonCore extends Entity {
                     options.push(option);
                 }
             }
-            // Shuffle options
-            options.sort(() => Math.random() - 0.5);
-
             this.puzzleData = {
                 expression: `${a} ${op} ${b} = ?`,
                 answer,
-                options,
+                options: shuffle(options),
                 selectedOption: -1,
                 timeLimit: 600, // 10 seconds
                 timer: 600
@@ -853,7 +922,7 @@ export class DungeonCore extends Entity {
         } else if (this.puzzleType === 'wire') {
             // Wire connection puzzle: match colors on left to right
             const colors = ['#f00', '#0f0', '#00f', '#ff0'];
-            const shuffledRight = [...colors].sort(() => Math.random() - 0.5);
+            const shuffledRight = shuffle(colors);
 
             this.puzzleData = {
                 leftColors: colors,
@@ -983,6 +1052,32 @@ export class Trap {
     }
 }
 
+// Shrine altar - offers its effect once
+export class Shrine {
+    x: number;
+    y: number;
+    effect: ShrineEffect;
+    used: boolean = false;
+
+    constructor(x: number, y: number, effect: ShrineEffect) {
+        this.x = x;
+        this.y = y;
+        this.effect = effect;
+    }
+}
+
+// Rest room campfire
+export class Campfire {
+    x: number;
+    y: number;
+    used: boolean = false;
+
+    constructor(x: number, y: number) {
+        this.x = x;
+        this.y = y;
+    }
+}
+
 // Puzzle room pressure plate
 export class PressurePlate {
     x: number;
@@ -1,4 +1,4 @@
-import { getRandomInt } from './utils';
+import { getRandomInt, random } from './utils';
 
 // ============================================
 // EQUIPMENT & RUNE SYSTEM
@@ -150,7 +150,7 @@ export function generateEquipment(slot: EquipSlot, floor: number, forceRarity?:
     if (forceRarity !== undefined) {
         rarity = forceRarity;
     } else {
-        const roll = Math.random();
+        const roll = random();
         if (roll < 0.01 + floor * 0.005) rarity = Rarity.Legendary;
         else if (roll < 0.05 + floor * 0.01) rarity = Rarity.Epic;
         else if (roll < 0.15 + floor * 0.02) rarity = Rarity.Rare;
@@ -213,6 +213,19 @@ export function generateRandomEquipment(floor: number): Equipment {
     return generateEquipment(slots[getRandomInt(0, slots.length)], floor);
 }
 
+// Base gold value by rarity - merchants buy gear back at this price
+const RARITY_VALUES: Record<Rarity, number> = {
+    [Rarity.Common]: 15,
+    [Rarity.Uncommon]: 40,
+    [Rarity.Rare]: 100,
+    [Rarity.Epic]: 250,
+    [Rarity.Legendary]: 600
+};
+
+export function getEquipmentValue(equipment: Equipment): number {
+    return RARITY_VALUES[equipment.rarity] + (equipment.baseAttack + equipment.baseDefense) * 2 + equipment.runes.length * 10;
+}
+
 // Material types for crafting
 export const MaterialType = {
     IronOre: 'iron_ore',
@@ -311,6 +324,7 @@ export class Chest {
     x: number;
     y: number;
     opened: boolean = false;
+    locked: boolean = false; // Sealed until the room's puzzle is solved
     contents: { equipment?: Equipment; materials: { type: MaterialType; count: number }[]; gold: number };
 
     constructor(x: number, y: number, floor: number) {
@@ -318,7 +332,7 @@ export class Chest {
         this.y = y;
 
         // Generate contents
-        const hasEquipment = Math.random() < 0.4;
+        const hasEquipment = random() < 0.4;
         const materialCount = getRandomInt(1, 4);
         const gold = getRandomInt(10, 30) * floor;
 
@@ -326,7 +340,7 @@ export class Chest {
         for (let i = 0; i < materialCount; i++) {
             // Weight toward common materials
             let matType: MaterialType;
-            const roll = Math.random();
+            const roll = random();
             if (roll < 0.5) {
                 matType = [MaterialType.IronOre, MaterialType.Leather, MaterialType.Cloth][getRandomInt(0, 3)];
             } else if (roll < 0.8) {
@@ -1,19 +1,24 @@
-import { GameMap } from './Map';
-import { Player, Enemy, Item, DungeonCore, Entity, Trap } from './Entity';
-import { Renderer } from './Renderer';
-import { InputHandler } from './Input';
-import { MAP_WIDTH, MAP_HEIGHT, ItemType, VIEWPORT_WIDTH, VIEWPORT_HEIGHT, TrapType, getRandomInt } from './utils';
+import { GameMap, type LightSource } from './Map';
+import { Player, Enemy, AlertState, Item, DungeonCore, Entity, Trap, PressurePlate, Shrine, Campfire, createStatusBuff } from './Entity';
+import { Renderer, type PointerTarget, type TouchLayout } from './Renderer';
+import { InputHandler, GamepadButton, GAMEPAD_LAYOUTS, type GamepadLayout } from './Input';
+import { MAP_WIDTH, MAP_HEIGHT, ItemType, VIEWPORT_WIDTH, VIEWPORT_HEIGHT, TrapType, TileType, getRandomInt, random, setSeed, getFloorSeed, generateSeed, parseSeed, type Point } from './utils';
 import { CombatSystem, CombatPhase, MultiCombatSystem, MultiCombatPhase } from './Combat';
-import { aStar, clearPathCache } from './Pathfinding';
-import { Chest, generateEquipment, CRAFTING_RECIPES, MaterialType, MATERIALS } from './Equipment';
-import { SpriteManager, type SpriteData } from './Sprite';
+import { aStar, clearPathCache, findNearest } from './Pathfinding';
+import { Chest, generateEquipment, getEquipmentValue, CRAFTING_RECIPES, MaterialType, MATERIALS, EquipSlot, Rarity } from './Equipment';
+import { SpriteManager, type SpriteData, type SpriteRangedAttack } from './Sprite';
 import { AssetManager } from './GameAssets';
-import { generateSwarmConfig, generateBossConfig, generateChallengeConfig, getRandomShrineEffect, generateRoomPuzzle } from './RoomTypes';
+import { ROOM_TYPES, generateSwarmConfig, generateBossConfig, generateChallengeConfig, getRandomShrineEffect, generateRoomPuzzle, updateRoomPuzzle, stepOnPlate, enterSymbol, restartSymbolSequence, rotateMirror, submitLockGuess, PUZZLE_SYMBOLS, rollShrineBuff, generateMerchantConfig, getChallengeRewardName } from './RoomTypes';
+import type { RoomPuzzle, MerchantConfig, ChallengeConfig } from './RoomTypes';
 import { SKILL_TREES, canMulticlass, getAvailableMulticlasses } from './SkillTree';
 import type { SkillTree } from './SkillTree';
-import { multiplayer, DuelPhase, DuelAction, type DuelState, type DuelStats, type GameRoom } from './Multiplayer';
-import { getBiomeName } from './Biomes';
+import { DuelRanking, type DuelRating } from './DuelRanking';
+import { DuelReplayManager, createDuelReplay, getReplayFrame, type DuelReplay } from './DuelReplay';
+import { multiplayer, DuelPhase, DuelAction, DuelAIDifficulty, DEFAULT_SERVER_URL, DUEL_SERIES_LENGTHS, MAX_PLAYER_NAME_LENGTH, type DuelState, type DuelStats, type GameRoom, type CoopPlayerState, type CoopEnemyState, type CoopEvent } from './Multiplayer';
+import { getBiomeName, getBiomeForFloor, getSightRadius } from './Biomes';
 import { type NPC, type SkillReallocation, generateFloorNPCs, getNPCDialogue, getSoulTraderOptions, applySkillReallocation } from './NPC';
+import { SaveSystem, MAX_SAVE_SLOTS, serializeWorld, restoreWorld, restorePlayer } from './SaveSystem';
+import { KeyBindings, BINDING_ACTIONS, DEFAULT_KEY_BINDINGS, KEYS_PER_ACTION, isBindableKey, type BindingAction } from './KeyBindings';
 
 export const GameState = {
     Map: 0,
@@ -31,11 +36,30 @@ export const GameState = {
     DuelSetup: 12,
     Duel: 13,
     Trading: 14,
-    SoulTrading: 15
+    SoulTrading: 15,
+    RoomPuzzle: 16,
+    ShrinePrompt: 17,
+    Shop: 18,
+    SaveSlots: 19,
+    DuelReplay: 20,
+    KeyBindings: 21,
+    TravelMenu: 22
 } as const;
 
 export type GameState = typeof GameState[keyof typeof GameState];
 
+const TRAVEL_STEP_FRAMES = 6; // Click-to-move speed, ~10 tiles a second
+const TRAVEL_MAX_DISTANCE = MAP_WIDTH + MAP_HEIGHT; // Player paths may cross the whole floor
+const SUSPICIOUS_TURNS = 3; // How long a glimpse keeps an enemy looking
+const HUNT_MEMORY_TURNS = 8; // How long a hunting enemy searches after losing sight
+
+// A known place the travel menu can walk to
+export interface TravelDestination {
+    name: string;
+    x: number;
+    y: number;
+}
+
 // Notification with timestamp for timed display
 export interface Notification {
     message: string;
@@ -50,6 +74,10 @@ export class Game {
     items!: Item[];
     chests!: Chest[];
     traps!: Trap[];
+    pressurePlates!: PressurePlate[];
+    shrines!: Shrine[];
+    merchants!: MerchantConfig[];
+    campfires!: Campfire[];
     core: DungeonCore | null = null;
     renderer: Renderer;
     inputHandler: InputHandler;
@@ -57,6 +85,7 @@ export class Game {
     multiCombatSystem: MultiCombatSystem | null = null;
     logs: string[] = [];
     floor: number = 1;
+    seed: number = generateSeed();
     turnCounter: number = 0;
     state: GameState = GameState.Map;
 
@@ -65,11 +94,26 @@ export class Game {
     selectedCraftingIndex: number = 0;
     menuCursor: number = 0;
 
+    // Mouse / touch: click-to-move steps left, and whether to draw on-screen controls
+    travelPath: Point[] = [];
+    travelTimer: number = 0;
+    autoTravel: 'explore' | 'travel' | null = null; // Null = plain click-to-move, no interruptions
+    travelDestinations: TravelDestination[] = [];
+    travelMenuIndex: number = 0;
+    touchControls: boolean = navigator.maxTouchPoints > 0;
+
+    // Sneaking halves enemy sight range, but every step takes two turns
+    sneaking: boolean = false;
+
     // Class selection
     availableClasses: SpriteData[] = [];
     selectedClassIndex: number = 0;
     playerSprite: SpriteData | null = null;
 
+    // Seed entry on the class select screen (empty = random seed)
+    isEnteringSeed: boolean = false;
+    seedInput: string = '';
+
     // Timed notifications
     notifications: Notification[] = [];
     notificationsEnabled: boolean = true;
@@ -83,6 +127,32 @@ export class Game {
     multiclassOptions: string[] = [];
     selectedMulticlassIndex: number = 0;
 
+    // Room puzzle overlay (symbol sequence, light redirect, number lock)
+    activeRoomPuzzle: RoomPuzzle | null = null;
+    activePuzzleRoomIndex: number = -1;
+    puzzleCursor = { x: 0, y: 0 };
+    lockInput: number[] = [];
+
+    // Shrine the player is standing on while the prompt is open
+    activeShrine: Shrine | null = null;
+
+    // Merchant room shop
+    activeMerchant: MerchantConfig | null = null;
+    shopMode: 'buy' | 'sell' = 'buy';
+    shopSelectedIndex: number = 0;
+
+    // Save slots (1-based; autosave writes to the active slot)
+    activeSaveSlot: number = 1;
+    saveSlotCursor: number = 0;
+    isNamingSlot: boolean = false;
+    slotNameInput: string = '';
+    saveImportErrors: string[] = [];
+
+    // Key binding screen
+    bindingCursor: number = 0;
+    bindingSlot: number = 0;
+    isCapturingKey: boolean = false;
+
     // Current room tracking
     currentRoomIndex: number = 0;
     lastRoomIndex: number = -1;
@@ -91,11 +161,33 @@ export class Game {
     multiplayerMenuOption: number = 0;
     isEnteringRoomCode: boolean = false;
     roomCodeInput: string = '';
+    isEditingPlayerName: boolean = false;
+    playerNameInput: string = '';
+    duelAIDifficulty: DuelAIDifficulty = DuelAIDifficulty.Normal;
     duelStats: DuelStats | null = null;
     duelSelectedStat: number = 0;
     duelState: DuelState | null = null;
+    duelActionSubmitted: boolean = false; // Online: waiting on the opponent's action
+    lastDuelReplay: DuelReplay | null = null;
+    replaySelectedIndex: number = 0;
+    activeReplay: DuelReplay | null = null; // Null = browsing the replay list
+    replayTurn: number = 0;
+    replayImportError: string | null = null;
     multiplayerRoom: GameRoom | null = null;
 
+    // Co-op: 'local' = second player on the arrow keys, 'online' = peers over the relay server
+    coopMode: 'local' | 'online' | null = null;
+    coopPartner: Player | null = null;
+    coopPeers: CoopPlayerState[] = [];
+    // Online co-op keeps the floor's enemies in step: the host moves them, fights are claimed
+    coopEnemyIds: Map<Enemy, number> = new Map(); // Spawn order - the same on every client
+    coopClaims: Map<number, string> = new Map(); // Enemy id -> peer fighting it
+    coopFighting: number[] = []; // Enemy ids we've told the room we're fighting
+    pendingCoopFloor: number | null = null; // The party went down while we were busy
+
+    // Campfire rest - once per floor, costs reaper time
+    restedThisFloor: boolean = false;
+
     // Reaper mechanic - spawns if player takes too long
     floorMoveCount: number = 0;
     reaperSpawned: boolean = false;
@@ -111,14 +203,23 @@ export class Game {
     constructor() {
         this.renderer = new Renderer('gameCanvas', VIEWPORT_WIDTH, VIEWPORT_HEIGHT);
         this.inputHandler = new InputHandler(this.handleInput.bind(this));
+        this.inputHandler.onGamepadConnected = (name) => this.notify(`Controller connected: ${name.substring(0, 30)}`);
+        this.inputHandler.attachPointer(this.renderer.canvas);
+        this.inputHandler.onPointerDown = (x, y, isTouch) => {
+            if (isTouch) this.touchControls = true;
+            this.handlePointer(x, y);
+        };
         // combatSystem initialized when combat starts
 
         // Initialize asset manager for game visuals
         AssetManager.init();
+        this.setupMultiplayerCallbacks();
 
         // Load available player classes
         this.loadPlayerClasses();
 
+        SaveSystem.migrateLegacySave();
+        this.activeSaveSlot = SaveSystem.getLastSlot();
         if (this.loadGame()) {
             this.log("Welcome back to Deluge-2!");
         } else {
@@ -163,8 +264,9 @@ export class Game {
         this.notifications = this.notifications.filter(n => now - n.timestamp < n.duration);
     }
 
-    startNewGame(selectedClass?: SpriteData) {
+    startNewGame(selectedClass?: SpriteData, seed?: number) {
         this.floor = 1;
+        this.seed = seed ?? generateSeed();
         this.player = new Player(0, 0); // Position will be set in generateLevel
 
         // Apply class stats if selected
@@ -182,12 +284,16 @@ export class Game {
             this.player.char = selectedClass.char;
             this.player.color = selectedClass.color;
             this.player.name = selectedClass.name;
+            this.player.sprite = selectedClass; // Class moveset for combat
         }
 
         this.generateLevel();
     }
 
     generateLevel() {
+        // Seed per floor so the same run seed always rebuilds the same floor
+        setSeed(getFloorSeed(this.seed, this.floor));
+
         this.map = new GameMap(MAP_WIDTH, MAP_HEIGHT);
         this.map.floor = this.floor;
         this.map.generate();
@@ -205,7 +311,9 @@ export class Game {
         const startCenter = startRoom.center();
         this.player.x = startCenter.x;
         this.player.y = startCenter.y;
-        this.map.computeFOV(this.player.x, this.player.y, 8);
+        if (this.coopPartner) {
+            this.placeCoopPartner(this.coopPartner);
+        }
         this.currentRoomIndex = 0;
         this.lastRoomIndex = -1;
 
@@ -213,6 +321,11 @@ export class Game {
         this.items = [];
         this.chests = [];
         this.traps = [];
+        this.pressurePlates = [];
+        this.shrines = [];
+        this.merchants = [];
+        this.campfires = [];
+        this.restedThisFloor = false;
 
         // Place enemies, items, chests, traps based on room type
         for (let i = 1; i < this.map.rooms.length; i++) {
@@ -257,10 +370,18 @@ export class Game {
 
                 case 'puzzle':
                     // Puzzle room - store puzzle data
-                    const puzzle = generateRoomPuzzle(this.floor);
+                    let puzzle = generateRoomPuzzle(this.floor);
+                    if (puzzle.type === 'pressure_plates' && !this.placePressurePlates(puzzle, center.x, center.y)) {
+                        puzzle = generateRoomPuzzle(this.floor, false);
+                    }
+                    if (puzzle.type !== 'pressure_plates') {
+                        this.placePuzzlePedestal(center.x, center.y);
+                    }
                     roomData.specialData = puzzle;
-                    // Small reward visible
-                    this.chests.push(new Chest(center.x, center.y, this.floor + 1)); // Better loot
+                    // Small reward visible, sealed until solved
+                    const puzzleChest = new Chest(center.x, center.y, this.floor + 1); // Better loot
+                    puzzleChest.locked = true;
+                    this.chests.push(puzzleChest);
                     break;
 
                 case 'boss':
@@ -297,46 +418,44 @@ export class Game {
                     // Random buff/debuff on interaction - no enemies
                     const shrineEffect = getRandomShrineEffect();
                     roomData.specialData = shrineEffect;
-                    // Place a visual marker (handled by renderer)
+                    this.shrines.push(new Shrine(center.x, center.y, shrineEffect));
                     break;
 
                 case 'merchant':
-                    // Shop room - no enemies, items for sale
-                    roomData.specialData = {
-                        items: [
-                            { name: 'Health Potion', cost: 50, type: 'potion', value: 30 },
-                            { name: 'Mana Potion', cost: 50, type: 'potion', value: 30 },
-                            { name: 'Random Equipment', cost: 100 + this.floor * 20, type: 'equipment' }
-                        ]
-                    };
+                    // Shop room - no enemies, merchant stall in the center
+                    const merchant = generateMerchantConfig(center.x, center.y, this.floor, getBiomeForFloor(this.floor).shopPriceMod);
+                    roomData.specialData = merchant;
+                    this.merchants.push(merchant);
                     break;
 
                 case 'challenge':
                     // Challenge room - tough enemy with time/conditions
                     const challengeConfig = generateChallengeConfig(this.floor);
                     const challengeEnemy = new Enemy(center.x, center.y, this.floor + 1);
+                    challengeEnemy.challenge = challengeConfig;
                     this.enemies.push(challengeEnemy);
                     roomData.specialData = challengeConfig;
                     break;
 
                 case 'rest':
-                    // Safe room - heal partially, no enemies
-                    this.items.push(new Item(center.x, center.y, 'Rest Area', '#4f4', ItemType.Potion, 0));
-                    roomData.specialData = { canRest: true };
+                    // Safe room - campfire to rest at, no enemies
+                    const campfire = new Campfire(center.x, center.y);
+                    this.campfires.push(campfire);
+                    roomData.specialData = campfire;
                     break;
 
                 case 'normal':
                 default:
                     // Standard room spawning logic
                     const enemyChance = 0.4 + (this.floor * 0.05);
-                    if (Math.random() < enemyChance) {
-                        const numEnemies = this.floor >= 3 && Math.random() < 0.3 ? 2 : 1;
+                    if (random() < enemyChance) {
+                        const numEnemies = this.floor >= 3 && random() < 0.3 ? 2 : 1;
                         for (let e = 0; e < numEnemies; e++) {
                             const ex = center.x + getRandomInt(-2, 3);
                             const ey = center.y + getRandomInt(-2, 3);
                             if (!this.map.isBlocked(ex, ey)) {
                                 const enemy = new Enemy(ex, ey, this.floor);
-                                if (Math.random() < 0.05 + this.floor * 0.01) {
+                                if (random() < 0.05 + this.floor * 0.01) {
                                     enemy.makeGolden();
                                 }
                                 this.enemies.push(enemy);
@@ -344,11 +463,11 @@ export class Game {
                         }
                     }
 
-                    if (Math.random() < 0.15) {
+                    if (random() < 0.15) {
                         this.chests.push(new Chest(center.x + 1, center.y, this.floor));
                     }
 
-                    const typeRoll = Math.random();
+                    const typeRoll = random();
                     if (typeRoll < 0.3) {
                         this.items.push(new Item(center.x, center.y, 'Health Potion', '#0f0', ItemType.Potion, 20));
                     } else if (typeRoll < 0.45) {
@@ -362,7 +481,7 @@ export class Game {
                         this.items.push(new Item(center.x, center.y, 'Gold Coin', '#ffd700', ItemType.Coin, 10 + this.floor * 5));
                     }
 
-                    if (Math.random() < 0.1 + (this.floor * 0.02)) {
+                    if (random() < 0.1 + (this.floor * 0.02)) {
                         const trapTypes2: TrapType[] = ['spike', 'fire', 'poison', 'teleport', 'alarm'];
                         const trapType2 = trapTypes2[getRandomInt(0, trapTypes2.length)];
                         const tx = center.x + getRandomInt(-3, 4);
@@ -378,27 +497,84 @@ export class Game {
         // Generate NPCs for this floor (traders, soul traders, etc.)
         this.npcs = generateFloorNPCs(this.floor, this.map.rooms);
 
+        // Torches and shrines are placed by now, so the first look already sees their light
+        this.refreshFOV();
+
+        this.coopEnemyIds = new Map(this.enemies.map((enemy, i) => [enemy, i]));
+        this.coopClaims.clear();
+        this.coopFighting = [];
+
         this.saveGame();
+        this.syncCoopState();
+    }
+
+    // Lay out pressure plates around the room center and link them to the puzzle order
+    // Returns false, placing nothing, when too few plates fit for a sequence
+    placePressurePlates(puzzle: RoomPuzzle, cx: number, cy: number): boolean {
+        const offsets = [
+            { x: -2, y: -2 }, { x: 0, y: -2 }, { x: 2, y: -2 },
+            { x: -2, y: 2 }, { x: 0, y: 2 }, { x: 2, y: 2 },
+            { x: -2, y: 0 }, { x: 2, y: 0 }
+        ];
+        const plates: PressurePlate[] = [];
+        for (const offset of offsets) {
+            if (plates.length >= puzzle.data.sequence.length) break;
+            const px = cx + offset.x;
+            const py = cy + offset.y;
+            if (this.map.isBlocked(px, py)) continue;
+            plates.push(new PressurePlate(px, py));
+        }
+        if (plates.length < 2) return false;
+
+        // Drop sequence entries for plates that didn't fit (odd room shapes)
+        puzzle.data.sequence = puzzle.data.sequence.filter((i: number) => i < plates.length);
+        puzzle.data.sequence.forEach((plateIndex: number, order: number) => {
+            plates[plateIndex].requiredOrder = order;
+        });
+        puzzle.data.platePositions = plates.map(p => ({ x: p.x, y: p.y }));
+
+        for (const plate of plates) {
+            plate.linkedPlates = plates.filter(p => p !== plate);
+            this.map.tiles[plate.y][plate.x] = TileType.PressurePlate;
+            this.pressurePlates.push(plate);
+        }
+        return true;
+    }
+
+    // Puzzle pedestal next to the chest opens the puzzle overlay
+    placePuzzlePedestal(cx: number, cy: number) {
+        const spots = [{ x: cx, y: cy - 1 }, { x: cx, y: cy + 1 }, { x: cx - 1, y: cy }, { x: cx + 1, y: cy }];
+        const spot = spots.find(s => !this.map.isBlocked(s.x, s.y));
+        if (spot) {
+            this.map.tiles[spot.y][spot.x] = TileType.PuzzleFloor;
+        }
     }
 
     saveGame() {
-        const saveData = {
-            player: this.player,
-            floor: this.floor
-        };
-        localStorage.setItem('deluge2_save', JSON.stringify(saveData));
+        // Co-op runs are shared floors - never write them over the solo run
+        if (this.coopMode) return;
+        SaveSystem.writeSlot(this.activeSaveSlot, serializeWorld(this));
     }
 
     loadGame(): boolean {
-        const saveString = localStorage.getItem('deluge2_save');
-        if (!saveString) return false;
+        const data = SaveSystem.readSlot(this.activeSaveSlot);
+        if (!data) return false;
 
         try {
-            const data = JSON.parse(saveString);
-            this.floor = data.floor;
-            this.player = new Player(0, 0);
-            Object.assign(this.player, data.player);
-            this.generateLevel();
+            if (data.world) {
+                Object.assign(this, restoreWorld(data, data.world));
+                clearPathCache();
+                this.refreshFOV();
+            } else {
+                // Older saves only kept the player - rebuild the floor from the seed
+                this.floor = data.floor;
+                this.seed = data.seed || generateSeed();
+                this.player = restorePlayer(data.player);
+                this.generateLevel();
+            }
+            // The loaded floor may sit in another biome than the one on screen
+            this.renderer.setBiome(this.floor);
+            this.state = GameState.Map;
             return true;
         } catch (e) {
             console.error("Failed to load save", e);
@@ -413,13 +589,18 @@ export class Game {
 
     startCombat(enemy: Enemy | DungeonCore) {
         if (enemy instanceof Enemy) {
+            if (this.coopPartner) {
+                this.startCoopCombat(this.player, enemy);
+                return;
+            }
+
             // Check if we're in a swarm room - trigger multi-combat
             const roomData = this.map.getRoomDataAt(this.player.x, this.player.y);
             if (roomData && roomData.type === 'swarm') {
                 // Get all nearby enemies in the swarm
                 const nearbyEnemies = this.enemies.filter(e => {
                     const dist = Math.abs(e.x - this.player.x) + Math.abs(e.y - this.player.y);
-                    return dist <= 6 && !e.isDead;
+                    return dist <= 6 && !e.isDead && !this.isClaimedByPeer(e);
                 });
 
                 if (nearbyEnemies.length > 1) {
@@ -433,9 +614,16 @@ export class Game {
             }
 
             // Standard single combat
-            this.combatSystem = new CombatSystem(this.player, enemy);
+            this.combatSystem = new CombatSystem(this.player, enemy, enemy.challenge);
             this.state = GameState.Combat;
             this.log(`Combat started with ${enemy.name}!`);
+            if (enemy.alertState === AlertState.Unaware && !enemy.challenge) {
+                this.combatSystem.grantAmbush();
+                this.notify('AMBUSH!', 1500);
+            }
+            if (enemy.challenge) {
+                this.notify('CHALLENGE BATTLE!', 2000);
+            }
         } else {
             // DungeonCore combat might be different or same? 
             // CombatSystem expects Enemy, but DungeonCore extends Entity.
@@ -447,25 +635,47 @@ export class Game {
         }
     }
 
-    handleInput(key: string) {
+    handleInput(key: string, action?: BindingAction) {
+        // Any other input takes over from click-to-move and auto-explore
+        this.travelPath = [];
+        this.autoTravel = null;
+
         // Class selection
         if (this.state === GameState.ClassSelect) {
-            if (key === 'ArrowUp' || key === 'w') {
+            if (this.isEnteringSeed) {
+                if (key === 'Escape') {
+                    this.isEnteringSeed = false;
+                    this.seedInput = '';
+                } else if (key === 'Enter' || key === 'Tab') {
+                    this.isEnteringSeed = false;
+                } else if (key === 'Backspace') {
+                    this.seedInput = this.seedInput.slice(0, -1);
+                } else if (key.length === 1 && /[A-Za-z0-9-]/.test(key) && this.seedInput.length < 16) {
+                    this.seedInput += key;
+                }
+                return;
+            }
+
+            if (KeyBindings.matches('seedEntry', key)) {
+                this.isEnteringSeed = true;
+            } else if (KeyBindings.matches('moveUp', key)) {
                 this.selectedClassIndex = Math.max(0, this.selectedClassIndex - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 this.selectedClassIndex = Math.min(this.availableClasses.length - 1, this.selectedClassIndex + 1);
-            } else if (key === 'Enter' || key === ' ') {
+            } else if (KeyBindings.matches('confirm', key)) {
                 const selectedClass = this.availableClasses[this.selectedClassIndex];
-                this.startNewGame(selectedClass);
+                const seed = this.seedInput ? parseSeed(this.seedInput) : undefined;
+                this.startNewGame(selectedClass, seed);
+                this.seedInput = '';
                 this.state = GameState.Map;
-                this.log(`Starting as ${selectedClass.name}!`);
+                this.log(`Starting as ${selectedClass.name}! Seed: ${this.seed}`);
                 this.notify(`Playing as ${selectedClass.name}`, 2000);
             }
             return;
         }
 
         if (this.player.isDead) {
-            if (key === 'Enter') {
+            if (KeyBindings.matches('confirm', key)) {
                 this.resetGame();
             }
             return;
@@ -473,7 +683,7 @@ export class Game {
 
         // Stats menu
         if (this.state === GameState.Stats) {
-            if (key === 'Escape' || key === 'Tab') {
+            if (KeyBindings.matches('cancel', key) || KeyBindings.matches('stats', key)) {
                 this.state = GameState.Map;
             }
             return;
@@ -481,20 +691,20 @@ export class Game {
 
         // Equipment menu
         if (this.state === GameState.Equipment) {
-            if (key === 'Escape' || key === 'Tab') {
+            if (KeyBindings.matches('cancel', key) || KeyBindings.matches('equipment', key)) {
                 this.state = GameState.Map;
-            } else if (key === 'ArrowUp' || key === 'w') {
+            } else if (KeyBindings.matches('moveUp', key)) {
                 this.selectedInventoryIndex = Math.max(0, this.selectedInventoryIndex - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 this.selectedInventoryIndex = Math.min(this.player.inventory.equipment.length - 1, this.selectedInventoryIndex + 1);
-            } else if (key === 'Enter' || key === 'e') {
+            } else if (KeyBindings.matches('confirm', key) || KeyBindings.matches('equip', key)) {
                 // Equip selected item
                 const item = this.player.inventory.equipment[this.selectedInventoryIndex];
                 if (item) {
                     this.player.equipItem(item);
                     this.log(`Equipped ${item.name}`);
                 }
-            } else if (key === 'u') {
+            } else if (KeyBindings.matches('unequip', key)) {
                 // Unequip menu cycle through slots
                 const slots: (keyof typeof this.player.equipped)[] = ['weapon', 'armor', 'helmet', 'boots', 'accessory'];
                 const slot = slots[this.menuCursor % slots.length];
@@ -502,9 +712,9 @@ export class Game {
                     this.player.unequipItem(this.player.equipped[slot]!.slot);
                     this.log(`Unequipped ${slot}`);
                 }
-            } else if (key === 'ArrowLeft' || key === 'a') {
+            } else if (KeyBindings.matches('moveLeft', key)) {
                 this.menuCursor = Math.max(0, this.menuCursor - 1);
-            } else if (key === 'ArrowRight' || key === 'd') {
+            } else if (KeyBindings.matches('moveRight', key)) {
                 this.menuCursor = Math.min(4, this.menuCursor + 1);
             }
             return;
@@ -512,13 +722,13 @@ export class Game {
 
         // Crafting menu
         if (this.state === GameState.Crafting) {
-            if (key === 'Escape' || key === 'Tab') {
+            if (KeyBindings.matches('cancel', key) || KeyBindings.matches('crafting', key)) {
                 this.state = GameState.Map;
-            } else if (key === 'ArrowUp' || key === 'w') {
+            } else if (KeyBindings.matches('moveUp', key)) {
                 this.selectedCraftingIndex = Math.max(0, this.selectedCraftingIndex - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 this.selectedCraftingIndex = Math.min(CRAFTING_RECIPES.length - 1, this.selectedCraftingIndex + 1);
-            } else if (key === 'Enter' || key === 'c') {
+            } else if (KeyBindings.matches('confirm', key) || KeyBindings.matches('craft', key)) {
                 // Try to craft
                 const recipe = CRAFTING_RECIPES[this.selectedCraftingIndex];
                 if (recipe) {
@@ -556,16 +766,36 @@ export class Game {
             return;
         }
 
+        // Shrine prompt
+        if (this.state === GameState.ShrinePrompt && this.activeShrine) {
+            if (KeyBindings.matches('accept', key) || KeyBindings.matches('confirm', key)) {
+                this.acceptShrine(this.activeShrine);
+                this.activeShrine = null;
+                this.state = GameState.Map;
+            } else if (KeyBindings.matches('decline', key) || KeyBindings.matches('cancel', key)) {
+                this.log('You step away from the shrine.');
+                this.activeShrine = null;
+                this.state = GameState.Map;
+            }
+            return;
+        }
+
+        // Room puzzle overlay
+        if (this.state === GameState.RoomPuzzle && this.activeRoomPuzzle) {
+            this.handleRoomPuzzleInput(key);
+            return;
+        }
+
         // Skill Tree state
         if (this.state === GameState.SkillTree) {
-            if (key === 'Escape' || key === 'Tab') {
+            if (KeyBindings.matches('cancel', key) || KeyBindings.matches('skillTree', key)) {
                 this.state = GameState.Map;
-            } else if (key === 'ArrowUp' || key === 'w') {
+            } else if (KeyBindings.matches('moveUp', key)) {
                 this.selectedSkillTreeNode = Math.max(0, this.selectedSkillTreeNode - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 const maxNodes = this.currentSkillTree ? this.currentSkillTree.nodes.length - 1 : 0;
                 this.selectedSkillTreeNode = Math.min(maxNodes, this.selectedSkillTreeNode + 1);
-            } else if (key === 'Enter' || key === ' ') {
+            } else if (KeyBindings.matches('confirm', key)) {
                 // Try to learn skill
                 if (this.currentSkillTree) {
                     const node = this.currentSkillTree.nodes[this.selectedSkillTreeNode];
@@ -577,7 +807,7 @@ export class Game {
                         }
                     }
                 }
-            } else if (key === 'q' || key === 'Q') {
+            } else if (KeyBindings.matches('switchTree', key)) {
                 // Toggle between primary and secondary tree
                 if (this.player.multiclass.secondaryClass) {
                     this.viewingSecondaryTree = !this.viewingSecondaryTree;
@@ -610,15 +840,21 @@ export class Game {
             return;
         }
 
+        // Duel replay list / viewer
+        if (this.state === GameState.DuelReplay) {
+            this.handleDuelReplayInput(key);
+            return;
+        }
+
         // Multiclass selection state
         if (this.state === GameState.Multiclass) {
-            if (key === 'Escape') {
+            if (KeyBindings.matches('cancel', key)) {
                 this.state = GameState.Map;
-            } else if (key === 'ArrowUp' || key === 'w') {
+            } else if (KeyBindings.matches('moveUp', key)) {
                 this.selectedMulticlassIndex = Math.max(0, this.selectedMulticlassIndex - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 this.selectedMulticlassIndex = Math.min(this.multiclassOptions.length - 1, this.selectedMulticlassIndex + 1);
-            } else if (key === 'Enter' || key === ' ') {
+            } else if (KeyBindings.matches('confirm', key)) {
                 const selectedClass = this.multiclassOptions[this.selectedMulticlassIndex];
                 if (selectedClass && this.player.multiclassInto(selectedClass)) {
                     this.notify(`Multiclassed into ${selectedClass}!`);
@@ -630,14 +866,14 @@ export class Game {
 
         // Trading state
         if (this.state === GameState.Trading && this.currentNPC) {
-            if (key === 'Escape') {
+            if (KeyBindings.matches('cancel', key)) {
                 this.state = GameState.Map;
                 this.currentNPC = null;
-            } else if (key === 'ArrowUp' || key === 'w') {
+            } else if (KeyBindings.matches('moveUp', key)) {
                 this.traderSelectedIndex = Math.max(0, this.traderSelectedIndex - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 this.traderSelectedIndex = Math.min(this.currentNPC.inventory.length - 1, this.traderSelectedIndex + 1);
-            } else if (key === 'Enter' || key === ' ') {
+            } else if (KeyBindings.matches('confirm', key)) {
                 const item = this.currentNPC.inventory[this.traderSelectedIndex];
                 if (item && this.player.inventory.gold >= item.cost) {
                     this.player.inventory.gold -= item.cost;
@@ -662,16 +898,40 @@ export class Game {
             return;
         }
 
+        // Merchant room shop
+        if (this.state === GameState.Shop && this.activeMerchant) {
+            this.handleShopInput(key);
+            return;
+        }
+
+        // Save slot menu
+        if (this.state === GameState.SaveSlots) {
+            this.handleSaveSlotInput(key);
+            return;
+        }
+
+        // Key binding screen
+        if (this.state === GameState.KeyBindings) {
+            this.handleKeyBindingsInput(key);
+            return;
+        }
+
+        // Travel destination list
+        if (this.state === GameState.TravelMenu) {
+            this.handleTravelMenuInput(key);
+            return;
+        }
+
         // Soul Trading state
         if (this.state === GameState.SoulTrading && this.currentNPC) {
-            if (key === 'Escape') {
+            if (KeyBindings.matches('cancel', key)) {
                 this.state = GameState.Map;
                 this.currentNPC = null;
-            } else if (key === 'ArrowUp' || key === 'w') {
+            } else if (KeyBindings.matches('moveUp', key)) {
                 this.soulTraderSelectedIndex = Math.max(0, this.soulTraderSelectedIndex - 1);
-            } else if (key === 'ArrowDown' || key === 's') {
+            } else if (KeyBindings.matches('moveDown', key)) {
                 this.soulTraderSelectedIndex = Math.min(this.soulTraderOptions.length - 1, this.soulTraderSelectedIndex + 1);
-            } else if (key === 'Enter' || key === ' ') {
+            } else if (KeyBindings.matches('confirm', key)) {
                 const option = this.soulTraderOptions[this.soulTraderSelectedIndex];
                 if (option) {
                     if (applySkillReallocation(this.player, option)) {
@@ -713,34 +973,42 @@ export class Game {
             return;
         }
 
+        // Local co-op: player 2 has its own movement keys (arrows by default) - pads and touch controls move player 1
+        const partnerKeys: BindingAction[] = ['partnerUp', 'partnerDown', 'partnerLeft', 'partnerRight'];
+        const fromPartner = action ? partnerKeys.includes(action) : partnerKeys.some(a => KeyBindings.matches(a, key));
+        if (this.state === GameState.Map && this.coopMode === 'local' && fromPartner) {
+            this.moveCoopPartner(key);
+            return;
+        }
+
         let dx = 0;
         let dy = 0;
-        if (key === 'ArrowUp' || key === 'w') dy = -1;
-        if (key === 'ArrowDown' || key === 's') dy = 1;
-        if (key === 'ArrowLeft' || key === 'a') dx = -1;
-        if (key === 'ArrowRight' || key === 'd') dx = 1;
+        if (KeyBindings.matches('moveUp', key)) dy = -1;
+        if (KeyBindings.matches('moveDown', key)) dy = 1;
+        if (KeyBindings.matches('moveLeft', key)) dx = -1;
+        if (KeyBindings.matches('moveRight', key)) dx = 1;
 
         // Menu shortcuts (Map mode only)
         if (this.state === GameState.Map) {
-            if (key === 'Tab') {
+            if (KeyBindings.matches('stats', key)) {
                 this.state = GameState.Stats;
                 return;
             }
-            if (key === 'i' || key === 'I') {
+            if (KeyBindings.matches('equipment', key)) {
                 this.state = GameState.Equipment;
                 return;
             }
-            if (key === 'c' || key === 'C') {
+            if (KeyBindings.matches('crafting', key)) {
                 this.state = GameState.Crafting;
                 return;
             }
-            // Skill Tree (T key)
-            if (key === 't' || key === 'T') {
+            // Skill Tree
+            if (KeyBindings.matches('skillTree', key)) {
                 this.openSkillTree();
                 return;
             }
-            // Multiclass (M key) - only at level 25+
-            if (key === 'm' || key === 'M') {
+            // Multiclass - only at level 25+
+            if (KeyBindings.matches('multiclass', key)) {
                 if (canMulticlass(this.player.stats.level, this.player.multiclass)) {
                     this.multiclassOptions = getAvailableMulticlasses(this.player.multiclass.primaryClass);
                     this.selectedMulticlassIndex = 0;
@@ -752,82 +1020,410 @@ export class Game {
                 }
                 return;
             }
-            // Toggle notifications (N key)
-            if (key === 'n' || key === 'N') {
+            // Toggle notifications
+            if (KeyBindings.matches('notifications', key)) {
                 this.toggleNotifications();
                 return;
             }
-            // Multiplayer (P key)
-            if (key === 'p' || key === 'P') {
+            // Multiplayer
+            if (KeyBindings.matches('multiplayer', key)) {
                 this.state = GameState.MultiplayerLobby;
                 this.multiplayerMenuOption = 0;
                 this.isEnteringRoomCode = false;
                 this.roomCodeInput = '';
+                this.isEditingPlayerName = false;
+                return;
+            }
+            // Leave co-op
+            if (KeyBindings.matches('cancel', key) && this.coopMode) {
+                this.notify('Left co-op');
+                this.leaveCoop();
+                return;
+            }
+            // Save slots
+            if (KeyBindings.matches('saves', key)) {
+                if (this.coopMode) {
+                    this.notify('Saves are disabled during co-op');
+                    return;
+                }
+                this.saveSlotCursor = this.activeSaveSlot - 1;
+                this.isNamingSlot = false;
+                this.state = GameState.SaveSlots;
+                return;
+            }
+            // Key bindings
+            if (KeyBindings.matches('keyBindings', key)) {
+                this.openKeyBindings();
+                return;
+            }
+            if (KeyBindings.matches('sneak', key)) {
+                this.sneaking = !this.sneaking;
+                this.notify(this.sneaking ? 'Sneaking' : 'Stopped sneaking', 1000);
+                return;
+            }
+            if (KeyBindings.matches('autoExplore', key)) {
+                this.startAutoExplore();
+                return;
+            }
+            if (KeyBindings.matches('travelTo', key)) {
+                this.openTravelMenu();
                 return;
             }
             // Skills
-            if (key === '1') this.useSkill(0);
-            if (key === '2') this.useSkill(1);
+            if (KeyBindings.matches('skill1', key)) this.useSkill(0);
+            if (KeyBindings.matches('skill2', key)) this.useSkill(1);
         }
 
         if (dx !== 0 || dy !== 0) {
-            const destX = this.player.x + dx;
-            const destY = this.player.y + dy;
-
-            // Check for enemies
-            const targetEnemy = this.enemies.find(e => e.x === destX && e.y === destY);
-            if (targetEnemy) {
-                this.startCombat(targetEnemy);
-            } else if (this.core && this.core.x === destX && this.core.y === destY) {
-                // Start puzzle for dungeon core
-                if (!this.core.puzzleSolved) {
-                    this.state = GameState.Puzzle;
-                    this.log("A puzzle blocks your way to the Dungeon Core...");
-                } else {
-                    this.startCombat(this.core);
-                }
+            this.movePlayer(dx, dy);
+        }
+    }
+
+    // One step on the map - attacks, interactions and the turn that follows
+    movePlayer(dx: number, dy: number) {
+        const destX = this.player.x + dx;
+        const destY = this.player.y + dy;
+
+        // Check for enemies
+        const targetEnemy = this.enemies.find(e => e.x === destX && e.y === destY);
+        if (targetEnemy && this.isClaimedByPeer(targetEnemy)) {
+            this.notify(`${targetEnemy.name} is already fighting someone`, 1000);
+        } else if (targetEnemy) {
+            this.startCombat(targetEnemy);
+        } else if (this.core && this.core.x === destX && this.core.y === destY) {
+            // Start puzzle for dungeon core
+            if (!this.core.puzzleSolved) {
+                this.state = GameState.Puzzle;
+                this.log("A puzzle blocks your way to the Dungeon Core...");
             } else {
-                // Check for NPCs
-                const npc = this.npcs.find(n => n.x === destX && n.y === destY);
-                if (npc) {
-                    this.interactWithNPC(npc);
-                    return;
-                }
+                this.startCombat(this.core);
+            }
+        } else {
+            // Check for campfires
+            const campfire = this.campfires.find(c => c.x === destX && c.y === destY);
+            if (campfire) {
+                this.restAtCampfire(campfire);
+                return;
+            }
+
+            // Check for merchant stalls
+            const merchant = this.merchants.find(m => m.x === destX && m.y === destY);
+            if (merchant) {
+                this.activeMerchant = merchant;
+                this.shopMode = 'buy';
+                this.shopSelectedIndex = 0;
+                this.state = GameState.Shop;
+                return;
+            }
 
-                if (!this.map.isBlocked(destX, destY)) {
-                    this.player.move(dx, dy);
+            // Check for NPCs
+            const npc = this.npcs.find(n => n.x === destX && n.y === destY);
+            if (npc) {
+                this.interactWithNPC(npc);
+                return;
+            }
 
-                    // Check for items
-                    const itemIndex = this.items.findIndex(i => i.x === destX && i.y === destY);
-                    if (itemIndex !== -1) {
-                        const item = this.items[itemIndex];
-                        this.pickupItem(item);
-                        this.items.splice(itemIndex, 1);
-                    }
+            if (!this.map.isBlocked(destX, destY)) {
+                this.player.move(dx, dy);
 
-                    // Check for chests
-                    const chestIndex = this.chests.findIndex(c => c.x === destX && c.y === destY && !c.opened);
-                    if (chestIndex !== -1) {
-                        const chest = this.chests[chestIndex];
+                // Check for items
+                const itemIndex = this.items.findIndex(i => i.x === destX && i.y === destY);
+                if (itemIndex !== -1) {
+                    const item = this.items[itemIndex];
+                    this.pickupItem(item);
+                    this.items.splice(itemIndex, 1);
+                }
+
+                // Check for chests
+                const chestIndex = this.chests.findIndex(c => c.x === destX && c.y === destY && !c.opened);
+                if (chestIndex !== -1) {
+                    const chest = this.chests[chestIndex];
+                    if (chest.locked) {
+                        this.log("The chest is sealed. Solve the room's puzzle first.");
+                    } else {
                         this.openChest(chest);
                     }
+                }
 
-                    // Check for traps
-                    const trap = this.traps.find(t => t.x === destX && t.y === destY && !t.triggered);
-                    if (trap) {
-                        this.triggerTrap(trap);
-                    }
+                // Check for shrines
+                const shrine = this.shrines.find(sh => sh.x === destX && sh.y === destY && !sh.used);
+                if (shrine) {
+                    this.activeShrine = shrine;
+                    this.state = GameState.ShrinePrompt;
+                }
+
+                // Check for room puzzle tiles
+                const tile = this.map.tiles[destY][destX];
+                if (tile === TileType.PressurePlate) {
+                    this.activatePressurePlate(destX, destY);
+                } else if (tile === TileType.PuzzleFloor) {
+                    this.openRoomPuzzle(destX, destY);
+                }
 
-                    // Track movement for reaper spawn
-                    this.floorMoveCount++;
-                    this.checkReaperSpawn();
+                // Check for traps
+                const trap = this.traps.find(t => t.x === destX && t.y === destY && !t.triggered);
+                if (trap) {
+                    this.triggerTrap(trap);
                 }
+
+                // Track movement for reaper spawn
+                this.floorMoveCount++;
+                this.checkReaperSpawn();
             }
+        }
 
-            this.player.updateBuffs();
-            this.map.computeFOV(this.player.x, this.player.y, 8);
+        this.tickStatusEffects();
+        this.player.updateBuffs();
+        this.refreshFOV();
+        this.updateEnemies();
+        // Sneaking (unless Shadow Step keeps the player quick) and being slowed give enemies a second turn
+        const sneakCost = this.sneaking && !this.player.unlockedAbilities.includes('shadowstep');
+        const slowed = this.player.buffs.some(b => b.name === 'Slowed');
+        if ((sneakCost || slowed) && this.state === GameState.Map && !this.player.isDead) {
             this.updateEnemies();
-            this.saveGame();
+        }
+
+        // Ranged hits and poison can kill outside of combat
+        if (this.player.isDead) {
+            if (this.coopMode) {
+                this.handleCoopDefeat([this.player]);
+            } else {
+                this.resetGame();
+                return;
+            }
+        }
+        this.saveGame();
+        this.syncCoopState();
+    }
+
+    // ============================================
+    // MOUSE / TOUCH
+    // ============================================
+
+    handlePointer(x: number, y: number) {
+        const target: PointerTarget | null = this.renderer.hitTest(x, y);
+        if (target && 'action' in target) {
+            this.inputHandler.pressAction(target.action);
+        } else if (target && 'key' in target) {
+            this.handleInput(target.key);
+        } else if (target) {
+            this.selectListRow(target.row);
+        } else if (this.state === GameState.Map) {
+            this.travelTo(this.renderer.screenToTile(x, y));
+        } else if (this.state === GameState.Combat || this.state === GameState.MultiCombat ||
+            (this.state === GameState.Duel && this.duelState?.phase === DuelPhase.Result)) {
+            // "Press any key" prompts continue on a tap
+            this.inputHandler.pressAction('confirm');
+        }
+    }
+
+    // Tapping a row selects it, tapping the selected row again activates it
+    selectListRow(index: number) {
+        let current: number;
+        switch (this.state) {
+            case GameState.Equipment:
+                current = this.selectedInventoryIndex;
+                this.selectedInventoryIndex = index;
+                break;
+            case GameState.Crafting:
+                current = this.selectedCraftingIndex;
+                this.selectedCraftingIndex = index;
+                break;
+            case GameState.Trading:
+                current = this.traderSelectedIndex;
+                this.traderSelectedIndex = index;
+                break;
+            case GameState.SkillTree:
+                current = this.selectedSkillTreeNode;
+                this.selectedSkillTreeNode = index;
+                break;
+            case GameState.TravelMenu:
+                current = this.travelMenuIndex;
+                this.travelMenuIndex = index;
+                break;
+            case GameState.MultiCombat:
+                if (!this.multiCombatSystem) return;
+                current = this.multiCombatSystem.selectedTargetIndex;
+                this.multiCombatSystem.selectedTargetIndex = index;
+                break;
+            default:
+                return;
+        }
+        if (current === index) this.inputHandler.pressAction('confirm');
+    }
+
+    // Walk to an explored tile one step per few frames - click-to-move, or a travel menu pick
+    travelTo(dest: Point, mode: 'travel' | null = null) {
+        if (!this.map.explored[dest.y]?.[dest.x]) return;
+        if (dest.x === this.player.x && dest.y === this.player.y) return;
+
+        const path = aStar({ x: this.player.x, y: this.player.y }, dest, (x, y) => this.isTravelBlocked(x, y), TRAVEL_MAX_DISTANCE);
+        const end = path[path.length - 1];
+        if (path.length < 2 || end.x !== dest.x || end.y !== dest.y) {
+            this.notify("Can't find a way there", 1000);
+            return;
+        }
+        this.travelPath = path.slice(1);
+        this.travelTimer = TRAVEL_STEP_FRAMES;
+        this.autoTravel = mode;
+    }
+
+    // Travel only crosses tiles the player has already seen
+    isTravelBlocked(x: number, y: number): boolean {
+        return this.map.isBlocked(x, y) || !this.map.explored[y][x];
+    }
+
+    startAutoExplore() {
+        const [enemy] = this.getVisibleEnemies();
+        if (enemy) {
+            this.notify(`Not with ${enemy.name} in sight!`, 1500);
+            return;
+        }
+        this.travelPath = [];
+        this.travelTimer = TRAVEL_STEP_FRAMES;
+        this.autoTravel = 'explore';
+    }
+
+    // Path to the closest known floor tile that borders unexplored space
+    planExplorePath(): boolean {
+        const isFrontier = (x: number, y: number) =>
+            [[0, -1], [0, 1], [-1, 0], [1, 0]].some(([dx, dy]) => this.map.explored[y + dy]?.[x + dx] === false);
+        const target = findNearest({ x: this.player.x, y: this.player.y }, (x, y) => this.isTravelBlocked(x, y), isFrontier);
+        if (!target) return false;
+
+        const path = aStar({ x: this.player.x, y: this.player.y }, target, (x, y) => this.isTravelBlocked(x, y), TRAVEL_MAX_DISTANCE);
+        if (path.length < 2) return false;
+        this.travelPath = path.slice(1);
+        return true;
+    }
+
+    stopTravel(message?: string) {
+        this.travelPath = [];
+        this.autoTravel = null;
+        if (message) this.notify(message, 1500);
+    }
+
+    getVisibleEnemies(): Enemy[] {
+        return this.enemies.filter(e => !e.isDead && this.map.visible[e.y]?.[e.x]);
+    }
+
+    // Items and unopened chests in view - auto-explore stops when this goes up
+    countVisibleLoot(): number {
+        const items = this.items.filter(i => this.map.visible[i.y][i.x]).length;
+        const chests = this.chests.filter(c => !c.opened && this.map.visible[c.y][c.x]).length;
+        return items + chests;
+    }
+
+    stepTravel() {
+        if (this.travelPath.length === 0) {
+            if (this.autoTravel !== 'explore') {
+                this.stopTravel(this.autoTravel === 'travel' ? 'Arrived' : undefined);
+                return;
+            }
+            // Reached the last frontier - head for the next one
+            if (!this.planExplorePath()) {
+                this.stopTravel('Nothing left to explore');
+                return;
+            }
+        }
+
+        const next = this.travelPath.shift()!;
+        const dx = next.x - this.player.x;
+        const dy = next.y - this.player.y;
+        if (Math.abs(dx) + Math.abs(dy) !== 1) {
+            this.stopTravel();
+            return;
+        }
+
+        const hpBefore = this.player.stats.hp;
+        const enemiesBefore = this.getVisibleEnemies();
+        const lootBefore = this.countVisibleLoot();
+        this.movePlayer(dx, dy);
+
+        // Stop when something got in the way (a fight, a shop, a wall that wasn't there)
+        if (this.state !== GameState.Map || this.player.x !== next.x || this.player.y !== next.y) {
+            this.stopTravel();
+            return;
+        }
+        if (!this.autoTravel) return;
+
+        const enemy = this.getVisibleEnemies().find(e => !enemiesBefore.includes(e));
+        if (enemy) {
+            this.stopTravel(`${enemy.name} spotted!`);
+        } else if (this.player.stats.hp < hpBefore) {
+            this.stopTravel('You are hurt - stopping');
+        } else if (this.countVisibleLoot() > lootBefore) {
+            this.stopTravel('Found something!');
+        }
+    }
+
+    // Known rooms, the Dungeon Core and anyone to talk to, closest first
+    getTravelDestinations(): TravelDestination[] {
+        const known = (p: Point) => this.map.explored[p.y][p.x];
+        const destinations: TravelDestination[] = [];
+
+        this.map.rooms.forEach((room, i) => {
+            const center = room.center();
+            if (!known(center)) return;
+            const type = this.map.roomData[i]?.type ?? 'normal';
+            const name = i === 0 ? 'Starting Room' : ROOM_TYPES.get(type)?.name ?? 'Room';
+            destinations.push({ name: `${name} #${i + 1}`, ...center });
+        });
+        if (this.core && known(this.core)) {
+            destinations.push({ name: 'Dungeon Core (next floor)', x: this.core.x, y: this.core.y });
+        }
+        for (const npc of this.npcs) {
+            if (known(npc)) destinations.push({ name: npc.name, x: npc.x, y: npc.y });
+        }
+        for (const merchant of this.merchants) {
+            if (known(merchant)) destinations.push({ name: 'Merchant Stall', x: merchant.x, y: merchant.y });
+        }
+        for (const campfire of this.campfires) {
+            if (!campfire.used && known(campfire)) destinations.push({ name: 'Campfire', x: campfire.x, y: campfire.y });
+        }
+
+        const distance = (d: TravelDestination) => Math.abs(d.x - this.player.x) + Math.abs(d.y - this.player.y);
+        return destinations.sort((a, b) => distance(a) - distance(b));
+    }
+
+    openTravelMenu() {
+        this.travelDestinations = this.getTravelDestinations();
+        this.travelMenuIndex = 0;
+        this.state = GameState.TravelMenu;
+    }
+
+    handleTravelMenuInput(key: string) {
+        if (KeyBindings.matches('cancel', key) || KeyBindings.matches('travelTo', key)) {
+            this.state = GameState.Map;
+        } else if (KeyBindings.matches('moveUp', key)) {
+            this.travelMenuIndex = Math.max(0, this.travelMenuIndex - 1);
+        } else if (KeyBindings.matches('moveDown', key)) {
+            this.travelMenuIndex = Math.min(Math.max(0, this.travelDestinations.length - 1), this.travelMenuIndex + 1);
+        } else if (KeyBindings.matches('confirm', key)) {
+            const dest = this.travelDestinations[this.travelMenuIndex];
+            if (!dest) return;
+            this.state = GameState.Map;
+            this.travelTo(dest, 'travel');
+        }
+    }
+
+    // Which on-screen controls a touch player needs on this screen
+    getTouchLayout(): TouchLayout | null {
+        switch (this.state) {
+            case GameState.Map:
+                return 'map';
+            case GameState.Combat:
+                return null; // Action buttons are tappable
+            case GameState.Duel:
+                return this.duelState?.phase === DuelPhase.SelectAction ? null : 'menu';
+            case GameState.LevelUp:
+                return 'digits';
+            case GameState.Puzzle:
+                return this.core?.puzzleType === 'slider' ? 'menu' : 'digits';
+            case GameState.RoomPuzzle:
+                return this.activeRoomPuzzle?.type === 'light_redirect' ? 'menu' : 'digits';
+            default:
+                return 'menu';
         }
     }
 
@@ -982,12 +1578,7 @@ export class Game {
                 const damage = this.player.takeDamage(trap.damage);
                 this.log(`Poison trap! ${damage.damage} damage + poisoned!`);
                 // Add poison debuff
-                this.player.addBuff({
-                    name: 'Poisoned',
-                    duration: 5,
-                    apply: () => { },
-                    remove: () => { }
-                });
+                this.player.addBuff(createStatusBuff('Poisoned')!);
                 break;
             }
             case 'teleport': {
@@ -1001,79 +1592,554 @@ export class Game {
             }
             case 'alarm': {
                 this.log("Alarm trap! Enemies alerted!");
-                // Wake up all enemies and give them a path to player
+                // Wake up all enemies and tell them where the player is
                 for (const enemy of this.enemies) {
                     enemy.goal = { x: this.player.x, y: this.player.y };
+                    enemy.lastKnownPlayer = { x: this.player.x, y: this.player.y };
+                    enemy.alertState = AlertState.Hunting;
+                    enemy.alertTimer = HUNT_MEMORY_TURNS;
                 }
                 break;
             }
         }
     }
 
-    handlePuzzleInput(key: string) {
-        if (!this.core) return;
-
-        if (key === 'Escape') {
-            this.state = GameState.Map;
+    restAtCampfire(campfire: Campfire) {
+        if (campfire.used || this.restedThisFloor) {
+            this.log('You have already rested on this floor.');
             return;
         }
 
-        const puzzle = this.core.puzzleData;
+        const hpRestored = Math.floor(this.player.stats.maxHp * 0.6);
+        const manaRestored = Math.floor(this.player.stats.maxMana * 0.6);
+        this.player.heal(hpRestored);
+        this.player.restoreMana(manaRestored);
+        for (const skill of this.player.skills) {
+            skill.currentCooldown = 0;
+        }
 
-        if (this.core.puzzleType === 'sequence') {
-            // Simon-says style: press 1-4 to match the sequence
-            if (puzzle.showingSequence) {
-                // Animations handled in update loop now, just wait
-                return;
-            }
+        // Resting lets the reaper close in
+        const reaperThreshold = Math.floor((this.map.width * this.map.height) / 2);
+        const restCost = Math.floor(reaperThreshold * 0.1);
+        this.floorMoveCount += restCost;
 
-            const num = parseInt(key);
-            if (num >= 1 && num <= 4) {
-                if (num === puzzle.sequence[puzzle.currentIndex]) {
-                    puzzle.currentIndex++;
-                    if (puzzle.currentIndex >= puzzle.sequence.length) {
-                        this.completePuzzleStep();
-                    }
-                } else {
-                    this.core.resetCurrentPuzzle();
-                    this.log("Wrong sequence! Try again...");
-                    this.notify('Wrong!', 1000);
-                }
-            }
-        } else if (this.core.puzzleType === 'match') {
-            // Memory match: 1-8 to select cards
-            if (puzzle.hideTimer > 0) return; // Wait for cards to hide
+        campfire.used = true;
+        this.restedThisFloor = true;
+        const roomData = this.map.getRoomDataAt(campfire.x, campfire.y);
+        if (roomData) roomData.cleared = true;
 
-            const num = parseInt(key);
-            if (num >= 1 && num <= 8) {
-                const idx = num - 1;
-                const card = puzzle.cards[idx];
+        this.log(`You rest by the fire. +${hpRestored} HP, +${manaRestored} MP, skills refreshed.`);
+        this.log('Time passes... the Reaper draws nearer.');
+        this.notify('Rested', 2000);
+        this.checkReaperSpawn();
+    }
 
-                if (card.matched || card.revealed) return;
+    resolveChallenge(combat: CombatSystem) {
+        const challenge = combat.challenge!;
+        const roomData = this.map.roomData.find(r => r.specialData === challenge);
+        if (roomData) roomData.cleared = true;
 
-                card.revealed = true;
+        if (combat.isChallengeMet()) {
+            this.log(`Challenge complete! Reward: ${getChallengeRewardName(challenge.reward)}`);
+            this.notify('CHALLENGE COMPLETE!', 2500);
+            // Challenges are solo trials - whoever fought it earns the reward
+            this.grantChallengeReward(challenge, combat.player);
+        } else {
+            this.log('Challenge failed - the bonus reward is forfeit.');
+        }
+    }
 
-                if (puzzle.firstSelection === -1) {
-                    puzzle.firstSelection = idx;
+    grantChallengeReward(challenge: ChallengeConfig, winner: Player) {
+        switch (challenge.reward) {
+            case 'rare_equipment': {
+                const slots = [EquipSlot.Weapon, EquipSlot.Armor, EquipSlot.Helmet, EquipSlot.Boots, EquipSlot.Accessory];
+                const equipment = generateEquipment(slots[getRandomInt(0, slots.length)], this.floor, Rarity.Rare);
+                if (winner.inventory.equipment.length < winner.inventory.maxSize) {
+                    winner.inventory.equipment.push(equipment);
+                    this.log(`Received ${equipment.name}!`);
                 } else {
-                    const first = puzzle.cards[puzzle.firstSelection];
-                    if (first.symbol === card.symbol) {
-                        // Match!
-                        first.matched = true;
-                        card.matched = true;
-                        puzzle.matchesMade++;
-
-                        if (puzzle.matchesMade >= puzzle.matchesNeeded) {
-                            this.completePuzzleStep();
-                        }
-                    } else {
-                        // No match, set timer to hide
-                        puzzle.hideTimer = 40; // ~0.67 seconds
-                    }
-                    puzzle.firstSelection = -1;
+                    const gold = getEquipmentValue(equipment);
+                    winner.addGold(gold);
+                    this.log(`Inventory full - received ${gold} gold instead.`);
                 }
+                break;
             }
-        } else if (this.core.puzzleType === 'memory') {
+            case 'skill_point':
+                winner.stats.skillPoints++;
+                this.log('Gained a skill point!');
+                break;
+            case 'stat_boost':
+                winner.baseStats.attack += 2;
+                winner.baseStats.defense += 1;
+                winner.baseStats.maxHp += 10;
+                winner.recalculateStats();
+                this.log('+2 Attack, +1 Defense, +10 Max HP!');
+                break;
+            case 'gold_pile': {
+                const gold = 100 * this.floor;
+                winner.addGold(gold);
+                this.log(`Found ${gold} gold!`);
+                break;
+            }
+        }
+    }
+
+    handleShopInput(key: string) {
+        const merchant = this.activeMerchant;
+        if (!merchant) return;
+        const listLength = this.shopMode === 'buy' ? merchant.items.length : this.player.inventory.equipment.length;
+
+        if (KeyBindings.matches('cancel', key)) {
+            this.activeMerchant = null;
+            this.state = GameState.Map;
+        } else if (KeyBindings.matches('switchShopMode', key) || KeyBindings.matches('moveLeft', key) || KeyBindings.matches('moveRight', key)) {
+            this.shopMode = this.shopMode === 'buy' ? 'sell' : 'buy';
+            this.shopSelectedIndex = 0;
+        } else if (KeyBindings.matches('moveUp', key)) {
+            this.shopSelectedIndex = Math.max(0, this.shopSelectedIndex - 1);
+        } else if (KeyBindings.matches('moveDown', key)) {
+            this.shopSelectedIndex = Math.max(0, Math.min(listLength - 1, this.shopSelectedIndex + 1));
+        } else if (KeyBindings.matches('confirm', key)) {
+            if (this.shopMode === 'buy') {
+                this.buyShopItem(merchant, this.shopSelectedIndex);
+            } else {
+                this.sellEquipment(this.shopSelectedIndex);
+            }
+        }
+    }
+
+    openKeyBindings() {
+        this.bindingCursor = 0;
+        this.bindingSlot = 0;
+        this.isCapturingKey = false;
+        this.state = GameState.KeyBindings;
+    }
+
+    // The rebind screen itself uses fixed keys so a bad binding can't lock the player out
+    handleKeyBindingsInput(key: string) {
+        const action = BINDING_ACTIONS[this.bindingCursor];
+
+        if (this.isCapturingKey) {
+            if (key === 'Escape') {
+                this.isCapturingKey = false;
+            } else if (isBindableKey(key)) {
+                const conflicts = KeyBindings.setKey(action, this.bindingSlot, key);
+                this.isCapturingKey = false;
+                if (conflicts.length > 0) {
+                    this.notify(`Also bound to ${conflicts.map(a => DEFAULT_KEY_BINDINGS[a].label).join(', ')}`, 2500);
+                }
+            }
+            return;
+        }
+
+        if (key === 'Escape') {
+            this.state = GameState.Map;
+        } else if (key === 'ArrowUp') {
+            this.bindingCursor = Math.max(0, this.bindingCursor - 1);
+        } else if (key === 'ArrowDown') {
+            this.bindingCursor = Math.min(BINDING_ACTIONS.length - 1, this.bindingCursor + 1);
+        } else if (key === 'ArrowLeft') {
+            this.bindingSlot = Math.max(0, this.bindingSlot - 1);
+        } else if (key === 'ArrowRight') {
+            this.bindingSlot = Math.min(KEYS_PER_ACTION - 1, this.bindingSlot + 1);
+        } else if (key === 'Enter') {
+            this.isCapturingKey = true;
+        } else if (key === 'Backspace' || key === 'Delete') {
+            KeyBindings.clearKey(action, this.bindingSlot);
+        } else if (key === 'r') {
+            KeyBindings.reset(action);
+            this.notify(`${DEFAULT_KEY_BINDINGS[action].label} reset`, 1500);
+        } else if (key === 'R') {
+            KeyBindings.reset();
+            this.notify('All key bindings reset');
+        }
+    }
+
+    handleSaveSlotInput(key: string) {
+        const slot = this.saveSlotCursor + 1;
+        const info = SaveSystem.getSlotInfo(slot);
+
+        if (this.isNamingSlot) {
+            if (key === 'Escape') {
+                this.isNamingSlot = false;
+            } else if (key === 'Enter') {
+                const name = this.slotNameInput.trim();
+                if (name) SaveSystem.renameSlot(slot, name);
+                this.isNamingSlot = false;
+            } else if (key === 'Backspace') {
+                this.slotNameInput = this.slotNameInput.slice(0, -1);
+            } else if (key.length === 1 && this.slotNameInput.length < 20) {
+                this.slotNameInput += key;
+            }
+            return;
+        }
+
+        if (KeyBindings.matches('cancel', key)) {
+            this.saveImportErrors = [];
+            this.state = GameState.Map;
+        } else if (KeyBindings.matches('moveUp', key)) {
+            this.saveSlotCursor = Math.max(0, this.saveSlotCursor - 1);
+        } else if (KeyBindings.matches('moveDown', key)) {
+            this.saveSlotCursor = Math.min(MAX_SAVE_SLOTS - 1, this.saveSlotCursor + 1);
+        } else if (KeyBindings.matches('confirm', key)) {
+            if (slot === this.activeSaveSlot) {
+                this.notify('Already playing this slot', 1500);
+                return;
+            }
+            this.saveGame();
+            if (info) {
+                // Switch to the other run - a failed load keeps playing (and saving) the current one
+                const previousSlot = this.activeSaveSlot;
+                this.activeSaveSlot = slot;
+                if (this.loadGame()) {
+                    this.notify(`Loaded ${info.name}`);
+                } else {
+                    this.activeSaveSlot = previousSlot;
+                    this.notify('Save is corrupted!', 2000);
+                }
+            } else {
+                // Continue the current run in the empty slot
+                this.activeSaveSlot = slot;
+                this.saveGame();
+                this.state = GameState.Map;
+                this.notify(`Run copied to Slot ${slot}`);
+            }
+        } else if (KeyBindings.matches('newRun', key)) {
+            if (info) {
+                this.notify('Delete this slot first', 1500);
+                return;
+            }
+            this.saveGame();
+            this.activeSaveSlot = slot;
+            this.logs = [];
+            this.beginNewRun();
+        } else if (KeyBindings.matches('rename', key) && info) {
+            this.isNamingSlot = true;
+            this.slotNameInput = info.name;
+        } else if (KeyBindings.matches('delete', key) && info) {
+            if (slot === this.activeSaveSlot) {
+                this.notify("Can't delete the active run", 1500);
+                return;
+            }
+            SaveSystem.deleteSlot(slot);
+            this.notify(`Deleted ${info.name}`);
+        } else if (KeyBindings.matches('exportFile', key) && info) {
+            this.exportSaveFile(slot);
+        } else if (KeyBindings.matches('importFile', key)) {
+            if (info) {
+                this.notify('Select an empty slot to import into', 1500);
+                return;
+            }
+            this.importSaveFile(slot);
+        }
+    }
+
+    // Download a slot as a .deluge file
+    exportSaveFile(slot: number) {
+        if (slot === this.activeSaveSlot) this.saveGame();
+        const data = SaveSystem.readSlot(slot);
+        const info = SaveSystem.getSlotInfo(slot);
+        if (!data || !info) return;
+
+        const json = SaveSystem.exportSave(data);
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${info.name.replace(/[^A-Za-z0-9_-]+/g, '_')}-floor${data.floor}.deluge`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        this.notify(`Exported ${info.name}`);
+    }
+
+    // Pick a .deluge file and store it in an empty slot
+    importSaveFile(slot: number) {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.deluge,.json';
+        input.addEventListener('change', async () => {
+            const file = input.files?.[0];
+            if (!file) return;
+
+            let text: string;
+            try {
+                text = await file.text();
+            } catch (e) {
+                console.error('Failed to read save file:', e);
+                this.saveImportErrors = [`Could not read ${file.name}`];
+                this.notify(`Import failed: could not read ${file.name}`, 4000);
+                return;
+            }
+
+            const { data, errors } = SaveSystem.importSave(text);
+            this.saveImportErrors = errors;
+            if (!data) {
+                this.notify(`Import failed: ${errors[0]}`, 4000);
+                return;
+            }
+            const name = file.name.replace(/\.(deluge|json)$/, '').substring(0, 20);
+            SaveSystem.writeSlot(slot, data, name);
+            // writeSlot marks the slot as last played - keep the current run active
+            SaveSystem.writeSlot(this.activeSaveSlot, serializeWorld(this));
+            this.notify(`Imported ${name} into Slot ${slot}`);
+        });
+        input.click();
+    }
+
+    buyShopItem(merchant: MerchantConfig, index: number) {
+        const item = merchant.items[index];
+        if (!item) return;
+        if (item.quantity <= 0) {
+            this.notify('Sold out!', 1500);
+            return;
+        }
+        if (this.player.inventory.gold < item.cost) {
+            this.notify('Not enough gold!', 1500);
+            return;
+        }
+        if (item.type === 'equipment' && this.player.inventory.equipment.length >= this.player.inventory.maxSize) {
+            this.notify('Inventory full!', 1500);
+            return;
+        }
+
+        this.player.inventory.gold -= item.cost;
+        item.quantity--;
+
+        if (item.type === 'heal') {
+            this.player.heal(item.value);
+            this.log(`Restored ${item.value} HP!`);
+            this.notify(`+${item.value} HP`, 1500);
+        } else if (item.type === 'mana') {
+            this.player.restoreMana(item.value);
+            this.log(`Restored ${item.value} Mana!`);
+            this.notify(`+${item.value} MP`, 1500);
+        } else if (item.equipment) {
+            this.player.inventory.equipment.push(item.equipment);
+            this.log(`Bought ${item.equipment.name} for ${item.cost} gold!`);
+            this.notify(`Got ${item.equipment.name}!`, 1500);
+        }
+    }
+
+    sellEquipment(index: number) {
+        const equipment = this.player.inventory.equipment[index];
+        if (!equipment) return;
+
+        const price = getEquipmentValue(equipment);
+        this.player.inventory.equipment.splice(index, 1);
+        this.player.inventory.gold += price;
+        this.shopSelectedIndex = Math.max(0, Math.min(this.shopSelectedIndex, this.player.inventory.equipment.length - 1));
+        this.log(`Sold ${equipment.name} for ${price} gold.`);
+        this.notify(`+${price} gold`, 1500);
+    }
+
+    acceptShrine(shrine: Shrine) {
+        const buff = rollShrineBuff(shrine.effect);
+        this.player.addBuff(buff);
+        shrine.used = true;
+
+        if (shrine.effect.goldPerFloor) {
+            const gold = shrine.effect.goldPerFloor * this.floor;
+            this.player.addGold(gold);
+            this.log(`The shrine offers ${gold} gold for your burden.`);
+        }
+
+        const roomData = this.map.getRoomDataAt(shrine.x, shrine.y);
+        if (roomData) roomData.cleared = true;
+
+        this.log(`${buff.name} takes hold!`);
+        this.notify(buff.name, 2000);
+    }
+
+    // ============================================
+    // ROOM PUZZLES
+    // ============================================
+
+    activatePressurePlate(x: number, y: number) {
+        const plate = this.pressurePlates.find(p => p.x === x && p.y === y);
+        const roomIndex = this.map.getRoomIndexAt(x, y);
+        const puzzle: RoomPuzzle | undefined = this.map.roomData[roomIndex]?.specialData;
+        if (!plate || !puzzle || puzzle.solved || plate.activated) return;
+
+        if (stepOnPlate(puzzle, plate.requiredOrder)) {
+            plate.activated = true;
+            this.log('The plate sinks with a click.');
+            if (puzzle.solved) {
+                this.solveRoomPuzzle(roomIndex);
+            }
+        } else {
+            plate.activated = false;
+            for (const linked of plate.linkedPlates) {
+                linked.activated = false;
+            }
+            this.log('Wrong plate! The plates reset.');
+            this.notify('Plates reset', 1000);
+        }
+    }
+
+    openRoomPuzzle(x: number, y: number) {
+        const roomIndex = this.map.getRoomIndexAt(x, y);
+        const puzzle: RoomPuzzle | undefined = this.map.roomData[roomIndex]?.specialData;
+        if (!puzzle || puzzle.solved) return;
+
+        if (puzzle.type === 'number_lock' && puzzle.data.attempts <= 0) {
+            this.log('The lock is jammed.');
+            return;
+        }
+
+        this.activeRoomPuzzle = puzzle;
+        this.activePuzzleRoomIndex = roomIndex;
+        this.puzzleCursor = { x: 0, y: 0 };
+        this.lockInput = [];
+        if (puzzle.type === 'symbol_sequence') {
+            restartSymbolSequence(puzzle);
+        }
+        this.state = GameState.RoomPuzzle;
+    }
+
+    handleRoomPuzzleInput(key: string) {
+        const puzzle = this.activeRoomPuzzle;
+        if (!puzzle) return;
+
+        if (KeyBindings.matches('cancel', key)) {
+            this.activeRoomPuzzle = null;
+            this.state = GameState.Map;
+            return;
+        }
+
+        if (puzzle.type === 'symbol_sequence') {
+            if (puzzle.data.showing) return;
+            const num = parseInt(key);
+            if (num >= 1 && num <= PUZZLE_SYMBOLS.length) {
+                if (!enterSymbol(puzzle, PUZZLE_SYMBOLS[num - 1])) {
+                    this.log('Wrong symbol! Watch again...');
+                    this.notify('Wrong!', 1000);
+                }
+            }
+        } else if (puzzle.type === 'light_redirect') {
+            const size = puzzle.data.gridSize;
+            if (KeyBindings.matches('moveUp', key)) {
+                this.puzzleCursor.y = Math.max(0, this.puzzleCursor.y - 1);
+            } else if (KeyBindings.matches('moveDown', key)) {
+                this.puzzleCursor.y = Math.min(size - 1, this.puzzleCursor.y + 1);
+            } else if (KeyBindings.matches('moveLeft', key)) {
+                this.puzzleCursor.x = Math.max(0, this.puzzleCursor.x - 1);
+            } else if (KeyBindings.matches('moveRight', key)) {
+                this.puzzleCursor.x = Math.min(size - 1, this.puzzleCursor.x + 1);
+            } else if (KeyBindings.matches('confirm', key)) {
+                rotateMirror(puzzle, this.puzzleCursor.x, this.puzzleCursor.y);
+            }
+        } else if (puzzle.type === 'number_lock') {
+            const digits = puzzle.data.code.length;
+            const num = parseInt(key);
+            if (num >= 1 && num <= 9 && this.lockInput.length < digits) {
+                this.lockInput.push(num);
+            } else if (key === 'Backspace') {
+                this.lockInput.pop();
+            } else if (key === 'Enter' && this.lockInput.length === digits) {
+                const { exact, partial } = submitLockGuess(puzzle, this.lockInput);
+                this.lockInput = [];
+                if (!puzzle.solved) {
+                    this.log(`Lock: ${exact} exact, ${partial} misplaced`);
+                    if (puzzle.data.attempts <= 0) {
+                        this.log('The lock jams shut!');
+                        this.notify('Lock jammed!', 1500);
+                        this.activeRoomPuzzle = null;
+                        this.state = GameState.Map;
+                        return;
+                    }
+                }
+            }
+        }
+
+        if (puzzle.solved) {
+            this.solveRoomPuzzle(this.activePuzzleRoomIndex);
+            this.activeRoomPuzzle = null;
+            this.state = GameState.Map;
+        }
+    }
+
+    solveRoomPuzzle(roomIndex: number) {
+        const room = this.map.rooms[roomIndex];
+        const roomData = this.map.roomData[roomIndex];
+        if (roomData) roomData.cleared = true;
+
+        for (const chest of this.chests) {
+            if (room && room.contains(chest.x, chest.y)) {
+                chest.locked = false;
+            }
+        }
+
+        this.log('Puzzle solved! The chest unlocks.');
+        this.notify('PUZZLE SOLVED!', 2000);
+    }
+
+    handlePuzzleInput(key: string) {
+        if (!this.core) return;
+
+        if (KeyBindings.matches('cancel', key)) {
+            this.state = GameState.Map;
+            return;
+        }
+
+        const puzzle = this.core.puzzleData;
+
+        if (this.core.puzzleType === 'sequence') {
+            // Simon-says style: press 1-4 to match the sequence
+            if (puzzle.showingSequence) {
+                // Animations handled in update loop now, just wait
+                return;
+            }
+
+            const num = parseInt(key);
+            if (num >= 1 && num <= 4) {
+                if (num === puzzle.sequence[puzzle.currentIndex]) {
+                    puzzle.currentIndex++;
+                    if (puzzle.currentIndex >= puzzle.sequence.length) {
+                        this.completePuzzleStep();
+                    }
+                } else {
+                    this.core.resetCurrentPuzzle();
+                    this.log("Wrong sequence! Try again...");
+                    this.notify('Wrong!', 1000);
+                }
+            }
+        } else if (this.core.puzzleType === 'match') {
+            // Memory match: 1-8 to select cards
+            if (puzzle.hideTimer > 0) return; // Wait for cards to hide
+
+            const num = parseInt(key);
+            if (num >= 1 && num <= 8) {
+                const idx = num - 1;
+                const card = puzzle.cards[idx];
+
+                if (card.matched || card.revealed) return;
+
+                card.revealed = true;
+
+                if (puzzle.firstSelection === -1) {
+                    puzzle.firstSelection = idx;
+                } else {
+                    const first = puzzle.cards[puzzle.firstSelection];
+                    if (first.symbol === card.symbol) {
+                        // Match!
+                        first.matched = true;
+                        card.matched = true;
+                        puzzle.matchesMade++;
+
+                        if (puzzle.matchesMade >= puzzle.matchesNeeded) {
+                            this.completePuzzleStep();
+                        }
+                    } else {
+                        // No match, set timer to hide
+                        puzzle.hideTimer = 40; // ~0.67 seconds
+                    }
+                    puzzle.firstSelection = -1;
+                }
+            }
+        } else if (this.core.puzzleType === 'memory') {
             // Grid memory: after seeing pattern, recreate it with numpad/keys
             if (puzzle.showingPattern) {
                 return; // Just watching
@@ -1156,13 +2222,13 @@ export class Game {
             const emptyIdx = tiles.indexOf(0);
             let swapIdx = -1;
 
-            if ((key === 'ArrowLeft' || key === 'a' || key === '2') && emptyIdx % 2 !== 1) {
+            if ((KeyBindings.matches('moveLeft', key) || key === '2') && emptyIdx % 2 !== 1) {
                 swapIdx = emptyIdx + 1; // Move tile from right
-            } else if ((key === 'ArrowRight' || key === 'd' || key === '1') && emptyIdx % 2 !== 0) {
+            } else if ((KeyBindings.matches('moveRight', key) || key === '1') && emptyIdx % 2 !== 0) {
                 swapIdx = emptyIdx - 1; // Move tile from left
-            } else if ((key === 'ArrowUp' || key === 'w' || key === '4') && emptyIdx < 2) {
+            } else if ((KeyBindings.matches('moveUp', key) || key === '4') && emptyIdx < 2) {
                 swapIdx = emptyIdx + 2; // Move tile from below
-            } else if ((key === 'ArrowDown' || key === 's' || key === '3') && emptyIdx >= 2) {
+            } else if ((KeyBindings.matches('moveDown', key) || key === '3') && emptyIdx >= 2) {
                 swapIdx = emptyIdx - 2; // Move tile from above
             }
 
@@ -1234,6 +2300,28 @@ export class Game {
         const baseXp = enemy.stats.xp;
         const xpBonus = Math.floor(baseXp * this.player.stats.xpBonus);
         const totalXp = baseXp + xpBonus;
+        this.gainXp(totalXp);
+        if (this.coopPartner) {
+            this.grantPartnerXp(totalXp);
+        }
+
+        if (enemy instanceof DungeonCore) {
+            this.log("Dungeon Core destroyed! Moving to next floor...");
+            this.floor++;
+            this.player.clearFloorBuffs(); // Shrine effects that only last the floor
+            this.renderer.setBiome(this.floor);
+            this.notify(`Floor ${this.floor} - ${getBiomeName(this.floor)}!`, 2500);
+            if (this.coopMode === 'online') {
+                multiplayer.sendCoopEvent({ kind: 'descend', floor: this.floor });
+            }
+            setTimeout(() => this.generateLevel(), 1000);
+        } else {
+            this.enemies = this.enemies.filter(e => e !== enemy);
+            this.reportCoopKill(enemy);
+        }
+    }
+
+    gainXp(totalXp: number) {
         this.player.stats.xp += totalXp;
         this.log(`You gain ${totalXp} XP.`);
 
@@ -1267,17 +2355,8 @@ export class Game {
                 }
             }
 
-            this.state = GameState.LevelUp;
-        }
-
-        if (enemy instanceof DungeonCore) {
-            this.log("Dungeon Core destroyed! Moving to next floor...");
-            this.floor++;
-            this.renderer.setBiome(this.floor);
-            this.notify(`Floor ${this.floor} - ${getBiomeName(this.floor)}!`, 2500);
-            setTimeout(() => this.generateLevel(), 1000);
-        } else {
-            this.enemies = this.enemies.filter(e => e !== enemy);
+            // A peer's kill can land mid-fight - the skill points wait for the map
+            if (this.state === GameState.Map) this.state = GameState.LevelUp;
         }
     }
 
@@ -1322,73 +2401,330 @@ export class Game {
         // Passive movement for enemies
         for (const enemy of this.enemies) {
             if (enemy.isDead) continue;
+            // Online co-op: the host moves shared enemies, and nobody moves one mid-fight
+            if (this.isHostControlled(enemy) || this.isClaimedByPeer(enemy)) continue;
             enemy.updateBuffs();
 
             const dist = Math.abs(enemy.x - this.player.x) + Math.abs(enemy.y - this.player.y);
 
             // Golden enemies flee from player
             if (enemy.isGolden && dist <= enemy.aggroRange) {
-                // Move away from player
-                const dx = enemy.x - this.player.x;
-                const dy = enemy.y - this.player.y;
-                const fleeX = dx > 0 ? 1 : dx < 0 ? -1 : 0;
-                const fleeY = dy > 0 ? 1 : dy < 0 ? -1 : 0;
-
-                // Try to move away
-                if (!this.map.isBlocked(enemy.x + fleeX, enemy.y + fleeY) &&
-                    !this.enemies.some(e => e.x === enemy.x + fleeX && e.y === enemy.y + fleeY)) {
-                    enemy.x += fleeX;
-                    enemy.y += fleeY;
-                } else if (fleeX !== 0 && !this.map.isBlocked(enemy.x + fleeX, enemy.y) &&
-                    !this.enemies.some(e => e.x === enemy.x + fleeX && e.y === enemy.y)) {
-                    enemy.x += fleeX;
-                } else if (fleeY !== 0 && !this.map.isBlocked(enemy.x, enemy.y + fleeY) &&
-                    !this.enemies.some(e => e.x === enemy.x && e.y === enemy.y + fleeY)) {
-                    enemy.y += fleeY;
-                }
+                this.stepAway(enemy);
+                continue;
+            }
+
+            const seesPlayer = this.enemySeesPlayer(enemy, dist);
+            this.updateAlertState(enemy, seesPlayer, dist);
+
+            // Hurt enemies run once they know the player is around - cornered ones still fight
+            if (enemy.alertState !== AlertState.Unaware &&
+                enemy.stats.hp <= enemy.stats.maxHp * enemy.fleeThreshold && this.stepAway(enemy)) {
+                continue;
+            }
+
+            // A ranged attacker holds still until the shot it telegraphed lands
+            if (enemy.aimedAt) {
+                this.updateAim(enemy);
+                if (this.player.isDead) return;
                 continue;
             }
+            if (enemy.rangedCooldown > 0) enemy.rangedCooldown--;
 
-            // Aggressive enemies within range initiate combat
-            if (this.map.visible[enemy.y][enemy.x] && dist <= enemy.aggroRange) {
+            if (enemy.alertState === AlertState.Hunting) {
                 if (dist === 1) {
                     // Adjacent - initiate combat!
                     this.log(`${enemy.name} attacks!`);
-                    this.combatSystem = new CombatSystem(this.player, enemy);
-                    this.state = GameState.Combat;
+                    if (this.coopPartner) {
+                        this.startCoopCombat(this.player, enemy);
+                    } else {
+                        this.combatSystem = new CombatSystem(this.player, enemy);
+                        this.state = GameState.Combat;
+                    }
                     this.notify('Combat Started!', 1500);
                     return; // Only one combat can start per turn
+                } else if (enemy.ranged && seesPlayer && dist <= enemy.ranged.range && enemy.rangedCooldown === 0) {
+                    this.takeAim(enemy, enemy.ranged);
+                    if (this.player.isDead) return;
+                } else if (enemy.ranged && dist <= enemy.keepDistance && this.stepAway(enemy)) {
+                    // Archers and casters back off to keep the player at range
                 } else if (dist < 15) {
-                    // Move towards player
+                    if (enemy.pattern === 'balanced') this.rallyAllies(enemy);
                     const enemyHash = (enemy.x * 31 + enemy.y) % 3;
                     if ((this.turnCounter + enemyHash) % 2 === 0) {
-                        const path = aStar({ x: enemy.x, y: enemy.y }, { x: this.player.x, y: this.player.y }, (x, y) => this.map.isBlocked(x, y));
-                        if (path.length > 1) {
-                            const nextStep = path[1];
-                            if (nextStep.x !== this.player.x || nextStep.y !== this.player.y) {
-                                if (!this.enemies.some(e => e.x === nextStep.x && e.y === nextStep.y)) {
-                                    enemy.x = nextStep.x;
-                                    enemy.y = nextStep.y;
-                                }
-                            }
+                        const nextStep = this.getHuntStep(enemy);
+                        if (nextStep && this.canEnemyStep(nextStep.x, nextStep.y)) {
+                            enemy.faceToward(nextStep.x, nextStep.y);
+                            enemy.x = nextStep.x;
+                            enemy.y = nextStep.y;
                         }
                     }
                 }
+            } else if (enemy.alertState === AlertState.Unaware) {
+                this.wanderEnemy(enemy);
+            }
+            // Suspicious enemies hold still and stare at what they saw
+        }
+
+        // Reaper always pursues the player aggressively
+        this.updateReaper();
+        this.ambushCoopPeers();
+    }
+
+    // ============================================
+    // RANGED ENEMY ATTACKS
+    // ============================================
+
+    // Mark the line through the player's tile - the shot sweeps all of it after the windup,
+    // so backing away or closing in along it won't help; the player has to sidestep
+    takeAim(enemy: Enemy, ranged: SpriteRangedAttack) {
+        const line = this.map.getLineOfFire(enemy.x, enemy.y, this.player.x, this.player.y, ranged.range);
+        enemy.aimedAt = { x: this.player.x, y: this.player.y, turns: ranged.windup, line };
+        if (this.map.visible[enemy.y][enemy.x]) {
+            this.log(`${enemy.name} readies ${ranged.name}!`);
+        }
+        if (ranged.windup <= 0) this.resolveRangedAttack(enemy, ranged);
+    }
+
+    updateAim(enemy: Enemy) {
+        if (!enemy.aimedAt || !enemy.ranged) {
+            enemy.aimedAt = null;
+            return;
+        }
+        enemy.aimedAt.turns--;
+        if (enemy.aimedAt.turns <= 0) this.resolveRangedAttack(enemy, enemy.ranged);
+    }
+
+    resolveRangedAttack(enemy: Enemy, ranged: SpriteRangedAttack) {
+        const target = enemy.aimedAt;
+        enemy.aimedAt = null;
+        enemy.rangedCooldown = ranged.cooldown;
+        if (!target) return;
+
+        if (!target.line.some(t => t.x === this.player.x && t.y === this.player.y)) {
+            this.log(`${enemy.name}'s ${ranged.name} misses!`);
+            return;
+        }
+
+        if (ranged.damage > 0) {
+            const result = this.player.takeDamage(Math.floor(enemy.stats.attack * ranged.damage));
+            if (result.isDodge) {
+                this.log(`You dodge ${enemy.name}'s ${ranged.name}!`);
+                return;
+            }
+            this.log(`${enemy.name}'s ${ranged.name} hits you for ${result.damage} damage!`);
+        }
+        if (ranged.effect) this.applyStatusEffect(ranged.effect);
+
+        if (this.player.isDead) {
+            this.log(`You were slain by ${enemy.name}'s ${ranged.name}...`);
+        }
+    }
+
+    // Timed debuffs - poison and burning hurt each turn, slowed gives enemies extra turns
+    applyStatusEffect(effect: NonNullable<SpriteRangedAttack['effect']>) {
+        const names = { poison: 'Poisoned', burn: 'Burning', slow: 'Slowed', weaken: 'Weakened' };
+        const buff = createStatusBuff(names[effect])!;
+
+        // Reapplying refreshes the duration instead of stacking
+        const current = this.player.buffs.find(b => b.name === buff.name);
+        if (current) {
+            current.duration = Math.max(current.duration, buff.duration);
+            return;
+        }
+
+        this.player.addBuff(buff);
+        this.log(`You are ${buff.name.toLowerCase()}!`);
+    }
+
+    tickStatusEffects() {
+        const ticks: [string, number][] = [
+            ['Poisoned', Math.max(1, Math.floor(this.player.stats.maxHp * 0.03))],
+            ['Burning', Math.max(2, Math.floor(this.player.stats.maxHp * 0.05))]
+        ];
+        for (const [name, damage] of ticks) {
+            if (!this.player.buffs.some(b => b.name === name)) continue;
+            this.player.stats.hp = Math.max(0, this.player.stats.hp - damage);
+            this.log(`${name}: -${damage} HP`);
+        }
+        if (this.player.stats.hp <= 0) this.player.isDead = true;
+    }
+
+    // Free floor with no enemy or player on it
+    canEnemyStep(x: number, y: number): boolean {
+        if (this.map.isBlocked(x, y)) return false;
+        if (x === this.player.x && y === this.player.y) return false;
+        return !this.enemies.some(e => !e.isDead && e.x === x && e.y === y);
+    }
+
+    // Move one tile away from the player - false when cornered
+    stepAway(enemy: Enemy): boolean {
+        const dx = enemy.x - this.player.x;
+        const dy = enemy.y - this.player.y;
+        const fleeX = dx > 0 ? 1 : dx < 0 ? -1 : 0;
+        const fleeY = dy > 0 ? 1 : dy < 0 ? -1 : 0;
+
+        const options = [{ x: fleeX, y: fleeY }, { x: fleeX, y: 0 }, { x: 0, y: fleeY }];
+        const step = options.find(o => (o.x !== 0 || o.y !== 0) && this.canEnemyStep(enemy.x + o.x, enemy.y + o.y));
+        if (!step) return false;
+
+        enemy.faceToward(this.player.x, this.player.y);
+        enemy.x += step.x;
+        enemy.y += step.y;
+        return true;
+    }
+
+    // Next tile toward the enemy's quarry, shaped by its behavior pattern
+    getHuntStep(enemy: Enemy): Point | null {
+        let target = enemy.lastKnownPlayer;
+        if (!target) return null;
+
+        // Defensive enemies won't chase out of the room they guard - they go back to their post
+        if (enemy.pattern === 'defensive') {
+            const homeRoom = this.map.getRoomIndexAt(enemy.home.x, enemy.home.y);
+            if (homeRoom !== -1 && this.map.getRoomIndexAt(target.x, target.y) !== homeRoom) {
+                target = enemy.home;
+            }
+        }
+
+        const start = { x: enemy.x, y: enemy.y };
+        if (enemy.pattern === 'tricky' && target === enemy.lastKnownPlayer) {
+            const flank = this.getFlankPath(enemy, target);
+            if (flank) return flank[1];
+        }
+
+        const path = aStar(start, target, (x, y) => this.map.isBlocked(x, y));
+        return path.length > 1 ? path[1] : null;
+    }
+
+    // Tricky enemies come at the player from the side other hunters aren't using,
+    // routing around the direct approach when the detour is short enough
+    getFlankPath(enemy: Enemy, target: Point): Point[] | null {
+        const start = { x: enemy.x, y: enemy.y };
+        const direct = aStar(start, target, (x, y) => this.map.isBlocked(x, y));
+        if (direct.length <= 3) return null; // Close enough to just strike
+
+        const others = this.enemies.filter(e => e !== enemy && !e.isDead && e.alertState === AlertState.Hunting);
+        const sides = [{ x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 }]
+            .map(d => ({ x: target.x + d.x, y: target.y + d.y }))
+            .filter(p => !this.map.isBlocked(p.x, p.y));
+        if (sides.length < 2) return null;
+
+        // Furthest from the other hunters, or failing that the far side from this enemy
+        const score = (p: Point) => others.length > 0
+            ? Math.min(...others.map(o => Math.abs(o.x - p.x) + Math.abs(o.y - p.y)))
+            : Math.abs(enemy.x - p.x) + Math.abs(enemy.y - p.y);
+        const goal = sides.reduce((best, p) => score(p) > score(best) ? p : best);
+
+        // Walls off the direct route and the player's other sides
+        const avoid = new Set(direct.slice(1, -2).map(p => `${p.x},${p.y}`));
+        for (const p of sides) {
+            if (p !== goal) avoid.add(`${p.x},${p.y}`);
+        }
+        avoid.add(`${target.x},${target.y}`);
+        const flank = aStar(start, goal, (x, y) => this.map.isBlocked(x, y) || avoid.has(`${x},${y}`));
+
+        const maxDetour = direct.length + 8;
+        return flank.length > 1 && flank.length <= maxDetour ? flank : null;
+    }
+
+    // Balanced enemies bring nearby allies into the hunt
+    rallyAllies(enemy: Enemy) {
+        for (const ally of this.enemies) {
+            if (ally === enemy || ally.isDead || ally.isGolden || ally === this.reaper) continue;
+            if (ally.alertState === AlertState.Hunting) continue;
+            if (Math.abs(ally.x - enemy.x) + Math.abs(ally.y - enemy.y) > 6) continue;
+            if (!this.map.hasLineOfSight(enemy.x, enemy.y, ally.x, ally.y)) continue;
+            ally.alertState = AlertState.Hunting;
+            ally.alertTimer = HUNT_MEMORY_TURNS;
+            ally.lastKnownPlayer = enemy.lastKnownPlayer;
+        }
+    }
+
+    // Idle movement: defensive enemies pace near their post, balanced ones drift toward allies
+    wanderEnemy(enemy: Enemy) {
+        if (Math.random() >= 0.1) {
+            if (Math.random() < 0.05) {
+                // Glance around
+                enemy.faceToward(enemy.x + getRandomInt(-1, 2), enemy.y + getRandomInt(-1, 2));
+            }
+            return;
+        }
+
+        let dx = Math.floor(Math.random() * 3) - 1;
+        let dy = Math.floor(Math.random() * 3) - 1;
+
+        if (enemy.pattern === 'defensive' &&
+            Math.abs(enemy.x + dx - enemy.home.x) + Math.abs(enemy.y + dy - enemy.home.y) > 3) {
+            dx = Math.sign(enemy.home.x - enemy.x);
+            dy = Math.sign(enemy.home.y - enemy.y);
+        } else if (enemy.pattern === 'balanced') {
+            const ally = this.enemies.find(e => e !== enemy && !e.isDead && !e.isGolden &&
+                Math.abs(e.x - enemy.x) + Math.abs(e.y - enemy.y) <= 8 &&
+                Math.abs(e.x - enemy.x) + Math.abs(e.y - enemy.y) > 2);
+            if (ally) {
+                dx = Math.sign(ally.x - enemy.x);
+                dy = Math.sign(ally.y - enemy.y);
+            }
+        }
+
+        if ((dx !== 0 || dy !== 0) && this.canEnemyStep(enemy.x + dx, enemy.y + dy)) {
+            enemy.faceToward(enemy.x + dx, enemy.y + dy);
+            enemy.x += dx;
+            enemy.y += dy;
+        }
+    }
+
+    // Enemies see ahead of them only; anything right beside them is noticed unless the player sneaks
+    enemySeesPlayer(enemy: Enemy, dist: number): boolean {
+        if (dist > this.getDetectionRange(enemy)) return false;
+        const noticeBehind = this.sneaking ? 0 : 1;
+        if (dist > noticeBehind && !enemy.isFacing(this.player.x, this.player.y)) return false;
+        return this.map.hasLineOfSight(enemy.x, enemy.y, this.player.x, this.player.y);
+    }
+
+    // Sneaking halves sight range, but can't shake off an enemy that is already hunting
+    getDetectionRange(enemy: Enemy): number {
+        if (!this.sneaking || enemy.alertState === AlertState.Hunting) return enemy.aggroRange;
+        return Math.max(1, Math.floor(enemy.aggroRange / 2));
+    }
+
+    // Unaware -> suspicious -> hunting on sight, and back down a level at a time once the player is lost
+    updateAlertState(enemy: Enemy, seesPlayer: boolean, dist: number) {
+        if (enemy === this.reaper) {
+            // The Reaper never loses track
+            enemy.lastKnownPlayer = { x: this.player.x, y: this.player.y };
+            enemy.alertState = AlertState.Hunting;
+            return;
+        }
+        if (seesPlayer) {
+            enemy.lastKnownPlayer = { x: this.player.x, y: this.player.y };
+            enemy.faceToward(this.player.x, this.player.y);
+
+            // A second look, or a close one, is enough to give chase
+            if (enemy.alertState !== AlertState.Unaware || dist * 2 <= this.getDetectionRange(enemy)) {
+                if (enemy.alertState !== AlertState.Hunting && this.map.visible[enemy.y][enemy.x]) {
+                    this.log(`${enemy.name} spots you!`);
+                }
+                enemy.alertState = AlertState.Hunting;
+                enemy.alertTimer = HUNT_MEMORY_TURNS;
             } else {
-                // Random wander if not visible
-                if (Math.random() < 0.1) {
-                    const dx = Math.floor(Math.random() * 3) - 1;
-                    const dy = Math.floor(Math.random() * 3) - 1;
-                    if (!this.map.isBlocked(enemy.x + dx, enemy.y + dy)) {
-                        enemy.x += dx;
-                        enemy.y += dy;
-                    }
-                }
+                enemy.alertState = AlertState.Suspicious;
+                enemy.alertTimer = SUSPICIOUS_TURNS;
             }
+            return;
         }
 
-        // Reaper always pursues the player aggressively
-        this.updateReaper();
+        if (enemy.alertState === AlertState.Unaware) return;
+        enemy.alertTimer--;
+        if (enemy.alertTimer > 0) return;
+
+        if (enemy.alertState === AlertState.Hunting) {
+            enemy.alertState = AlertState.Suspicious;
+            enemy.alertTimer = SUSPICIOUS_TURNS;
+        } else {
+            enemy.alertState = AlertState.Unaware;
+            enemy.lastKnownPlayer = null;
+        }
     }
 
     checkReaperSpawn() {
@@ -1453,6 +2789,7 @@ export class Game {
         this.reaper.stats.defense = 99;
         this.reaper.stats.level = 99;
         this.reaper.aggroRange = 999; // Always knows where player is
+        this.reaper.alertState = AlertState.Hunting;
         this.reaper.color = '#880088'; // Dark purple/magenta
 
         this.enemies.push(this.reaper);
@@ -1506,6 +2843,11 @@ export class Game {
         // Update notification timers
         this.updateNotifications();
 
+        if (this.state === GameState.Map && (this.travelPath.length > 0 || this.autoTravel) && ++this.travelTimer >= TRAVEL_STEP_FRAMES) {
+            this.travelTimer = 0;
+            this.stepTravel();
+        }
+
         // Update puzzle animations
         if (this.state === GameState.Puzzle && this.core) {
             this.core.updatePuzzle();
@@ -1518,21 +2860,45 @@ export class Game {
             }
         }
 
+        if (this.state === GameState.RoomPuzzle && this.activeRoomPuzzle) {
+            updateRoomPuzzle(this.activeRoomPuzzle);
+        }
+
         if (this.state === GameState.Combat && this.combatSystem) {
             this.combatSystem.update();
 
             // Check for combat end conditions
             if (this.combatSystem.phase === CombatPhase.Victory) {
+                if (this.combatSystem.challenge) {
+                    this.resolveChallenge(this.combatSystem);
+                }
                 this.handleEnemyDeath(this.combatSystem.enemy);
                 this.combatSystem.endCombat();
                 this.combatSystem = null;
                 this.state = GameState.Map;
-            } else if (this.combatSystem.phase === CombatPhase.Defeat || this.player.isDead) {
-                this.log("You died in combat!");
+            } else if (this.combatSystem.phase === CombatPhase.Defeat || this.combatSystem.player.isDead) {
+                const fighter = this.combatSystem.player;
                 this.combatSystem.endCombat();
                 this.combatSystem = null;
-                // Full game reset on death
-                this.resetGame();
+                if (this.coopMode) {
+                    this.handleCoopDefeat([fighter]);
+                } else {
+                    this.log("You died in combat!");
+                    // Full game reset on death
+                    this.resetGame();
+                }
+            } else if (this.combatSystem.phase === CombatPhase.Escaped) {
+                // Lost in the smoke - the enemy turns away, but stays wary so bumping it again is no ambush
+                const enemy = this.combatSystem.enemy;
+                const fighter = this.combatSystem.player;
+                enemy.alertState = AlertState.Suspicious;
+                enemy.alertTimer = SUSPICIOUS_TURNS;
+                enemy.lastKnownPlayer = { x: fighter.x, y: fighter.y };
+                enemy.faceToward(2 * enemy.x - fighter.x, 2 * enemy.y - fighter.y);
+                this.combatSystem.endCombat();
+                this.combatSystem = null;
+                this.state = GameState.Map;
+                this.log(`${fighter.name} escaped from ${enemy.name}!`);
             }
         }
 
@@ -1548,25 +2914,46 @@ export class Game {
                         this.handleEnemyDeath(state.enemy);
                     }
                 }
+                if (this.coopMode) {
+                    this.reviveFallenAllies(this.multiCombatSystem.party);
+                }
                 this.multiCombatSystem.endCombat();
                 this.multiCombatSystem = null;
                 this.state = GameState.Map;
-            } else if (this.multiCombatSystem.phase === MultiCombatPhase.Defeat || this.player.isDead) {
-                this.log("Overwhelmed by the swarm!");
+            } else if (this.multiCombatSystem.phase === MultiCombatPhase.Defeat || this.multiCombatSystem.party.every(p => p.isDead)) {
+                const party = this.multiCombatSystem.party;
                 this.multiCombatSystem.endCombat();
                 this.multiCombatSystem = null;
-                this.resetGame();
+                if (this.coopMode) {
+                    this.handleCoopDefeat(party);
+                } else {
+                    this.log("Overwhelmed by the swarm!");
+                    this.resetGame();
+                }
+            }
+        }
+
+        // Online co-op: tell the room about our fights, and catch up with the party once free
+        if (this.coopMode === 'online') {
+            this.syncCoopClaims();
+            if (this.pendingCoopFloor !== null && this.state === GameState.Map) {
+                this.followPartyDown(this.pendingCoopFloor);
             }
         }
     }
 
     // Full game reset when player dies
     resetGame() {
-        localStorage.removeItem('deluge2_save');
-        this.floor = 1;
+        SaveSystem.deleteSlot(this.activeSaveSlot);
         this.logs = ['You have perished... Starting a new adventure.'];
         this.notifications = [];
         this.notify('GAME OVER - Starting New Run', 3000);
+        this.beginNewRun();
+    }
+
+    // Start a fresh run in the active save slot
+    beginNewRun() {
+        this.floor = 1;
 
         // Check for class selection
         this.loadPlayerClasses();
@@ -1583,19 +2970,21 @@ export class Game {
         this.renderer.clear();
 
         if (this.state === GameState.ClassSelect) {
-            this.renderer.drawClassSelection(this.availableClasses, this.selectedClassIndex);
+            this.renderer.drawClassSelection(this.availableClasses, this.selectedClassIndex, this.seedInput, this.isEnteringSeed);
         } else if (this.state === GameState.Combat && this.combatSystem) {
             this.renderer.drawCombat(this.combatSystem);
         } else if (this.state === GameState.MultiCombat && this.multiCombatSystem) {
             this.renderer.drawMultiCombat(this.multiCombatSystem);
         } else if (this.state === GameState.Stats) {
-            this.renderer.drawStats(this.player, this.floor);
+            this.renderer.drawStats(this.player, this.floor, this.seed);
         } else if (this.state === GameState.Equipment) {
             this.renderer.drawEquipment(this.player, this.selectedInventoryIndex, this.menuCursor);
         } else if (this.state === GameState.Crafting) {
             this.renderer.drawCrafting(this.player, this.selectedCraftingIndex);
         } else if (this.state === GameState.Puzzle && this.core) {
             this.renderer.drawPuzzle(this.core);
+        } else if (this.state === GameState.RoomPuzzle && this.activeRoomPuzzle) {
+            this.renderer.drawRoomPuzzle(this.activeRoomPuzzle, this.puzzleCursor, this.lockInput);
         } else if (this.state === GameState.SkillTree && this.currentSkillTree) {
             const skillMap = this.viewingSecondaryTree
                 ? this.player.multiclass.secondarySkills
@@ -1619,14 +3008,37 @@ export class Game {
                 this.multiplayerRoom,
                 this.multiplayerMenuOption,
                 this.isEnteringRoomCode,
-                this.roomCodeInput
+                this.roomCodeInput,
+                this.duelAIDifficulty,
+                this.getDuelRatings(),
+                DuelRanking.getLeaderboard(10),
+                multiplayer.localPlayerName,
+                this.isEditingPlayerName ? this.playerNameInput : null
             );
         } else if (this.state === GameState.DuelSetup && this.duelStats) {
-            this.renderer.drawDuelStatAllocation(this.duelStats, this.duelSelectedStat);
+            this.renderer.drawDuelStatAllocation(this.duelStats, this.duelSelectedStat, this.multiplayerRoom?.settings.bestOf ?? 1);
         } else if (this.state === GameState.Duel && this.duelState) {
-            this.renderer.drawDuel(this.duelState, true); // Always player 1 in local
+            // Always player 1 against the AI; online seats come from the room
+            const watchNames = multiplayer.isSpectator ? this.getDuelistNames() : null;
+            this.renderer.drawDuel(this.duelState, !this.isOnlineDuel() || multiplayer.isPlayer1, watchNames);
+        } else if (this.state === GameState.DuelReplay) {
+            if (this.activeReplay) {
+                const frame = getReplayFrame(this.activeReplay, this.replayTurn);
+                this.renderer.drawDuel(frame, true, [this.activeReplay.player1Name, this.activeReplay.player2Name], true);
+                this.renderer.drawDuelReplayControls(this.activeReplay, this.replayTurn);
+            } else {
+                this.renderer.drawDuelReplayList(DuelReplayManager.getReplays(), this.replaySelectedIndex, this.replayImportError);
+            }
         } else if (this.state === GameState.Trading && this.currentNPC) {
             this.renderer.drawTrading(this.currentNPC, this.traderSelectedIndex, this.player.inventory.gold);
+        } else if (this.state === GameState.TravelMenu) {
+            this.renderer.drawTravelMenu(this.travelDestinations, this.travelMenuIndex, this.player);
+        } else if (this.state === GameState.KeyBindings) {
+            this.renderer.drawKeyBindings(this.bindingCursor, this.bindingSlot, this.isCapturingKey);
+        } else if (this.state === GameState.SaveSlots) {
+            this.renderer.drawSaveSlots(SaveSystem.getSlots(), MAX_SAVE_SLOTS, this.saveSlotCursor, this.activeSaveSlot, this.isNamingSlot, this.slotNameInput, this.saveImportErrors);
+        } else if (this.state === GameState.Shop && this.activeMerchant) {
+            this.renderer.drawShop(this.activeMerchant, this.shopMode, this.shopSelectedIndex, this.player);
         } else if (this.state === GameState.SoulTrading && this.currentNPC) {
             this.renderer.drawSoulTrading(
                 this.currentNPC,
@@ -1644,6 +3056,26 @@ export class Game {
         } else {
             const { camX, camY } = this.renderer.drawMap(this.map, this.player.x, this.player.y);
 
+            for (const torch of this.map.getTorches()) {
+                this.renderer.drawTorch(torch, this.map, camX, camY);
+            }
+
+            for (const plate of this.pressurePlates) {
+                this.renderer.drawPressurePlate(plate, this.map, camX, camY);
+            }
+
+            for (const shrine of this.shrines) {
+                this.renderer.drawShrine(shrine, this.map, camX, camY);
+            }
+
+            for (const merchant of this.merchants) {
+                this.renderer.drawMerchant(merchant, this.map, camX, camY);
+            }
+
+            for (const campfire of this.campfires) {
+                this.renderer.drawCampfire(campfire, this.map, camX, camY);
+            }
+
             // Draw chests
             for (const chest of this.chests) {
                 this.renderer.drawChest(chest, this.map, camX, camY);
@@ -1670,17 +3102,45 @@ export class Game {
 
             for (const enemy of this.enemies) {
                 this.renderer.drawEntity(enemy, this.map, camX, camY);
+                if (!enemy.isGolden && enemy !== this.reaper) {
+                    this.renderer.drawEnemyAwareness(enemy, this.map, camX, camY);
+                }
             }
 
+            // Co-op players
+            for (const peer of this.coopPeers) {
+                if (peer.floor === this.floor) {
+                    this.renderer.drawCoopPeer(peer, this.map, camX, camY);
+                }
+            }
+            if (this.coopPartner && !this.coopPartner.isDead) {
+                this.renderer.drawEntity(this.coopPartner, this.map, camX, camY);
+            }
+
+            this.renderer.drawTravelPath(this.travelPath, camX, camY);
             this.renderer.drawEntity(this.player, this.map, camX, camY);
+            for (const enemy of this.enemies) {
+                if (!enemy.isDead) this.renderer.drawRangedTelegraph(enemy, this.map, camX, camY);
+            }
+            if (this.sneaking) this.renderer.drawSneakOverlay();
             this.renderer.drawMinimap(this.map, this.player);
             this.renderer.drawUI(this.player, this.logs, this.floor);
+            if (this.coopMode) {
+                this.renderer.drawCoopParty(this.player, this.coopPartner, this.coopPeers, this.floor);
+            }
 
             // Draw reaper warning/timer
             const reaperThreshold = Math.floor((this.map.width * this.map.height) / 2);
             this.renderer.drawReaperWarning(this.floorMoveCount, reaperThreshold, this.reaperSpawned);
+
+            if (this.state === GameState.ShrinePrompt && this.activeShrine) {
+                this.renderer.drawShrinePrompt(this.activeShrine, this.floor);
+            }
         }
 
+        const touchLayout = this.touchControls ? this.getTouchLayout() : null;
+        if (touchLayout) this.renderer.drawTouchControls(touchLayout);
+
         // Draw timed notifications on top (combat mode positions them differently)
         const inCombat = this.state === GameState.Combat || this.state === GameState.MultiCombat;
         this.renderer.drawNotifications(this.notifications, this.notificationsEnabled, inCombat);
@@ -1693,18 +3153,33 @@ export class Game {
     handleMultiplayerLobbyInput(key: string) {
         if (this.multiplayerRoom) {
             // In a room
-            if (key === 'Escape') {
+            if (KeyBindings.matches('cancel', key)) {
                 this.multiplayerRoom = null;
                 multiplayer.leaveRoom();
                 return;
             }
-            if (key === 'Enter') {
+            if (KeyBindings.matches('duelSeries', key) && this.multiplayerRoom.mode === 'duel') {
+                this.cycleDuelSeries();
+                return;
+            }
+            if (KeyBindings.matches('duelSpectators', key) && this.multiplayerRoom.mode === 'duel' && multiplayer.isHost) {
+                multiplayer.setAllowSpectators(!this.multiplayerRoom.settings.allowSpectators);
+                return;
+            }
+            if (KeyBindings.matches('confirm', key)) {
                 // Start/Ready
-                if (this.multiplayerRoom.mode === 'duel') {
+                if (multiplayer.isSpectator) {
+                    this.notify('Spectating - the duel will appear once it starts');
+                } else if (this.multiplayerRoom.mode === 'duel') {
                     // Go to stat allocation
                     this.duelStats = multiplayer.createDefaultDuelStats();
                     this.duelSelectedStat = 0;
                     this.state = GameState.DuelSetup;
+                } else if (multiplayer.isHost) {
+                    // Everyone generates the same floor from the host's seed
+                    multiplayer.startCoop(generateSeed(), this.multiplayerRoom.settings.coopFloor);
+                } else {
+                    this.notify('Waiting for the host to start...');
                 }
             }
             return;
@@ -1714,9 +3189,11 @@ export class Game {
             if (key === 'Escape') {
                 this.isEnteringRoomCode = false;
                 this.roomCodeInput = '';
-            } else if (key === 'Enter' && this.roomCodeInput.length === 6) {
-                // Join room (would connect to server in real implementation)
-                this.notify('Room joining not yet implemented (local only)');
+            } else if ((key === 'Enter' || KeyBindings.matches('duelSpectate', key)) && this.roomCodeInput.length === 6) {
+                // The spectate key joins as a read-only spectator
+                const code = this.roomCodeInput;
+                const asSpectator = key !== 'Enter';
+                this.connectToServer(() => multiplayer.joinRoom(code, asSpectator));
                 this.isEnteringRoomCode = false;
             } else if (key === 'Backspace') {
                 this.roomCodeInput = this.roomCodeInput.slice(0, -1);
@@ -1726,33 +3203,60 @@ export class Game {
             return;
         }
 
+        if (this.isEditingPlayerName) {
+            if (key === 'Escape') {
+                this.isEditingPlayerName = false;
+            } else if (key === 'Enter') {
+                multiplayer.setPlayerName(this.playerNameInput);
+                this.isEditingPlayerName = false;
+            } else if (key === 'Backspace') {
+                this.playerNameInput = this.playerNameInput.slice(0, -1);
+            } else if (key.length === 1 && this.playerNameInput.length < MAX_PLAYER_NAME_LENGTH) {
+                this.playerNameInput += key;
+            }
+            return;
+        }
+
         // Main menu navigation
-        if (key === 'Escape') {
+        if (KeyBindings.matches('cancel', key)) {
             this.state = GameState.Map;
-        } else if (key === 'ArrowUp' || key === 'w') {
+        } else if (KeyBindings.matches('duelReplays', key)) {
+            this.openDuelReplays(null);
+        } else if (KeyBindings.matches('duelRename', key)) {
+            // Ratings follow the name, so pick one and keep it
+            this.isEditingPlayerName = true;
+            this.playerNameInput = multiplayer.localPlayerName;
+        } else if (this.multiplayerMenuOption === 0 && (KeyBindings.matches('moveLeft', key))) {
+            this.duelAIDifficulty = Math.max(DuelAIDifficulty.Easy, this.duelAIDifficulty - 1) as DuelAIDifficulty;
+        } else if (this.multiplayerMenuOption === 0 && (KeyBindings.matches('moveRight', key))) {
+            this.duelAIDifficulty = Math.min(DuelAIDifficulty.Master, this.duelAIDifficulty + 1) as DuelAIDifficulty;
+        } else if (KeyBindings.matches('moveUp', key)) {
             this.multiplayerMenuOption = Math.max(0, this.multiplayerMenuOption - 1);
-        } else if (key === 'ArrowDown' || key === 's') {
-            this.multiplayerMenuOption = Math.min(4, this.multiplayerMenuOption + 1);
-        } else if (key === 'Enter') {
+        } else if (KeyBindings.matches('moveDown', key)) {
+            this.multiplayerMenuOption = Math.min(5, this.multiplayerMenuOption + 1);
+        } else if (KeyBindings.matches('confirm', key)) {
             switch (this.multiplayerMenuOption) {
                 case 0: // Create Duel vs AI
                     this.multiplayerRoom = multiplayer.simulateLocalRoom('duel');
-                    multiplayer.addAIOpponent();
+                    multiplayer.addAIOpponent(this.duelAIDifficulty);
                     this.duelStats = multiplayer.createDefaultDuelStats();
                     this.duelSelectedStat = 0;
                     this.state = GameState.DuelSetup;
                     break;
-                case 1: // Create Duel vs Player (placeholder)
-                    this.notify('Online multiplayer coming soon!');
+                case 1: // Create Duel vs Player - host a room on the relay server
+                    this.connectToServer(() => multiplayer.createRoom('duel'));
                     break;
                 case 2: // Join Room
                     this.isEnteringRoomCode = true;
                     this.roomCodeInput = '';
                     break;
-                case 3: // Co-op
-                    this.notify('Co-op dungeon coming soon!');
+                case 3: // Local co-op - second player on the arrow keys
+                    this.startCoopRun('local', generateSeed(), 1);
                     break;
-                case 4: // Back
+                case 4: // Online co-op - host a room on the relay server
+                    this.connectToServer(() => multiplayer.createRoom('coop'));
+                    break;
+                case 5: // Back
                     this.state = GameState.Map;
                     break;
             }
@@ -1762,26 +3266,33 @@ export class Game {
     handleDuelSetupInput(key: string) {
         if (!this.duelStats) return;
 
-        if (key === 'Escape') {
+        if (KeyBindings.matches('cancel', key)) {
             this.state = GameState.MultiplayerLobby;
             this.duelStats = null;
-        } else if (key === 'ArrowUp' || key === 'w') {
+        } else if (KeyBindings.matches('moveUp', key)) {
             this.duelSelectedStat = Math.max(0, this.duelSelectedStat - 1);
-        } else if (key === 'ArrowDown' || key === 's') {
+        } else if (KeyBindings.matches('moveDown', key)) {
             this.duelSelectedStat = Math.min(4, this.duelSelectedStat + 1);
-        } else if (key === 'ArrowRight' || key === 'd') {
+        } else if (KeyBindings.matches('moveRight', key)) {
             const stats = ['hp', 'attack', 'defense', 'mana', 'speed'] as const;
             this.duelStats = multiplayer.allocateStat(stats[this.duelSelectedStat], this.duelStats);
-        } else if (key === 'ArrowLeft' || key === 'a') {
+        } else if (KeyBindings.matches('moveLeft', key)) {
             const stats = ['hp', 'attack', 'defense', 'mana', 'speed'] as const;
             this.duelStats = multiplayer.deallocateStat(stats[this.duelSelectedStat], this.duelStats);
-        } else if (key === 'Enter') {
+        } else if (KeyBindings.matches('duelSeries', key)) {
+            this.cycleDuelSeries();
+        } else if (KeyBindings.matches('confirm', key)) {
             if (this.duelStats.pointsRemaining === 0) {
                 // Start duel
                 const aiStats = this.multiplayerRoom?.players.find(p => p.id.startsWith('AI_'))?.stats;
                 if (aiStats) {
-                    this.duelState = multiplayer.initDuelState(this.duelStats, aiStats);
+                    const bestOf = this.multiplayerRoom?.settings.bestOf ?? 1;
+                    this.duelState = multiplayer.initDuelState(this.duelStats, aiStats, { bestOf, player1Wins: 0, player2Wins: 0 });
                     this.state = GameState.Duel;
+                } else if (multiplayer.connected) {
+                    // Online - the server starts the duel once both builds are in
+                    multiplayer.setReady(true, this.duelStats);
+                    this.notify('Ready! Waiting for opponent...');
                 }
             } else {
                 this.notify(`Allocate all points first! (${this.duelStats.pointsRemaining} remaining)`);
@@ -1792,11 +3303,31 @@ export class Game {
     handleDuelInput(key: string) {
         if (!this.duelState) return;
 
+        // Spectators watch - they can only leave or open the replay
+        if (multiplayer.isSpectator) {
+            if (KeyBindings.matches('cancel', key)) {
+                this.leaveDuel();
+            } else if (KeyBindings.matches('duelReplays', key) && this.duelState.phase === DuelPhase.Victory && this.lastDuelReplay) {
+                this.leaveDuel();
+                this.openDuelReplays(this.lastDuelReplay);
+            }
+            return;
+        }
+
         if (this.duelState.phase === DuelPhase.Victory) {
-            if (key === 'Escape') {
-                this.duelState = null;
-                this.multiplayerRoom = null;
-                this.state = GameState.Map;
+            if (KeyBindings.matches('cancel', key)) {
+                this.leaveDuel();
+            } else if (KeyBindings.matches('confirm', key)) {
+                // Same builds again - next game of the series, or a fresh series
+                if (this.isOnlineDuel()) {
+                    multiplayer.requestRematch();
+                    this.notify('Rematch requested - waiting for opponent...', 2000);
+                } else {
+                    this.duelState = multiplayer.rematchDuel(this.duelState);
+                }
+            } else if (KeyBindings.matches('duelReplays', key) && this.lastDuelReplay) {
+                this.leaveDuel();
+                this.openDuelReplays(this.lastDuelReplay);
             }
             return;
         }
@@ -1812,30 +3343,675 @@ export class Game {
         if (this.duelState.phase === DuelPhase.SelectAction) {
             let playerAction: typeof DuelAction[keyof typeof DuelAction] | null = null;
 
-            if (key === '1') playerAction = DuelAction.Strike;
-            else if (key === '2') playerAction = DuelAction.Guard;
-            else if (key === '3') playerAction = DuelAction.Feint;
-            else if (key === '4') playerAction = DuelAction.HeavyStrike;
-            else if (key === 'q' || key === 'Q') playerAction = DuelAction.Heal;
-            else if (key === 'w' || key === 'W') playerAction = DuelAction.Fireball;
-            else if (key === 'Escape') {
+            if (KeyBindings.matches('duelStrike', key)) playerAction = DuelAction.Strike;
+            else if (KeyBindings.matches('duelGuard', key)) playerAction = DuelAction.Guard;
+            else if (KeyBindings.matches('duelFeint', key)) playerAction = DuelAction.Feint;
+            else if (KeyBindings.matches('duelHeavy', key)) playerAction = DuelAction.HeavyStrike;
+            else if (KeyBindings.matches('duelHeal', key)) playerAction = DuelAction.Heal;
+            else if (KeyBindings.matches('duelFireball', key)) playerAction = DuelAction.Fireball;
+            else if (KeyBindings.matches('cancel', key)) {
                 // Forfeit
-                this.duelState = null;
-                this.multiplayerRoom = null;
-                this.state = GameState.Map;
+                this.leaveDuel();
                 return;
             }
 
-            if (playerAction) {
+            if (playerAction && this.isOnlineDuel()) {
+                // Online - the server resolves the turn once both actions are in
+                if (this.duelActionSubmitted) return;
+                multiplayer.submitDuelAction(playerAction);
+                this.duelActionSubmitted = true;
+                this.notify('Action locked in - waiting for opponent...', 1500);
+            } else if (playerAction) {
                 // Get AI action
                 const aiAction = multiplayer.getAIAction(this.duelState);
                 // Resolve turn
                 this.duelState = multiplayer.resolveDuelTurn(this.duelState, playerAction, aiAction);
+                if (this.duelState.phase === DuelPhase.Victory) this.recordDuelResult(this.duelState);
+            }
+        }
+    }
+
+    // ============================================
+    // CO-OP
+    // ============================================
+
+    setupMultiplayerCallbacks() {
+        multiplayer.onRoomUpdate = (room) => {
+            this.multiplayerRoom = room;
+            // Whoever left takes their peer marker and fight claims with them
+            this.coopPeers = multiplayer.coopPeers;
+            this.coopClaims.forEach((playerId, enemyId) => {
+                if (!room.players.some(p => p.id === playerId)) this.coopClaims.delete(enemyId);
+            });
+        };
+        multiplayer.onError = (error) => this.notify(`Multiplayer: ${error}`, 3000);
+        multiplayer.onDisconnect = () => {
+            if (this.coopMode === 'online') {
+                this.notify('Lost connection to the co-op server', 3000);
+                this.leaveCoop();
+            }
+        };
+        multiplayer.onDuelUpdate = (duel) => {
+            if (duel.phase === DuelPhase.Victory && this.duelState?.phase !== DuelPhase.Victory) {
+                this.recordDuelResult(duel);
+            }
+            this.duelState = duel;
+            this.duelActionSubmitted = false;
+            if (this.state === GameState.DuelSetup || this.state === GameState.MultiplayerLobby) {
+                this.state = GameState.Duel;
+            }
+        };
+        multiplayer.onRoomClosed = () => {
+            this.notify('The room was closed', 3000);
+            this.duelState = null;
+            this.multiplayerRoom = null;
+            this.state = GameState.MultiplayerLobby;
+        };
+        multiplayer.onRematchVote = (name) => this.notify(`${name} wants a rematch - [ENTER] to accept`, 3000);
+        multiplayer.onCoopStart = (seed, floor) => this.startCoopRun('online', seed, floor);
+        multiplayer.onCoopUpdate = (peers) => {
+            const moved = peers.some(peer => {
+                const last = this.coopPeers.find(p => p.id === peer.id);
+                return peer.floor === this.floor && (!last || last.x !== peer.x || last.y !== peer.y);
+            });
+            this.coopPeers = peers;
+
+            // Like a local partner's step, a peer's step is a turn for the host's enemies
+            if (moved && this.coopMode === 'online' && multiplayer.isHost && this.state === GameState.Map) {
+                this.updateEnemies();
+                if (this.player.isDead) {
+                    this.handleCoopDefeat([this.player]);
+                    return;
+                }
+                this.sendCoopEnemies();
+            }
+        };
+        multiplayer.onCoopEnemies = (floor, enemies) => this.applyCoopEnemies(floor, enemies);
+        multiplayer.onCoopEvent = (playerId, event) => this.applyCoopEvent(playerId, event);
+    }
+
+    // Connect to the relay server (once), then run the room action
+    connectToServer(onConnected: () => void) {
+        if (multiplayer.connected) {
+            onConnected();
+            return;
+        }
+        this.notify('Connecting...', 1500);
+        multiplayer.connect(DEFAULT_SERVER_URL)
+            .then(onConnected)
+            .catch(() => this.notify(`Could not reach ${DEFAULT_SERVER_URL}`, 3000));
+    }
+
+    startCoopRun(mode: 'local' | 'online', seed: number, floor: number) {
+        // Park the solo run in its slot before the shared floor replaces it
+        if (!this.coopMode && this.player) this.saveGame();
+
+        this.coopMode = mode;
+        this.seed = seed;
+        this.floor = floor;
+        this.player = new Player(0, 0);
+        this.coopPartner = null;
+        if (mode === 'local') {
+            this.coopPartner = new Player(0, 0);
+            this.coopPartner.name = 'Player 2';
+            this.coopPartner.color = '#f84';
+        }
+        this.coopPeers = [];
+        this.pendingCoopFloor = null;
+        this.logs = [];
+        this.generateLevel();
+        this.state = GameState.Map;
+        this.log(mode === 'local' ? 'Co-op! P1: WASD, P2: Arrow keys. [ESC] Leave' : 'Co-op run started! [ESC] Leave');
+        this.notify(`CO-OP - Floor ${floor}`, 2000);
+    }
+
+    leaveCoop() {
+        if (this.coopMode === 'online') {
+            multiplayer.leaveRoom();
+            multiplayer.disconnect();
+            this.multiplayerRoom = null;
+        }
+        this.coopMode = null;
+        this.coopPartner = null;
+        this.coopPeers = [];
+        this.coopClaims.clear();
+        this.coopFighting = [];
+        this.pendingCoopFloor = null;
+        this.combatSystem = null;
+        this.multiCombatSystem = null;
+
+        // Back to the solo run
+        if (!this.loadGame()) {
+            this.beginNewRun();
+        }
+    }
+
+    // Drop player 2 next to player 1
+    placeCoopPartner(partner: Player) {
+        const offsets = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+        const spot = offsets.find(o => !this.map.isBlocked(this.player.x + o.x, this.player.y + o.y)) ?? { x: 0, y: 0 };
+        partner.x = this.player.x + spot.x;
+        partner.y = this.player.y + spot.y;
+    }
+
+    // Recompute what every local player can see
+    refreshFOV() {
+        const radius = getSightRadius(this.floor);
+        const lights = this.getLightSources();
+        this.map.computeFOV(this.player.x, this.player.y, radius, true, lights);
+        if (this.coopPartner && !this.coopPartner.isDead) {
+            this.map.computeFOV(this.coopPartner.x, this.coopPartner.y, radius, false, lights);
+        }
+    }
+
+    // Room torches, armed fire traps and shrines that still hold their power
+    getLightSources(): LightSource[] {
+        return [
+            ...this.map.getTorches(),
+            ...this.traps.filter(t => t.trapType === 'fire' && !t.triggered).map(t => ({ x: t.x, y: t.y, radius: 2 })),
+            ...this.shrines.filter(s => !s.used).map(s => ({ x: s.x, y: s.y, radius: 3 })),
+            ...this.campfires.filter(c => !c.used).map(c => ({ x: c.x, y: c.y, radius: 3 }))
+        ];
+    }
+
+    moveCoopPartner(key: string) {
+        const partner = this.coopPartner;
+        if (!partner || partner.isDead) return;
+
+        let dx = 0;
+        let dy = 0;
+        if (KeyBindings.matches('partnerUp', key)) dy = -1;
+        if (KeyBindings.matches('partnerDown', key)) dy = 1;
+        if (KeyBindings.matches('partnerLeft', key)) dx = -1;
+        if (KeyBindings.matches('partnerRight', key)) dx = 1;
+        const destX = partner.x + dx;
+        const destY = partner.y + dy;
+
+        const enemy = this.enemies.find(e => e.x === destX && e.y === destY);
+        if (enemy) {
+            this.startCoopCombat(partner, enemy);
+            return;
+        }
+
+        // Both players share one screen
+        if (Math.abs(destX - this.player.x) > 11 || Math.abs(destY - this.player.y) > 6) {
+            this.notify('Stay close together!', 1000);
+            return;
+        }
+
+        // Player 2 walks around interactables - chests, shops and the core are player 1's
+        const occupied = (p: { x: number; y: number }) => p.x === destX && p.y === destY;
+        if (this.map.isBlocked(destX, destY) || occupied(this.player) ||
+            (this.core && occupied(this.core)) || this.npcs.some(occupied) ||
+            this.merchants.some(occupied) || this.campfires.some(occupied)) {
+            return;
+        }
+
+        partner.move(dx, dy);
+
+        // Potions are used on the spot
+        const itemIndex = this.items.findIndex(i => occupied(i) && i.type === ItemType.Potion);
+        if (itemIndex !== -1) {
+            const item = this.items[itemIndex];
+            if (item.name.includes('Health')) {
+                partner.heal(item.value);
+            } else {
+                partner.restoreMana(item.value);
+            }
+            this.log(`${partner.name} drinks a ${item.name}.`);
+            this.items.splice(itemIndex, 1);
+        }
+
+        partner.updateBuffs();
+        this.refreshFOV();
+        this.updateEnemies();
+    }
+
+    // Co-op fights are shared through MultiCombatSystem when the other player can help
+    startCoopCombat(fighter: Player, enemy: Enemy) {
+        const ally = fighter === this.player ? this.coopPartner : this.player;
+        const allyDist = ally ? Math.abs(ally.x - enemy.x) + Math.abs(ally.y - enemy.y) : Infinity;
+
+        // Challenge rooms stay solo trials
+        if (ally && !ally.isDead && allyDist <= 8 && !enemy.challenge) {
+            const enemies = this.enemies.filter(e =>
+                !e.isDead && Math.abs(e.x - enemy.x) + Math.abs(e.y - enemy.y) <= 3
+            );
+            this.multiCombatSystem = new MultiCombatSystem(fighter, enemies, ally);
+            this.state = GameState.MultiCombat;
+            this.log(`${fighter.name} and ${ally.name} fight together!`);
+            this.notify('CO-OP BATTLE!', 2000);
+            return;
+        }
+
+        this.combatSystem = new CombatSystem(fighter, enemy, enemy.challenge);
+        this.state = GameState.Combat;
+        this.log(`${fighter.name} engages ${enemy.name}!`);
+    }
+
+    // Downed co-op players get back up if anyone is still standing; otherwise the run ends
+    handleCoopDefeat(fallen: Player[]) {
+        const standing = [this.player, this.coopPartner].filter(p => p && !p.isDead && !fallen.includes(p));
+        if (standing.length === 0) {
+            this.notify('PARTY DEFEATED - Co-op run over', 3000);
+            this.leaveCoop();
+            return;
+        }
+        this.reviveFallenAllies(fallen);
+        this.state = GameState.Map;
+    }
+
+    reviveFallenAllies(party: Player[]) {
+        for (const member of party) {
+            if (!member.isDead) continue;
+            member.isDead = false;
+            member.stats.hp = Math.max(1, Math.floor(member.stats.maxHp * 0.25));
+            this.log(`${member.name} is pulled back to their feet!`);
+        }
+    }
+
+    // Player 2 shares every kill's XP
+    grantPartnerXp(xp: number) {
+        const partner = this.coopPartner;
+        if (!partner) return;
+        partner.stats.xp += xp;
+        while (partner.stats.xp >= partner.stats.level * 100) {
+            partner.stats.xp -= partner.stats.level * 100;
+            partner.levelUp();
+            this.log(`${partner.name} reached level ${partner.stats.level}!`);
+        }
+    }
+
+    // Broadcast our position and vitals to the co-op room
+    syncCoopState() {
+        if (this.coopMode !== 'online') return;
+        multiplayer.sendCoopState({
+            x: this.player.x,
+            y: this.player.y,
+            floor: this.floor,
+            hp: this.player.stats.hp,
+            maxHp: this.player.stats.maxHp,
+            level: this.player.stats.level,
+            char: this.player.char,
+            color: this.player.color
+        });
+        if (multiplayer.isHost) this.sendCoopEnemies();
+    }
+
+    // Host only - the shared enemies after our turn
+    sendCoopEnemies() {
+        const enemies: CoopEnemyState[] = [];
+        this.coopEnemyIds.forEach((id, enemy) => {
+            enemies.push({ id, x: enemy.x, y: enemy.y, hp: enemy.stats.hp });
+        });
+        multiplayer.sendCoopEnemies(this.floor, enemies);
+    }
+
+    // Guests take the host's word for where shared enemies are; ones it no longer lists are dead
+    applyCoopEnemies(floor: number, snapshot: CoopEnemyState[]) {
+        if (this.coopMode !== 'online' || multiplayer.isHost || floor !== this.floor) return;
+        const states = new Map(snapshot.map(s => [s.id, s]));
+        this.coopEnemyIds.forEach((id, enemy) => {
+            if (this.isFightingLocally(enemy)) return;
+            const state = states.get(id);
+            if (!state) {
+                this.coopEnemyIds.delete(enemy);
+                this.enemies = this.enemies.filter(e => e !== enemy);
+                return;
+            }
+            if (enemy.x !== state.x || enemy.y !== state.y) enemy.faceToward(state.x, state.y);
+            enemy.x = state.x;
+            enemy.y = state.y;
+            enemy.stats.hp = state.hp;
+        });
+    }
+
+    applyCoopEvent(playerId: string, event: CoopEvent) {
+        if (this.coopMode !== 'online') return;
+        if (event.kind === 'descend') {
+            if (event.floor > this.floor) this.pendingCoopFloor = Math.max(this.pendingCoopFloor ?? 0, event.floor);
+            return;
+        }
+        if (event.floor !== this.floor) return;
+
+        const findEnemy = (id: number) => this.enemies.find(e => this.coopEnemyIds.get(e) === id);
+        switch (event.kind) {
+            case 'claim':
+                for (const id of event.ids) this.coopClaims.set(id, playerId);
+                break;
+            case 'release':
+                for (const { id, hp } of event.enemies) {
+                    this.coopClaims.delete(id);
+                    const enemy = findEnemy(id);
+                    if (enemy && !this.isFightingLocally(enemy)) {
+                        enemy.stats.hp = Math.max(1, Math.min(enemy.stats.maxHp, hp));
+                    }
+                }
+                break;
+            case 'kill': {
+                this.coopClaims.delete(event.id);
+                const enemy = findEnemy(event.id);
+                if (!enemy) break;
+                this.coopEnemyIds.delete(enemy);
+                // Both of us got to it at once - our own fight still plays out
+                if (this.isFightingLocally(enemy)) break;
+                this.enemies = this.enemies.filter(e => e !== enemy);
+                const peer = this.coopPeers.find(p => p.id === playerId);
+                this.log(`${peer?.name ?? 'Your ally'} defeated ${enemy.name}.`);
+                // The party shares every kill's XP
+                this.gainXp(event.xp + Math.floor(event.xp * this.player.stats.xpBonus));
+                break;
+            }
+            case 'ambush': {
+                if (event.target !== multiplayer.localPlayerId) break;
+                const enemy = findEnemy(event.id);
+                if (!enemy) break;
+                if (this.state !== GameState.Map || this.player.isDead) {
+                    // Busy - the host's enemy goes back to hunting
+                    multiplayer.sendCoopEvent({ kind: 'release', floor: this.floor, enemies: [{ id: event.id, hp: enemy.stats.hp }] });
+                    break;
+                }
+                enemy.alertState = AlertState.Hunting; // It came for us - no ambush bonus
+                this.log(`${enemy.name} attacks!`);
+                this.startCombat(enemy);
+                this.notify('Combat Started!', 1500);
+                break;
+            }
+        }
+    }
+
+    // Host only - a shared enemy next to a peer attacks them, the way it would attack us
+    ambushCoopPeers() {
+        if (this.coopMode !== 'online' || !multiplayer.isHost) return;
+        this.coopEnemyIds.forEach((id, enemy) => {
+            if (enemy.isGolden || this.coopClaims.has(id) || this.isFightingLocally(enemy)) return;
+            const peer = this.coopPeers.find(p =>
+                p.floor === this.floor && p.hp > 0 && Math.abs(p.x - enemy.x) + Math.abs(p.y - enemy.y) === 1
+            );
+            if (!peer) return;
+            this.coopClaims.set(id, peer.id);
+            multiplayer.sendCoopEvent({ kind: 'ambush', floor: this.floor, id, target: peer.id });
+        });
+    }
+
+    // Claim the shared enemies we're fighting, and hand back the ones that survived
+    syncCoopClaims() {
+        const fighting: number[] = [];
+        this.coopEnemyIds.forEach((id, enemy) => {
+            if (this.isFightingLocally(enemy)) fighting.push(id);
+        });
+        const claimed = fighting.filter(id => !this.coopFighting.includes(id));
+        const released = this.coopFighting.filter(id => !fighting.includes(id));
+        this.coopFighting = fighting;
+
+        if (claimed.length > 0) {
+            multiplayer.sendCoopEvent({ kind: 'claim', floor: this.floor, ids: claimed });
+        }
+        // Kills were already reported - only survivors are handed back
+        const survivors = this.enemies
+            .filter(e => released.includes(this.coopEnemyIds.get(e) ?? -1))
+            .map(e => ({ id: this.coopEnemyIds.get(e) ?? -1, hp: e.stats.hp }));
+        if (survivors.length > 0) {
+            multiplayer.sendCoopEvent({ kind: 'release', floor: this.floor, enemies: survivors });
+        }
+    }
+
+    reportCoopKill(enemy: Entity) {
+        if (!(enemy instanceof Enemy)) return;
+        const id = this.coopEnemyIds.get(enemy);
+        if (id === undefined) return;
+        this.coopEnemyIds.delete(enemy);
+        if (this.coopMode === 'online') {
+            multiplayer.sendCoopEvent({ kind: 'kill', floor: this.floor, id, xp: enemy.stats.xp });
+        }
+    }
+
+    // The core fell to someone else - the party keeps to one floor
+    followPartyDown(floor: number) {
+        this.pendingCoopFloor = null;
+        if (floor <= this.floor) return;
+        this.floor = floor;
+        this.player.clearFloorBuffs();
+        this.renderer.setBiome(this.floor);
+        this.log('Your party destroyed the Dungeon Core - following them down...');
+        this.notify(`Floor ${this.floor} - ${getBiomeName(this.floor)}!`, 2500);
+        this.generateLevel();
+    }
+
+    isFightingLocally(enemy: Enemy): boolean {
+        return this.combatSystem?.enemy === enemy || !!this.multiCombatSystem?.enemies.some(s => s.enemy === enemy);
+    }
+
+    isClaimedByPeer(enemy: Enemy): boolean {
+        const id = this.coopEnemyIds.get(enemy);
+        return this.coopMode === 'online' && id !== undefined && this.coopClaims.has(id);
+    }
+
+    // On a guest, shared enemies move only when the host's snapshot says so
+    isHostControlled(enemy: Enemy): boolean {
+        if (this.coopMode !== 'online' || multiplayer.isHost || !this.coopEnemyIds.has(enemy)) return false;
+        const hostId = multiplayer.room?.hostId;
+        return this.coopPeers.some(p => p.id === hostId && p.floor === this.floor);
+    }
+
+    // Online duels are resolved by the relay server, AI duels locally
+    isOnlineDuel(): boolean {
+        return multiplayer.connected && !this.multiplayerRoom?.players.some(p => p.id.startsWith('AI_'));
+    }
+
+    leaveDuel() {
+        if (this.isOnlineDuel()) {
+            multiplayer.leaveRoom();
+        }
+        this.duelState = null;
+        this.duelActionSubmitted = false;
+        this.multiplayerRoom = null;
+        this.state = GameState.Map;
+    }
+
+    // ============================================
+    // DUEL RESULTS - Replays and ladder
+    // ============================================
+
+    getDuelistNames(): [string, string] {
+        const players = this.multiplayerRoom?.players ?? [];
+        return [players[0]?.name ?? 'Player 1', players[1]?.name ?? 'Player 2'];
+    }
+
+    // Save the replay and, if the local player fought, rate the game on the local ladder
+    recordDuelResult(duel: DuelState) {
+        const [player1Name, player2Name] = this.getDuelistNames();
+        const replay = createDuelReplay(duel, player1Name, player2Name);
+        DuelReplayManager.saveReplay(replay);
+        this.lastDuelReplay = replay;
+        if (multiplayer.isDuelist) {
+            DuelRanking.recordResult(replay.player1Name, replay.player2Name, duel.winnerId);
+        }
+    }
+
+    // Ratings for everyone the lobby shows
+    getDuelRatings(): Map<string, DuelRating> {
+        const names = [multiplayer.localPlayerName, ...(this.multiplayerRoom?.players.map(p => p.name) ?? [])];
+        return new Map(names.map(name => [name, DuelRanking.getRating(name)]));
+    }
+
+    // Host steps the room through best of 1 / 3 / 5
+    cycleDuelSeries() {
+        if (!this.multiplayerRoom || !multiplayer.isHost) return;
+        const index = DUEL_SERIES_LENGTHS.indexOf(this.multiplayerRoom.settings.bestOf);
+        multiplayer.setBestOf(DUEL_SERIES_LENGTHS[(index + 1) % DUEL_SERIES_LENGTHS.length]);
+    }
+
+    // Open the replay list, or jump straight into a replay
+    openDuelReplays(replay: DuelReplay | null) {
+        this.activeReplay = replay;
+        this.replayTurn = 0;
+        this.replaySelectedIndex = 0;
+        this.replayImportError = null;
+        this.state = GameState.DuelReplay;
+    }
+
+    handleDuelReplayInput(key: string) {
+        if (this.activeReplay) {
+            // Viewer - step through the duel turn by turn
+            if (KeyBindings.matches('moveLeft', key)) {
+                this.replayTurn = Math.max(0, this.replayTurn - 1);
+            } else if (KeyBindings.matches('moveRight', key) || key === ' ') {
+                this.replayTurn = Math.min(this.activeReplay.history.length, this.replayTurn + 1);
+            } else if (KeyBindings.matches('replayFirst', key)) {
+                this.replayTurn = 0;
+            } else if (KeyBindings.matches('replayLast', key)) {
+                this.replayTurn = this.activeReplay.history.length;
+            } else if (KeyBindings.matches('exportFile', key)) {
+                this.exportDuelReplay(this.activeReplay);
+            } else if (KeyBindings.matches('cancel', key)) {
+                this.activeReplay = null;
+            }
+            return;
+        }
+
+        const replays = DuelReplayManager.getReplays();
+        if (KeyBindings.matches('cancel', key)) {
+            this.state = GameState.MultiplayerLobby;
+        } else if (KeyBindings.matches('moveUp', key)) {
+            this.replaySelectedIndex = Math.max(0, this.replaySelectedIndex - 1);
+        } else if (KeyBindings.matches('moveDown', key)) {
+            this.replaySelectedIndex = Math.min(Math.max(0, replays.length - 1), this.replaySelectedIndex + 1);
+        } else if (KeyBindings.matches('importFile', key)) {
+            this.importDuelReplay();
+        }
+
+        const selected = replays[this.replaySelectedIndex];
+        if (!selected) return;
+        if (KeyBindings.matches('confirm', key)) {
+            this.activeReplay = selected;
+            this.replayTurn = 0;
+        } else if (KeyBindings.matches('exportFile', key)) {
+            this.exportDuelReplay(selected);
+        } else if (KeyBindings.matches('delete', key)) {
+            DuelReplayManager.deleteReplay(selected.id);
+            this.replaySelectedIndex = Math.max(0, Math.min(this.replaySelectedIndex, replays.length - 2));
+            this.notify('Replay deleted');
+        }
+    }
+
+    exportDuelReplay(replay: DuelReplay) {
+        const json = DuelReplayManager.exportReplay(replay);
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `duel-${replay.player1Name}-vs-${replay.player2Name}`.replace(/[^A-Za-z0-9_-]+/g, '_') + '.json';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        this.notify('Replay exported');
+    }
+
+    importDuelReplay() {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json';
+        input.addEventListener('change', async () => {
+            const file = input.files?.[0];
+            if (!file) return;
+
+            let text: string;
+            try {
+                text = await file.text();
+            } catch (e) {
+                console.error('Failed to read replay file:', e);
+                this.replayImportError = `Could not read ${file.name}`;
+                this.notify(`Import failed: could not read ${file.name}`, 4000);
+                return;
+            }
+
+            const replay = DuelReplayManager.importReplay(text);
+            if (!replay) {
+                this.replayImportError = `${file.name} is not a valid duel replay`;
+                return;
             }
+            DuelReplayManager.saveReplay(replay);
+            this.replayImportError = null;
+            this.replaySelectedIndex = 0;
+            this.notify(`Imported replay: ${replay.player1Name} vs ${replay.player2Name}`);
+        });
+        input.click();
+    }
+
+    // What the controller's buttons send on the current screen
+    getGamepadLayout(): GamepadLayout {
+        const { menu } = GAMEPAD_LAYOUTS;
+        switch (this.state) {
+            case GameState.Map:
+                return GAMEPAD_LAYOUTS.map;
+            case GameState.Combat:
+                return this.combatSystem?.phase === CombatPhase.SelectAction ? GAMEPAD_LAYOUTS.combat : menu;
+            case GameState.MultiCombat:
+                return this.multiCombatSystem?.phase === MultiCombatPhase.SelectAction ? GAMEPAD_LAYOUTS.combat : menu;
+            case GameState.Duel:
+                if (this.duelState?.phase === DuelPhase.SelectAction && !multiplayer.isSpectator) return GAMEPAD_LAYOUTS.duel;
+                return { ...menu, [GamepadButton.X]: 'duelReplays' };
+            case GameState.LevelUp:
+                return GAMEPAD_LAYOUTS.digits;
+            case GameState.Puzzle:
+                // Cipher answers still need a keyboard
+                return this.core?.puzzleType === 'slider' ? menu : GAMEPAD_LAYOUTS.digits;
+            case GameState.RoomPuzzle:
+                return this.activeRoomPuzzle?.type === 'light_redirect' ? menu : GAMEPAD_LAYOUTS.digits;
+            case GameState.Equipment:
+                return { ...menu, [GamepadButton.X]: 'unequip' };
+            case GameState.SkillTree:
+                return { ...menu, [GamepadButton.X]: 'switchTree' };
+            case GameState.SaveSlots:
+                return {
+                    ...menu,
+                    [GamepadButton.X]: 'newRun',
+                    [GamepadButton.Y]: 'rename',
+                    [GamepadButton.LB]: 'exportFile',
+                    [GamepadButton.RB]: 'importFile',
+                    [GamepadButton.Back]: 'delete'
+                };
+            case GameState.MultiplayerLobby:
+                return {
+                    ...menu,
+                    [GamepadButton.X]: 'duelReplays',
+                    [GamepadButton.Y]: 'duelSeries',
+                    [GamepadButton.Back]: 'duelSpectators',
+                    [GamepadButton.RB]: 'duelSpectate'
+                };
+            case GameState.DuelSetup:
+                return { ...menu, [GamepadButton.Y]: 'duelSeries' };
+            case GameState.DuelReplay:
+                return {
+                    ...menu,
+                    [GamepadButton.X]: 'exportFile',
+                    [GamepadButton.Y]: 'importFile',
+                    [GamepadButton.LB]: 'replayFirst',
+                    [GamepadButton.RB]: 'replayLast',
+                    [GamepadButton.Back]: 'delete'
+                };
+            case GameState.KeyBindings:
+                // The rebind screen only listens to fixed keys
+                return {
+                    [GamepadButton.Up]: { key: 'ArrowUp' },
+                    [GamepadButton.Down]: { key: 'ArrowDown' },
+                    [GamepadButton.Left]: { key: 'ArrowLeft' },
+                    [GamepadButton.Right]: { key: 'ArrowRight' },
+                    [GamepadButton.A]: { key: 'Enter' },
+                    [GamepadButton.B]: { key: 'Escape' },
+                    [GamepadButton.X]: { key: 'Backspace' },
+                    [GamepadButton.Y]: { key: 'r' }
+                };
+            default:
+                return menu;
         }
     }
 
     loop() {
+        this.inputHandler.pollGamepads(this.getGamepadLayout());
         this.update();
         this.draw();
         requestAnimationFrame(this.loop.bind(this));
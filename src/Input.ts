@@ -1,8 +1,118 @@
+import { KeyBindings, type BindingAction } from './KeyBindings';
+
+// Standard Gamepad API button indices
+export const GamepadButton = {
+    A: 0,
+    B: 1,
+    X: 2,
+    Y: 3,
+    LB: 4,
+    RB: 5,
+    LT: 6,
+    RT: 7,
+    Back: 8,
+    Start: 9,
+    LeftStick: 10,
+    RightStick: 11,
+    Up: 12,
+    Down: 13,
+    Left: 14,
+    Right: 15
+} as const;
+
+export type GamepadButton = typeof GamepadButton[keyof typeof GamepadButton];
+
+// A button either fires a bound action (sent as its current key) or a fixed key
+export type GamepadInput = BindingAction | { key: string };
+export type GamepadLayout = Partial<Record<GamepadButton, GamepadInput>>;
+
+const STICK_DEADZONE = 0.5;
+const REPEAT_DELAY = 350; // ms before a held D-pad direction starts repeating
+const REPEAT_INTERVAL = 120;
+
+const DPAD: GamepadLayout = {
+    [GamepadButton.Up]: 'moveUp',
+    [GamepadButton.Down]: 'moveDown',
+    [GamepadButton.Left]: 'moveLeft',
+    [GamepadButton.Right]: 'moveRight'
+};
+
+// Button layouts per context - the game picks one each frame
+export const GAMEPAD_LAYOUTS = {
+    // Exploring: shoulders open inventory, skills and crafting
+    map: {
+        ...DPAD,
+        [GamepadButton.A]: 'confirm',
+        [GamepadButton.B]: 'cancel',
+        [GamepadButton.X]: 'skill1',
+        [GamepadButton.Y]: 'skill2',
+        [GamepadButton.LB]: 'equipment',
+        [GamepadButton.RB]: 'skillTree',
+        [GamepadButton.LT]: 'crafting',
+        [GamepadButton.RT]: 'multiclass',
+        [GamepadButton.Back]: 'saves',
+        [GamepadButton.Start]: 'stats',
+        [GamepadButton.LeftStick]: 'multiplayer',
+        [GamepadButton.RightStick]: 'keyBindings'
+    },
+    // Menus only get navigation, confirm and back - screens add their own extras
+    menu: {
+        ...DPAD,
+        [GamepadButton.A]: 'confirm',
+        [GamepadButton.B]: 'cancel'
+    },
+    combat: {
+        ...DPAD,
+        [GamepadButton.A]: 'combatStrike',
+        [GamepadButton.B]: 'combatGuard',
+        [GamepadButton.X]: 'combatFeint',
+        [GamepadButton.Y]: 'combatHeavy',
+        [GamepadButton.LB]: 'combatHeal',
+        [GamepadButton.RB]: 'combatFireball',
+        [GamepadButton.LT]: 'combatPremonition',
+        [GamepadButton.RT]: 'combatExecute',
+        [GamepadButton.LeftStick]: 'combatClass1',
+        [GamepadButton.RightStick]: 'combatClass2',
+        [GamepadButton.Back]: 'combatRetarget'
+    },
+    duel: {
+        [GamepadButton.A]: 'duelStrike',
+        [GamepadButton.B]: 'duelGuard',
+        [GamepadButton.X]: 'duelFeint',
+        [GamepadButton.Y]: 'duelHeavy',
+        [GamepadButton.LB]: 'duelHeal',
+        [GamepadButton.RB]: 'duelFireball',
+        [GamepadButton.Start]: 'cancel'
+    },
+    // Number entry (level up, symbol and code puzzles): buttons type 1-9 and 0
+    digits: {
+        ...DPAD,
+        [GamepadButton.A]: { key: '1' },
+        [GamepadButton.B]: { key: '2' },
+        [GamepadButton.X]: { key: '3' },
+        [GamepadButton.Y]: { key: '4' },
+        [GamepadButton.LB]: { key: '5' },
+        [GamepadButton.RB]: { key: '6' },
+        [GamepadButton.LT]: { key: '7' },
+        [GamepadButton.RT]: { key: '8' },
+        [GamepadButton.LeftStick]: { key: '9' },
+        [GamepadButton.RightStick]: { key: '0' },
+        [GamepadButton.Left]: { key: 'Backspace' },
+        [GamepadButton.Start]: { key: 'Enter' },
+        [GamepadButton.Back]: 'cancel'
+    }
+} satisfies Record<string, GamepadLayout>;
+
 export class InputHandler {
     keys: { [key: string]: boolean } = {};
-    onKeyDown: (key: string) => void;
+    onKeyDown: (key: string, action?: BindingAction) => void; // action is set for pad and touch presses
+    onGamepadConnected: ((name: string) => void) | null = null;
+    onPointerDown: ((x: number, y: number, isTouch: boolean) => void) | null = null;
+
+    // Buttons held down -> time they fire again
+    private heldButtons: Map<number, number> = new Map();
 
-    constructor(onKeyDown: (key: string) => void) {
+    constructor(onKeyDown: (key: string, action?: BindingAction) => void) {
         this.onKeyDown = onKeyDown;
         window.addEventListener('keydown', (e) => {
             this.keys[e.key] = true;
@@ -12,5 +122,68 @@ export class InputHandler {
         window.addEventListener('keyup', (e) => {
             this.keys[e.key] = false;
         });
+
+        window.addEventListener('gamepadconnected', (e) => {
+            this.onGamepadConnected?.(e.gamepad.id);
+        });
+    }
+
+    // Taps and clicks on the game canvas, reported in canvas pixels
+    attachPointer(canvas: HTMLCanvasElement) {
+        canvas.style.touchAction = 'none';
+        canvas.addEventListener('pointerdown', (e) => {
+            e.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            const x = (e.clientX - rect.left) * canvas.width / rect.width;
+            const y = (e.clientY - rect.top) * canvas.height / rect.height;
+            this.onPointerDown?.(x, y, e.pointerType === 'touch');
+        });
+    }
+
+    // Send an action as its current key, so it goes down the same path as a key press.
+    // The action rides along - its key may also be bound to something else (the arrows drive player 2)
+    pressAction(action: BindingAction) {
+        const key = KeyBindings.getKeys(action)[0];
+        if (key !== undefined) this.onKeyDown(key, action);
+    }
+
+    // Called once per frame - controller presses go through onKeyDown like any key
+    pollGamepads(layout: GamepadLayout) {
+        const pressed = new Set<number>();
+        for (const pad of navigator.getGamepads?.() ?? []) {
+            if (!pad) continue;
+            pad.buttons.forEach((button, i) => {
+                if (button.pressed) pressed.add(i);
+            });
+
+            // Left stick doubles as the D-pad
+            const [x = 0, y = 0] = pad.axes;
+            if (y < -STICK_DEADZONE) pressed.add(GamepadButton.Up);
+            if (y > STICK_DEADZONE) pressed.add(GamepadButton.Down);
+            if (x < -STICK_DEADZONE) pressed.add(GamepadButton.Left);
+            if (x > STICK_DEADZONE) pressed.add(GamepadButton.Right);
+        }
+
+        const now = performance.now();
+        for (const button of this.heldButtons.keys()) {
+            if (!pressed.has(button)) this.heldButtons.delete(button);
+        }
+        for (const button of pressed) {
+            const nextFire = this.heldButtons.get(button);
+            if (nextFire !== undefined && now < nextFire) continue;
+
+            // Only directions repeat while held
+            const isDirection = button >= GamepadButton.Up && button <= GamepadButton.Right;
+            const delay = nextFire === undefined ? REPEAT_DELAY : REPEAT_INTERVAL;
+            this.heldButtons.set(button, isDirection ? now + delay : Infinity);
+
+            const input = layout[button as GamepadButton];
+            if (input) this.sendGamepadInput(input);
+        }
+    }
+
+    private sendGamepadInput(input: GamepadInput) {
+        if (typeof input === 'string') this.pressAction(input);
+        else this.onKeyDown(input.key);
     }
 }
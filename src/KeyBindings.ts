@@ -0,0 +1,203 @@
+// ============================================
+// KEY BINDINGS - Central action-to-key table
+// ============================================
+// Every handler asks KeyBindings.matches(action, key) instead of comparing
+// raw keys, so players can remap anything from the rebind screen.
+
+const BINDINGS_KEY = 'deluge2_key_bindings';
+export const KEYS_PER_ACTION = 2;
+
+export type BindingGroup = 'General' | 'Map' | 'Co-op' | 'Menus' | 'Combat' | 'Duel';
+
+interface KeyBindingDef {
+    label: string;
+    group: BindingGroup;
+    keys: string[]; // Defaults - letters are stored lowercase
+}
+
+export const DEFAULT_KEY_BINDINGS = {
+    // General - movement doubles as menu navigation
+    moveUp: { label: 'Move / Menu Up', group: 'General', keys: ['ArrowUp', 'w'] },
+    moveDown: { label: 'Move / Menu Down', group: 'General', keys: ['ArrowDown', 's'] },
+    moveLeft: { label: 'Move / Menu Left', group: 'General', keys: ['ArrowLeft', 'a'] },
+    moveRight: { label: 'Move / Menu Right', group: 'General', keys: ['ArrowRight', 'd'] },
+    confirm: { label: 'Confirm', group: 'General', keys: ['Enter', ' '] },
+    cancel: { label: 'Back / Cancel', group: 'General', keys: ['Escape'] },
+
+    // Map shortcuts
+    stats: { label: 'Stats', group: 'Map', keys: ['Tab'] },
+    equipment: { label: 'Equipment', group: 'Map', keys: ['i'] },
+    crafting: { label: 'Crafting', group: 'Map', keys: ['c'] },
+    skillTree: { label: 'Skill Tree', group: 'Map', keys: ['t'] },
+    multiclass: { label: 'Multiclass', group: 'Map', keys: ['m'] },
+    notifications: { label: 'Toggle Notifications', group: 'Map', keys: ['n'] },
+    multiplayer: { label: 'Multiplayer', group: 'Map', keys: ['p'] },
+    saves: { label: 'Save Slots', group: 'Map', keys: ['l'] },
+    keyBindings: { label: 'Key Bindings', group: 'Map', keys: ['k'] },
+    autoExplore: { label: 'Auto-Explore', group: 'Map', keys: ['x'] },
+    travelTo: { label: 'Travel To...', group: 'Map', keys: ['g'] },
+    sneak: { label: 'Toggle Sneak', group: 'Map', keys: ['z'] },
+    skill1: { label: 'Skill 1 (Heal)', group: 'Map', keys: ['1'] },
+    skill2: { label: 'Skill 2 (Fireball)', group: 'Map', keys: ['2'] },
+
+    // Local co-op - player 2
+    partnerUp: { label: 'P2 Move Up', group: 'Co-op', keys: ['ArrowUp'] },
+    partnerDown: { label: 'P2 Move Down', group: 'Co-op', keys: ['ArrowDown'] },
+    partnerLeft: { label: 'P2 Move Left', group: 'Co-op', keys: ['ArrowLeft'] },
+    partnerRight: { label: 'P2 Move Right', group: 'Co-op', keys: ['ArrowRight'] },
+
+    // Menu actions
+    accept: { label: 'Accept (Shrine)', group: 'Menus', keys: ['y'] },
+    decline: { label: 'Decline (Shrine)', group: 'Menus', keys: ['n'] },
+    equip: { label: 'Equip', group: 'Menus', keys: ['e'] },
+    unequip: { label: 'Unequip', group: 'Menus', keys: ['u'] },
+    craft: { label: 'Craft', group: 'Menus', keys: ['c'] },
+    switchTree: { label: 'Switch Skill Tree', group: 'Menus', keys: ['q'] },
+    switchShopMode: { label: 'Buy / Sell', group: 'Menus', keys: ['Tab'] },
+    newRun: { label: 'New Run (Saves)', group: 'Menus', keys: ['n'] },
+    rename: { label: 'Rename (Saves)', group: 'Menus', keys: ['r'] },
+    delete: { label: 'Delete', group: 'Menus', keys: ['x', 'Delete'] },
+    exportFile: { label: 'Export', group: 'Menus', keys: ['e'] },
+    importFile: { label: 'Import', group: 'Menus', keys: ['i'] },
+    seedEntry: { label: 'Enter Seed', group: 'Menus', keys: ['Tab'] },
+
+    // Dungeon combat
+    combatStrike: { label: 'Strike', group: 'Combat', keys: ['1'] },
+    combatGuard: { label: 'Guard', group: 'Combat', keys: ['2'] },
+    combatFeint: { label: 'Feint', group: 'Combat', keys: ['3'] },
+    combatHeavy: { label: 'Heavy Strike', group: 'Combat', keys: ['4'] },
+    combatHeal: { label: 'Heal', group: 'Combat', keys: ['q'] },
+    combatFireball: { label: 'Fireball', group: 'Combat', keys: ['w'] },
+    combatPremonition: { label: 'Premonition', group: 'Combat', keys: ['e'] },
+    combatExecute: { label: 'Execute', group: 'Combat', keys: ['r'] },
+    combatClass1: { label: 'Class Move 5', group: 'Combat', keys: ['5'] },
+    combatClass2: { label: 'Class Move 6', group: 'Combat', keys: ['6'] },
+    combatRetarget: { label: 'Change Target', group: 'Combat', keys: ['Tab'] },
+
+    // Duels and the lobby
+    duelStrike: { label: 'Strike', group: 'Duel', keys: ['1'] },
+    duelGuard: { label: 'Guard', group: 'Duel', keys: ['2'] },
+    duelFeint: { label: 'Feint', group: 'Duel', keys: ['3'] },
+    duelHeavy: { label: 'Heavy Strike', group: 'Duel', keys: ['4'] },
+    duelHeal: { label: 'Heal', group: 'Duel', keys: ['q'] },
+    duelFireball: { label: 'Fireball', group: 'Duel', keys: ['w'] },
+    duelReplays: { label: 'Replays', group: 'Duel', keys: ['r'] },
+    duelRename: { label: 'Change Name', group: 'Duel', keys: ['n'] },
+    duelSeries: { label: 'Series Length', group: 'Duel', keys: ['b'] },
+    duelSpectators: { label: 'Allow Spectators', group: 'Duel', keys: ['v'] },
+    duelSpectate: { label: 'Join as Spectator', group: 'Duel', keys: ['Tab'] },
+    replayFirst: { label: 'Replay: First Turn', group: 'Duel', keys: ['Home'] },
+    replayLast: { label: 'Replay: Last Turn', group: 'Duel', keys: ['End'] }
+} satisfies Record<string, KeyBindingDef>;
+
+export type BindingAction = keyof typeof DEFAULT_KEY_BINDINGS;
+
+export const BINDING_ACTIONS = Object.keys(DEFAULT_KEY_BINDINGS) as BindingAction[];
+
+// Keys that can't be bound on their own
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+const KEY_NAMES: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ' ': 'SPACE',
+    Escape: 'ESC',
+    Enter: 'ENTER',
+    Tab: 'TAB',
+    Delete: 'DEL',
+    Backspace: 'BKSP',
+    Home: 'HOME',
+    End: 'END'
+};
+
+// Letters match regardless of shift/caps lock
+function normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
+
+// Display form of a raw key
+export function formatKey(key: string): string {
+    return KEY_NAMES[key] ?? key.toUpperCase();
+}
+
+export function isBindableKey(key: string): boolean {
+    return !MODIFIER_KEYS.includes(key);
+}
+
+export class KeyBindings {
+    private static table: Record<BindingAction, string[]> | null = null;
+
+    private static get bindings(): Record<BindingAction, string[]> {
+        if (!this.table) this.table = this.load();
+        return this.table;
+    }
+
+    // Saved bindings over the defaults, so new actions pick up their default keys
+    private static load(): Record<BindingAction, string[]> {
+        const table = {} as Record<BindingAction, string[]>;
+        for (const action of BINDING_ACTIONS) {
+            table[action] = [...DEFAULT_KEY_BINDINGS[action].keys];
+        }
+        try {
+            const json = localStorage.getItem(BINDINGS_KEY);
+            const saved = json ? JSON.parse(json) as Partial<Record<string, string[]>> : {};
+            for (const action of BINDING_ACTIONS) {
+                const keys = saved[action];
+                if (Array.isArray(keys)) table[action] = keys.filter(k => typeof k === 'string').slice(0, KEYS_PER_ACTION);
+            }
+        } catch (e) {
+            console.error('Failed to load key bindings:', e);
+        }
+        return table;
+    }
+
+    private static save() {
+        localStorage.setItem(BINDINGS_KEY, JSON.stringify(this.bindings));
+    }
+
+    static matches(action: BindingAction, key: string): boolean {
+        return this.bindings[action].includes(normalizeKey(key));
+    }
+
+    static getKeys(action: BindingAction): string[] {
+        return this.bindings[action];
+    }
+
+    // Primary key for hints, e.g. 'TAB' or '↑'
+    static label(action: BindingAction): string {
+        const key = this.bindings[action][0];
+        return key === undefined ? '-' : formatKey(key);
+    }
+
+    // Bind a key to one slot - returns the other actions in the same group that also use it
+    static setKey(action: BindingAction, slot: number, key: string): BindingAction[] {
+        const keys = [...this.bindings[action]];
+        const normalized = normalizeKey(key);
+        const existing = keys.indexOf(normalized);
+        if (existing !== -1) keys.splice(existing, 1);
+        keys.splice(Math.min(slot, keys.length), 0, normalized);
+        this.bindings[action] = keys.slice(0, KEYS_PER_ACTION);
+        this.save();
+
+        const group = DEFAULT_KEY_BINDINGS[action].group;
+        return BINDING_ACTIONS.filter(other =>
+            other !== action &&
+            DEFAULT_KEY_BINDINGS[other].group === group &&
+            this.bindings[other].includes(normalized)
+        );
+    }
+
+    static clearKey(action: BindingAction, slot: number) {
+        this.bindings[action] = this.bindings[action].filter((_, i) => i !== slot);
+        this.save();
+    }
+
+    static reset(action?: BindingAction) {
+        for (const a of action ? [action] : BINDING_ACTIONS) {
+            this.bindings[a] = [...DEFAULT_KEY_BINDINGS[a].keys];
+        }
+        this.save();
+    }
+}
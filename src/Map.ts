@@ -1,7 +1,7 @@
-import { TileType, getRandomInt } from './utils';
+import { TileType, getRandomInt, random, type Point } from './utils';
 import { Trap } from './Entity';
 import { selectRoomType } from './RoomTypes';
-import type { RoomData } from './RoomTypes';
+import type { RoomData, RoomType } from './RoomTypes';
 
 export class GameMap {
     width: number;
@@ -45,38 +45,46 @@ export class GameMap {
         }
     }
 
-    computeFOV(px: number, py: number, radius: number) {
-        // Reset visible
-        for (let y = 0; y < this.height; y++) {
-            for (let x = 0; x < this.width; x++) {
-                this.visible[y][x] = false;
+    // What a viewer at (px, py) can see: tiles within `radius`, plus any lit tile in line of sight
+    computeFOV(px: number, py: number, radius: number, clearVisible: boolean = true, lights: LightSource[] = []) {
+        // Reset visible (skipped when adding a second viewer, e.g. a co-op partner)
+        if (clearVisible) {
+            for (let y = 0; y < this.height; y++) {
+                for (let x = 0; x < this.width; x++) {
+                    this.visible[y][x] = false;
+                }
             }
         }
 
-        // Simple Raycasting for FOV
-        for (let i = 0; i < 360; i += 0.5) {
-            const rad = i * (Math.PI / 180);
-            let x = px + 0.5;
-            let y = py + 0.5;
-            const dx = Math.cos(rad);
-            const dy = Math.sin(rad);
-
-            for (let j = 0; j < radius; j++) {
-                x += dx;
-                y += dy;
-                const mapX = Math.floor(x);
-                const mapY = Math.floor(y);
+        const isOpaque = (x: number, y: number) => this.isBlocked(x, y);
+        const viewDistance = Math.max(radius, LIT_SIGHT_RANGE);
 
-                if (mapX < 0 || mapX >= this.width || mapY < 0 || mapY >= this.height) break;
+        // Only lights that could reach a tile the viewer might see
+        const lit = new Set<number>();
+        for (const light of lights) {
+            if (Math.max(Math.abs(light.x - px), Math.abs(light.y - py)) > viewDistance + light.radius) continue;
+            shadowcast(light.x, light.y, light.radius, isOpaque, (x, y) => lit.add(y * this.width + x));
+        }
 
-                this.visible[mapY][mapX] = true;
-                this.explored[mapY][mapX] = true;
+        shadowcast(px, py, viewDistance, isOpaque, (x, y) => {
+            if (x < 0 || x >= this.width || y < 0 || y >= this.height) return;
+            const dx = x - px;
+            const dy = y - py;
+            if (dx * dx + dy * dy > radius * radius + radius && !lit.has(y * this.width + x)) return;
+            this.visible[y][x] = true;
+            this.explored[y][x] = true;
+        });
+    }
 
-                if (this.tiles[mapY][mapX] === TileType.Wall) {
-                    break;
-                }
-            }
-        }
+    // Wall torches above every third room and rooms worth finding - derived from the layout so saves need no extra data
+    getTorches(): LightSource[] {
+        const litRooms: RoomType[] = ['shrine', 'merchant', 'rest', 'boss', 'treasure'];
+        const torches: LightSource[] = [];
+        this.rooms.forEach((room, i) => {
+            if (i % 3 !== 0 && !litRooms.includes(this.roomData[i]?.type)) return;
+            torches.push({ x: room.center().x, y: room.y - 1, radius: Math.ceil(Math.max(room.w / 2, room.h)) + 1 });
+        });
+        return torches;
     }
 
     generate() {
@@ -120,7 +128,7 @@ export class GameMap {
                     this.createSmartCorridor(nearCenter.x, nearCenter.y, newCenter.x, newCenter.y);
 
                     // Sometimes add extra connections for more interesting layouts
-                    if (this.rooms.length > 3 && Math.random() < 0.3) {
+                    if (this.rooms.length > 3 && random() < 0.3) {
                         const randomRoom = this.rooms[getRandomInt(0, Math.max(0, this.rooms.length - 3))];
                         if (randomRoom !== nearestRoom) {
                             const randCenter = randomRoom.center();
@@ -155,7 +163,7 @@ export class GameMap {
             const x = getRandomInt(room.x + 2, room.x + room.w - 2);
             const y = getRandomInt(room.y + 2, room.y + room.h - 2);
             if (this.tiles[y][x] === TileType.Floor && !this.hasTrapAt(x, y)) {
-                const trapType = Math.random() < 0.7 ? 'spike' : 'poison';
+                const trapType = random() < 0.7 ? 'spike' : 'poison';
                 this.traps.push(new Trap(x, y, trapType, this.floor));
             }
         }
@@ -263,7 +271,7 @@ export class GameMap {
         }
 
         // Widen corridors occasionally for more interesting paths
-        if (Math.random() < 0.3) {
+        if (random() < 0.3) {
             this.widenCorridor(x1, y1, x2, y2);
         }
     }
@@ -288,7 +296,7 @@ export class GameMap {
     // Add decorative pillars
     private addPillars() {
         for (let i = 0; i < this.rooms.length; i++) {
-            if (Math.random() < 0.35 && i > 0) { // 35% chance, skip first room
+            if (random() < 0.35 && i > 0) { // 35% chance, skip first room
                 const room = this.rooms[i];
                 if (room.w >= 9 && room.h >= 9) {
                     // Place pillars in corners
@@ -340,6 +348,45 @@ export class GameMap {
         return this.tiles[y][x] === TileType.Wall;
     }
 
+    // Straight line between two tiles with no wall in between (the ends themselves may be anything)
+    hasLineOfSight(x0: number, y0: number, x1: number, y1: number): boolean {
+        const dx = Math.abs(x1 - x0);
+        const dy = Math.abs(y1 - y0);
+        const sx = x0 < x1 ? 1 : -1;
+        const sy = y0 < y1 ? 1 : -1;
+        let err = dx - dy;
+        let x = x0;
+        let y = y0;
+        while (x !== x1 || y !== y1) {
+            const e2 = 2 * err;
+            if (e2 > -dy) { err -= dy; x += sx; }
+            if (e2 < dx) { err += dx; y += sy; }
+            if ((x !== x1 || y !== y1) && this.isBlocked(x, y)) return false;
+        }
+        return true;
+    }
+
+    // Tiles a shot from (x0, y0) aimed at (x1, y1) passes through, out to `range` steps or the first wall.
+    // The line steps only orthogonally, so a target on it always has neighbours on it too
+    getLineOfFire(x0: number, y0: number, x1: number, y1: number, range: number): Point[] {
+        const nx = Math.abs(x1 - x0);
+        const ny = Math.abs(y1 - y0);
+        const sx = x0 < x1 ? 1 : -1;
+        const sy = y0 < y1 ? 1 : -1;
+        const tiles: Point[] = [];
+        let x = x0;
+        let y = y0;
+        let ix = 0;
+        let iy = 0;
+        while ((nx > 0 || ny > 0) && tiles.length < range) {
+            if ((1 + 2 * ix) * ny < (1 + 2 * iy) * nx) { x += sx; ix++; }
+            else { y += sy; iy++; }
+            if (this.isBlocked(x, y)) break;
+            tiles.push({ x, y });
+        }
+        return tiles;
+    }
+
     // Get the room index at a position (-1 if not in a room)
     getRoomIndexAt(x: number, y: number): number {
         for (let i = 0; i < this.rooms.length; i++) {
@@ -402,3 +449,65 @@ export class Rect {
             y >= this.y && y < this.y + this.h;
     }
 }
+
+export interface LightSource {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+// ============================================
+// SHADOWCASTING - Symmetric recursive shadowcasting (after Albert Ford)
+// ============================================
+// Scans the four quadrants row by row, narrowing the visible slope range at
+// every wall. A floor tile is only revealed when the viewer would also be
+// visible from it, and two walls touching at a corner leave no gap to see through.
+
+const EPSILON = 1e-9;
+
+// How far away a lit tile can still be seen
+const LIT_SIGHT_RANGE = 16;
+
+// Quadrant-local (depth, col) to map coordinates: north, east, south, west
+const QUADRANTS: ((ox: number, oy: number, depth: number, col: number) => [number, number])[] = [
+    (ox, oy, depth, col) => [ox + col, oy - depth],
+    (ox, oy, depth, col) => [ox + depth, oy + col],
+    (ox, oy, depth, col) => [ox + col, oy + depth],
+    (ox, oy, depth, col) => [ox - depth, oy + col]
+];
+
+function shadowcast(
+    ox: number,
+    oy: number,
+    radius: number,
+    isOpaque: (x: number, y: number) => boolean,
+    reveal: (x: number, y: number) => void
+) {
+    reveal(ox, oy);
+
+    for (const transform of QUADRANTS) {
+        const scan = (depth: number, startSlope: number, endSlope: number) => {
+            if (depth > radius) return;
+
+            const minCol = Math.floor(depth * startSlope + 0.5 + EPSILON);
+            const maxCol = Math.ceil(depth * endSlope - 0.5 - EPSILON);
+            let prevWall: boolean | null = null;
+
+            for (let col = minCol; col <= maxCol; col++) {
+                const [x, y] = transform(ox, oy, depth, col);
+                const isWall = isOpaque(x, y);
+                const isSymmetric = col >= depth * startSlope - EPSILON && col <= depth * endSlope + EPSILON;
+                const inRange = depth * depth + col * col <= radius * radius + radius;
+
+                if (inRange && (isWall || isSymmetric)) reveal(x, y);
+
+                const slope = (2 * col - 1) / (2 * depth);
+                if (prevWall === true && !isWall) startSlope = slope;
+                if (prevWall === false && isWall) scan(depth + 1, startSlope, slope);
+                prevWall = isWall;
+            }
+            if (prevWall === false) scan(depth + 1, startSlope, endSlope);
+        };
+        scan(1, -1, 1);
+    }
+}
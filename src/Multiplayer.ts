@@ -19,6 +19,11 @@ export interface RoomPlayer {
     isHost: boolean;
 }
 
+export interface RoomSpectator {
+    id: string;
+    name: string;
+}
+
 export interface DuelStats {
     hp: number;
     maxHp: number;
@@ -36,6 +41,7 @@ export interface GameRoom {
     mode: MultiplayerMode;
     state: RoomState;
     players: RoomPlayer[];
+    spectators: RoomSpectator[]; // Read-only watchers - duel rooms only
     hostId: string;
     maxPlayers: number;
     settings: RoomSettings;
@@ -45,8 +51,52 @@ export interface RoomSettings {
     duelLevel: number; // For duel mode
     coopFloor: number; // Starting floor for coop
     allowSpectators: boolean;
+    bestOf: number; // Duel series length - one of DUEL_SERIES_LENGTHS
+}
+
+export const DUEL_SERIES_LENGTHS = [1, 3, 5];
+
+// Default relay server for online rooms
+export const DEFAULT_SERVER_URL = 'ws://localhost:8080';
+
+// The duel ladder is keyed on this name, so it is kept between sessions
+const PLAYER_NAME_KEY = 'deluge2_player_name';
+export const MAX_PLAYER_NAME_LENGTH = 16;
+
+// ============================================
+// CO-OP - shared seeded floor, each client owns its own Player
+// ============================================
+
+// What a co-op client broadcasts about its player after every move
+export interface CoopPlayerState {
+    id: string;
+    name: string;
+    x: number;
+    y: number;
+    floor: number;
+    hp: number;
+    maxHp: number;
+    level: number;
+    char: string;
+    color: string;
+}
+
+// A floor enemy as the host sees it - ids are spawn order, identical on every client of the same seed
+export interface CoopEnemyState {
+    id: number;
+    x: number;
+    y: number;
+    hp: number;
 }
 
+// Fights and kills on the shared floor - the relay stamps who sent it
+export type CoopEvent =
+    | { kind: 'claim'; floor: number; ids: number[] } // Sender is fighting these enemies
+    | { kind: 'release'; floor: number; enemies: { id: number; hp: number }[] } // Fight over, these survived
+    | { kind: 'kill'; floor: number; id: number; xp: number }
+    | { kind: 'ambush'; floor: number; id: number; target: string } // Host's enemy jumped a peer
+    | { kind: 'descend'; floor: number }; // Core destroyed - the party moves down
+
 // ============================================
 // DUEL COMBAT SYSTEM
 // ============================================
@@ -73,6 +123,31 @@ export const DuelAction = {
 
 export type DuelAction = typeof DuelAction[keyof typeof DuelAction];
 
+export const DUEL_ACTION_NAMES: Record<DuelAction, string> = {
+    [DuelAction.Strike]: 'Strike',
+    [DuelAction.Guard]: 'Guard',
+    [DuelAction.Feint]: 'Feint',
+    [DuelAction.HeavyStrike]: 'Heavy Strike',
+    [DuelAction.Heal]: 'Heal',
+    [DuelAction.Fireball]: 'Fireball'
+};
+
+// One resolved turn - values are after the turn
+export interface DuelTurnRecord {
+    turn: number;
+    player1Action: DuelAction;
+    player2Action: DuelAction;
+    player1Damage: number; // Damage taken by player 1
+    player2Damage: number;
+    player1Hp: number;
+    player2Hp: number;
+    player1Mana: number;
+    player2Mana: number;
+    player1Stamina: number;
+    player2Stamina: number;
+    message: string;
+}
+
 export interface DuelState {
     phase: DuelPhase;
     turn: number;
@@ -84,8 +159,102 @@ export interface DuelState {
     player2Action: DuelAction | null;
     lastResult: string;
     winnerId: string | null;
+    history: DuelTurnRecord[]; // Every resolved turn, in order
+    series: DuelSeries;
 }
 
+// Games won so far in a best-of-N series
+export interface DuelSeries {
+    bestOf: number;
+    player1Wins: number;
+    player2Wins: number;
+}
+
+// A series is over once someone has won a majority of its games
+export function isSeriesDecided(series: DuelSeries): boolean {
+    const needed = Math.floor(series.bestOf / 2) + 1;
+    return series.player1Wins >= needed || series.player2Wins >= needed;
+}
+
+// ============================================
+// DUEL AI - Difficulty tiers
+// ============================================
+
+export const DuelAIDifficulty = {
+    Easy: 0,
+    Normal: 1,
+    Hard: 2,
+    Master: 3
+} as const;
+
+export type DuelAIDifficulty = typeof DuelAIDifficulty[keyof typeof DuelAIDifficulty];
+
+export const DUEL_AI_DIFFICULTY_NAMES: Record<DuelAIDifficulty, string> = {
+    [DuelAIDifficulty.Easy]: 'Easy',
+    [DuelAIDifficulty.Normal]: 'Normal',
+    [DuelAIDifficulty.Hard]: 'Hard',
+    [DuelAIDifficulty.Master]: 'Master'
+};
+
+// Points spent per stat - always 50 in total
+interface DuelBuild {
+    hp: number;
+    attack: number;
+    defense: number;
+    mana: number;
+    speed: number;
+}
+
+interface DuelAITier {
+    builds: DuelBuild[];
+    memory: number;     // How many of the player's recent actions it reads
+    randomness: number; // Chance to ignore the read and act on a whim
+    lookahead: boolean; // Also score the turn after next
+}
+
+const DUEL_AI_TIERS: Record<DuelAIDifficulty, DuelAITier> = {
+    [DuelAIDifficulty.Easy]: {
+        builds: [
+            { hp: 10, attack: 5, defense: 15, mana: 5, speed: 15 },  // Turtle
+            { hp: 5, attack: 5, defense: 10, mana: 20, speed: 10 }   // Hedge mage
+        ],
+        memory: 2,
+        randomness: 0.5,
+        lookahead: false
+    },
+    [DuelAIDifficulty.Normal]: {
+        builds: [
+            { hp: 20, attack: 15, defense: 5, mana: 5, speed: 5 },   // Tank
+            { hp: 5, attack: 25, defense: 5, mana: 5, speed: 10 },   // Glass cannon
+            { hp: 10, attack: 10, defense: 10, mana: 15, speed: 5 }, // Mage
+            { hp: 10, attack: 10, defense: 10, mana: 10, speed: 10 } // Balanced
+        ],
+        memory: 4,
+        randomness: 0.25,
+        lookahead: false
+    },
+    [DuelAIDifficulty.Hard]: {
+        builds: [
+            { hp: 15, attack: 20, defense: 5, mana: 10, speed: 0 },  // Bruiser
+            { hp: 10, attack: 25, defense: 5, mana: 10, speed: 0 }   // Duelist
+        ],
+        memory: 8,
+        randomness: 0.1,
+        lookahead: false
+    },
+    [DuelAIDifficulty.Master]: {
+        builds: [
+            { hp: 14, attack: 26, defense: 0, mana: 10, speed: 0 }   // Every point where damage is decided
+        ],
+        memory: 12,
+        randomness: 0.05,
+        lookahead: true
+    }
+};
+
+const ALL_DUEL_ACTIONS = Object.values(DuelAction);
+const MANA_ACTIONS: DuelAction[] = [DuelAction.Heal, DuelAction.Fireball];
+
 // ============================================
 // MULTIPLAYER MANAGER (Client-side state)
 // ============================================
@@ -94,11 +263,13 @@ export class MultiplayerManager {
     private ws: WebSocket | null = null;
     private _roomCode: string | null = null;
     private playerId: string;
-    private playerName: string;
+    private savedPlayerName: string | null = null;
 
     // State
     room: GameRoom | null = null;
     duelState: DuelState | null = null;
+    coopPeers: CoopPlayerState[] = []; // Other players in the co-op room
+    aiDifficulty: DuelAIDifficulty = DuelAIDifficulty.Normal; // Tier of the local AI opponent
     connected: boolean = false;
     error: string | null = null;
 
@@ -107,11 +278,50 @@ export class MultiplayerManager {
     onDuelUpdate: ((state: DuelState) => void) | null = null;
     onError: ((error: string) => void) | null = null;
     onConnect: (() => void) | null = null;
+    onCoopStart: ((seed: number, floor: number) => void) | null = null;
+    onCoopUpdate: ((peers: CoopPlayerState[]) => void) | null = null;
+    onCoopEnemies: ((floor: number, enemies: CoopEnemyState[]) => void) | null = null;
+    onCoopEvent: ((playerId: string, event: CoopEvent) => void) | null = null;
     onDisconnect: (() => void) | null = null;
+    onRematchVote: ((playerName: string) => void) | null = null;
+    onRoomClosed: (() => void) | null = null;
 
     constructor() {
         this.playerId = this.generateId();
-        this.playerName = `Player${Math.floor(Math.random() * 9999)}`;
+    }
+
+    // Read on first use - the relay server builds a manager too, and has no browser storage
+    private get playerName(): string {
+        if (this.savedPlayerName === null) {
+            this.savedPlayerName = this.loadPlayerName();
+        }
+        return this.savedPlayerName;
+    }
+
+    private loadPlayerName(): string {
+        try {
+            const saved = localStorage.getItem(PLAYER_NAME_KEY);
+            if (saved) return saved;
+        } catch (e) {
+            console.error('Failed to load player name:', e);
+        }
+        const name = `Player${Math.floor(Math.random() * 9999)}`;
+        this.storePlayerName(name);
+        return name;
+    }
+
+    private storePlayerName(name: string) {
+        try {
+            localStorage.setItem(PLAYER_NAME_KEY, name);
+        } catch (e) {
+            console.error('Failed to save player name:', e);
+        }
+    }
+
+    // Renaming only applies to rooms joined afterwards
+    setPlayerName(name: string) {
+        this.savedPlayerName = name.trim().substring(0, MAX_PLAYER_NAME_LENGTH) || this.playerName;
+        this.storePlayerName(this.savedPlayerName);
     }
 
     get roomCode(): string | null {
@@ -177,12 +387,14 @@ export class MultiplayerManager {
                 stats: null,
                 isHost: true
             }],
+            spectators: [],
             hostId: this.playerId,
             maxPlayers: mode === 'duel' ? 2 : 4,
             settings: {
                 duelLevel: 50,
                 coopFloor: 1,
-                allowSpectators: false
+                allowSpectators: false,
+                bestOf: 1
             }
         };
         this._roomCode = code;
@@ -190,14 +402,15 @@ export class MultiplayerManager {
     }
 
     // Add AI opponent for local duel
-    addAIOpponent(): void {
+    addAIOpponent(difficulty: DuelAIDifficulty = DuelAIDifficulty.Normal): void {
         if (!this.room || this.room.mode !== 'duel') return;
 
+        this.aiDifficulty = difficulty;
         const aiPlayer: RoomPlayer = {
             id: 'AI_' + this.generateId(),
-            name: 'AI Opponent',
+            name: `AI Opponent (${DUEL_AI_DIFFICULTY_NAMES[difficulty]})`,
             ready: true,
-            stats: this.generateAIStats(),
+            stats: this.generateAIStats(difficulty),
             isHost: false
         };
 
@@ -205,8 +418,8 @@ export class MultiplayerManager {
         this.onRoomUpdate?.(this.room);
     }
 
-    private generateAIStats(): DuelStats {
-        // AI allocates 50 points with some randomness
+    private generateAIStats(difficulty: DuelAIDifficulty): DuelStats {
+        // Each tier picks one of its own builds
         const baseStats: DuelStats = {
             hp: 100,
             maxHp: 100,
@@ -219,14 +432,8 @@ export class MultiplayerManager {
         };
 
         // Distribute points
-        const distributions = [
-            { hp: 20, attack: 15, defense: 5, mana: 5, speed: 5 },   // Tank
-            { hp: 5, attack: 25, defense: 5, mana: 5, speed: 10 },   // Glass cannon
-            { hp: 10, attack: 10, defense: 10, mana: 15, speed: 5 }, // Mage
-            { hp: 10, attack: 10, defense: 10, mana: 10, speed: 10 } // Balanced
-        ];
-
-        const dist = distributions[getRandomInt(0, distributions.length)];
+        const builds = DUEL_AI_TIERS[difficulty].builds;
+        const dist = builds[getRandomInt(0, builds.length)];
         baseStats.maxHp += dist.hp * 5;
         baseStats.hp = baseStats.maxHp;
         baseStats.attack += dist.attack;
@@ -329,7 +536,7 @@ export class MultiplayerManager {
     }
 
     // Initialize duel state
-    initDuelState(player1Stats: DuelStats, player2Stats: DuelStats): DuelState {
+    initDuelState(player1Stats: DuelStats, player2Stats: DuelStats, series: DuelSeries = { bestOf: 1, player1Wins: 0, player2Wins: 0 }): DuelState {
         return {
             phase: DuelPhase.SelectAction,
             turn: 1,
@@ -340,10 +547,42 @@ export class MultiplayerManager {
             player1Action: null,
             player2Action: null,
             lastResult: 'Turn 1 - Select your action!',
-            winnerId: null
+            winnerId: null,
+            history: [],
+            series: { ...series }
         };
     }
 
+    // Next game with the same builds - continues the series, or starts a fresh one once it's decided
+    rematchDuel(state: DuelState): DuelState {
+        const reset = (stats: DuelStats): DuelStats => ({ ...stats, hp: stats.maxHp, mana: stats.maxMana });
+        const series = isSeriesDecided(state.series)
+            ? { bestOf: state.series.bestOf, player1Wins: 0, player2Wins: 0 }
+            : state.series;
+        return this.initDuelState(reset(state.player1Stats), reset(state.player2Stats), series);
+    }
+
+    // Change the series length of the current duel room
+    setBestOf(bestOf: number) {
+        if (!DUEL_SERIES_LENGTHS.includes(bestOf)) return;
+        this.updateSettings({ bestOf });
+    }
+
+    setAllowSpectators(allowSpectators: boolean) {
+        this.updateSettings({ allowSpectators });
+    }
+
+    // Host-only room settings - the server validates and broadcasts them
+    private updateSettings(changes: Partial<RoomSettings>) {
+        if (!this.room) return;
+        if (this.connected) {
+            this.send('update_settings', { playerId: this.playerId, ...changes });
+        } else {
+            Object.assign(this.room.settings, changes);
+            this.onRoomUpdate?.(this.room);
+        }
+    }
+
     // Resolve duel actions
     resolveDuelTurn(state: DuelState, p1Action: DuelAction, p2Action: DuelAction): DuelState {
         const newState = { ...state };
@@ -373,6 +612,20 @@ export class MultiplayerManager {
         newState.player2Stamina = Math.min(100, newState.player2Stamina + 15);
 
         newState.lastResult = message;
+        newState.history = [...(state.history ?? []), {
+            turn: state.turn,
+            player1Action: p1Action,
+            player2Action: p2Action,
+            player1Damage: p1Damage,
+            player2Damage: p2Damage,
+            player1Hp: p1.hp,
+            player2Hp: p2.hp,
+            player1Mana: p1.mana,
+            player2Mana: p2.mana,
+            player1Stamina: newState.player1Stamina,
+            player2Stamina: newState.player2Stamina,
+            message
+        }];
         newState.turn++;
 
         // Check victory
@@ -383,10 +636,12 @@ export class MultiplayerManager {
             newState.phase = DuelPhase.Victory;
             newState.winnerId = 'player1';
             newState.lastResult = 'VICTORY! Player 1 wins!';
+            newState.series = { ...state.series, player1Wins: state.series.player1Wins + 1 };
         } else if (p1.hp <= 0) {
             newState.phase = DuelPhase.Victory;
             newState.winnerId = 'player2';
             newState.lastResult = 'DEFEAT! Player 2 wins!';
+            newState.series = { ...state.series, player2Wins: state.series.player2Wins + 1 };
         } else {
             newState.phase = DuelPhase.Result;
         }
@@ -514,35 +769,133 @@ export class MultiplayerManager {
         return { p1Damage, p2Damage, message };
     }
 
-    // AI selects action
+    // AI selects action (the AI is always player 2)
     getAIAction(state: DuelState): DuelAction {
+        const tier = DUEL_AI_TIERS[this.aiDifficulty];
         const aiStats = state.player2Stats;
-        const playerStats = state.player1Stats;
-        const aiStamina = state.player2Stamina;
+        const choices = ALL_DUEL_ACTIONS.filter(a => !MANA_ACTIONS.includes(a) || aiStats.mana >= 15);
 
-        // Low HP - heal if possible
-        if (aiStats.hp < aiStats.maxHp * 0.3 && aiStats.mana >= 15) {
-            return DuelAction.Heal;
+        // Low stamina - guard while it recovers
+        if (state.player2Stamina < 20) {
+            return DuelAction.Guard;
         }
 
-        // Low stamina - guard
-        if (aiStamina < 20) {
-            return DuelAction.Guard;
+        // Whim - the lower tiers are easier to bait
+        if (Math.random() < tier.randomness) {
+            return choices[getRandomInt(0, choices.length)];
+        }
+
+        const prediction = this.predictPlayerAction(state, tier.memory, tier.lookahead);
+        let best: DuelAction = DuelAction.Guard;
+        let bestScore = -Infinity;
+        for (const action of choices) {
+            let score = 0;
+            for (const [playerAction, chance] of prediction) {
+                const next = this.simulateDuelTurn(state, playerAction, action);
+                let value = this.scoreDuelTurn(state, next);
+                // Master reads one turn further: the best reply from where this exchange leaves us
+                if (tier.lookahead && next.player1Stats.hp > 0 && next.player2Stats.hp > 0) {
+                    value += 0.5 * this.bestReplyScore(next, this.predictPlayerAction(next, tier.memory, true));
+                }
+                score += chance * value;
+            }
+            // Small jitter so ties don't always break the same way
+            score += Math.random() * 0.5;
+            if (score > bestScore) {
+                bestScore = score;
+                best = action;
+            }
+        }
+        return best;
+    }
+
+    // Likelihood of each player action, read from their recent history and current HP
+    private predictPlayerAction(state: DuelState, memory: number, reactive: boolean): Map<DuelAction, number> {
+        const player = state.player1Stats;
+        const counts = new Map<DuelAction, number>();
+        for (const action of ALL_DUEL_ACTIONS) {
+            const affordable = !MANA_ACTIONS.includes(action) || player.mana >= 15;
+            counts.set(action, affordable ? 1 : 0);
+        }
+
+        const recent = state.history.slice(-memory);
+        for (const record of recent) {
+            counts.set(record.player1Action, (counts.get(record.player1Action) ?? 0) + 2);
+        }
+
+        // Reactive read - what the player did right after the AI's last move
+        const lastAI = state.history[state.history.length - 1]?.player2Action;
+        if (reactive && lastAI !== undefined) {
+            for (let i = 1; i < state.history.length; i++) {
+                if (state.history[i - 1].player2Action !== lastAI) continue;
+                const reply = state.history[i].player1Action;
+                counts.set(reply, (counts.get(reply) ?? 0) + 3);
+            }
         }
 
-        // Player low HP - be aggressive
-        if (playerStats.hp < playerStats.maxHp * 0.3) {
-            return Math.random() < 0.6 ? DuelAction.HeavyStrike : DuelAction.Strike;
+        // Hurt players reach for Heal
+        if (player.hp < player.maxHp * 0.3 && player.mana >= 15) {
+            counts.set(DuelAction.Heal, (counts.get(DuelAction.Heal) ?? 0) + 4);
         }
 
-        // Random strategy with weights
-        const roll = Math.random();
-        if (roll < 0.3) return DuelAction.Strike;
-        if (roll < 0.5) return DuelAction.Guard;
-        if (roll < 0.65) return DuelAction.Feint;
-        if (roll < 0.8) return DuelAction.HeavyStrike;
-        if (roll < 0.9 && aiStats.mana >= 15) return DuelAction.Fireball;
-        return DuelAction.Strike;
+        const total = [...counts.values()].reduce((sum, c) => sum + c, 0);
+        for (const [action, count] of counts) {
+            if (count === 0) counts.delete(action);
+            else counts.set(action, count / total);
+        }
+        return counts;
+    }
+
+    // Best expected score the AI can reach from this state in one turn
+    private bestReplyScore(state: DuelState, prediction: Map<DuelAction, number>): number {
+        let best = -Infinity;
+        for (const action of ALL_DUEL_ACTIONS) {
+            if (MANA_ACTIONS.includes(action) && state.player2Stats.mana < 15) continue;
+            let score = 0;
+            for (const [playerAction, chance] of prediction) {
+                score += chance * this.scoreDuelTurn(state, this.simulateDuelTurn(state, playerAction, action));
+            }
+            best = Math.max(best, score);
+        }
+        return best;
+    }
+
+    // Resolve a turn on copies so the real duel state is untouched
+    private simulateDuelTurn(state: DuelState, p1Action: DuelAction, p2Action: DuelAction): DuelState {
+        const next: DuelState = {
+            ...state,
+            player1Stats: { ...state.player1Stats },
+            player2Stats: { ...state.player2Stats }
+        };
+        const { p1Damage, p2Damage } = this.resolveMatchup(p1Action, p2Action, next.player1Stats, next.player2Stats, next);
+        next.player1Stats.hp = Math.max(0, next.player1Stats.hp - p1Damage);
+        next.player2Stats.hp = Math.max(0, next.player2Stats.hp - p2Damage);
+        next.history = [...state.history, {
+            turn: state.turn,
+            player1Action: p1Action,
+            player2Action: p2Action,
+            player1Damage: p1Damage,
+            player2Damage: p2Damage,
+            player1Hp: next.player1Stats.hp,
+            player2Hp: next.player2Stats.hp,
+            player1Mana: next.player1Stats.mana,
+            player2Mana: next.player2Stats.mana,
+            player1Stamina: next.player1Stamina,
+            player2Stamina: next.player2Stamina,
+            message: ''
+        }];
+        return next;
+    }
+
+    // HP swing in the AI's favour, with wins and losses dominating
+    private scoreDuelTurn(before: DuelState, after: DuelState): number {
+        const dealt = before.player1Stats.hp - after.player1Stats.hp;
+        const taken = before.player2Stats.hp - after.player2Stats.hp; // Negative when healed
+        const manaSpent = before.player2Stats.mana - after.player2Stats.mana;
+        let score = dealt - taken - manaSpent * 0.2;
+        if (after.player1Stats.hp <= 0) score += 1000;
+        if (after.player2Stats.hp <= 0) score -= 1000;
+        return score;
     }
 
     // Handle messages from server
@@ -552,12 +905,50 @@ export class MultiplayerManager {
         switch (msg.type) {
             case 'room_update':
                 this.room = msg.payload as GameRoom;
+                this._roomCode = this.room.code;
+                // Players who left the co-op room stop showing on the map
+                this.coopPeers = this.coopPeers.filter(p => this.room?.players.some(pl => pl.id === p.id));
                 this.onRoomUpdate?.(this.room);
                 break;
             case 'duel_update':
                 this.duelState = msg.payload as DuelState;
                 this.onDuelUpdate?.(this.duelState);
                 break;
+            case 'coop_start': {
+                const start = msg.payload as { seed: number; floor: number };
+                this.coopPeers = [];
+                this.onCoopStart?.(start.seed, start.floor);
+                break;
+            }
+            case 'coop_update': {
+                const peer = msg.payload as CoopPlayerState;
+                if (peer.id === this.playerId) break;
+                this.coopPeers = this.coopPeers.filter(p => p.id !== peer.id);
+                this.coopPeers.push(peer);
+                this.onCoopUpdate?.(this.coopPeers);
+                break;
+            }
+            case 'coop_enemies': {
+                const snapshot = msg.payload as { floor: number; enemies: CoopEnemyState[] };
+                this.onCoopEnemies?.(snapshot.floor, snapshot.enemies);
+                break;
+            }
+            case 'coop_event': {
+                const event = msg.payload as { playerId: string; event: CoopEvent };
+                if (event.playerId !== this.playerId) this.onCoopEvent?.(event.playerId, event.event);
+                break;
+            }
+            case 'room_closed':
+                // Every player left the room we were watching
+                this.room = null;
+                this._roomCode = null;
+                this.onRoomClosed?.();
+                break;
+            case 'rematch_vote': {
+                const vote = msg.payload as { playerId: string; name: string };
+                if (vote.playerId !== this.playerId) this.onRematchVote?.(vote.name);
+                break;
+            }
             case 'error':
                 this.error = msg.payload as string;
                 this.onError?.(this.error);
@@ -577,9 +968,9 @@ export class MultiplayerManager {
         this.send('create_room', { mode, playerId: this.playerId, playerName: this.playerName });
     }
 
-    // Join room
-    joinRoom(code: string) {
-        this.send('join_room', { code, playerId: this.playerId, playerName: this.playerName });
+    // Join room - spectators watch the duel but never take a seat
+    joinRoom(code: string, asSpectator: boolean = false) {
+        this.send('join_room', { code, playerId: this.playerId, playerName: this.playerName, asSpectator });
     }
 
     // Leave room
@@ -587,6 +978,7 @@ export class MultiplayerManager {
         this.send('leave_room', { playerId: this.playerId });
         this.room = null;
         this._roomCode = null;
+        this.coopPeers = [];
     }
 
     // Set ready state
@@ -599,16 +991,61 @@ export class MultiplayerManager {
         this.send('duel_action', { playerId: this.playerId, action });
     }
 
+    // Ask for another game with the same builds - starts once both duelists agree
+    requestRematch() {
+        this.send('request_rematch', { playerId: this.playerId });
+    }
+
+    // Host starts the co-op run - everyone generates the same seeded floor
+    startCoop(seed: number, floor: number) {
+        this.send('start_coop', { playerId: this.playerId, seed, floor });
+    }
+
+    // Broadcast our player's position and vitals to the room
+    sendCoopState(state: Omit<CoopPlayerState, 'id' | 'name'>) {
+        this.send('coop_state', { playerId: this.playerId, state: { ...state, id: this.playerId, name: this.playerName } });
+    }
+
+    // Host only - where the floor's enemies are after its turn
+    sendCoopEnemies(floor: number, enemies: CoopEnemyState[]) {
+        this.send('coop_enemies', { playerId: this.playerId, floor, enemies });
+    }
+
+    sendCoopEvent(event: CoopEvent) {
+        this.send('coop_event', { playerId: this.playerId, event });
+    }
+
     disconnect() {
         this.ws?.close();
         this.ws = null;
         this.connected = false;
     }
 
+    get localPlayerId(): string {
+        return this.playerId;
+    }
+
+    get localPlayerName(): string {
+        return this.playerName;
+    }
+
     get isHost(): boolean {
         return this.room?.hostId === this.playerId;
     }
 
+    get isSpectator(): boolean {
+        return this.room?.spectators.some(s => s.id === this.playerId) ?? false;
+    }
+
+    get isDuelist(): boolean {
+        return this.room?.players.some(p => p.id === this.playerId) ?? false;
+    }
+
+    // Seat 1 is the first player in the room (host at creation)
+    get isPlayer1(): boolean {
+        return this.room?.players[0]?.id === this.playerId;
+    }
+
     get currentPlayer(): RoomPlayer | undefined {
         return this.room?.players.find(p => p.id === this.playerId);
     }
@@ -4,6 +4,7 @@
 
 import type { Player } from './Entity';
 import { MaterialType, MATERIALS } from './Equipment';
+import { random } from './utils';
 
 // NPC Types
 export type NPCType = 'trader' | 'soul_trader' | 'healer' | 'sage' | 'blacksmith';
@@ -93,8 +94,8 @@ export function generateTraderInventory(floor: number): TraderItem[] {
     if (floor >= 4) materialPool.push(MaterialType.DemonHeart);
 
     // Add 2-4 random materials
-    const numMaterials = 2 + Math.floor(Math.random() * 3);
-    const shuffled = materialPool.sort(() => Math.random() - 0.5);
+    const numMaterials = 2 + Math.floor(random() * 3);
+    const shuffled = materialPool.sort(() => random() - 0.5);
 
     for (let i = 0; i < Math.min(numMaterials, shuffled.length); i++) {
         const matType = shuffled[i];
@@ -189,20 +190,20 @@ export function createNPC(x: number, y: number, type: NPCType, floor: number): N
 
     switch (type) {
         case 'trader':
-            name = ['Merchant Marco', 'Trader Tess', 'Vendor Vic', 'Peddler Pete'][Math.floor(Math.random() * 4)];
+            name = ['Merchant Marco', 'Trader Tess', 'Vendor Vic', 'Peddler Pete'][Math.floor(random() * 4)];
             char = '$';
             color = '#ffa500';
             dialogue = TRADER_DIALOGUES;
             inventory = generateTraderInventory(floor);
             break;
         case 'soul_trader':
-            name = ['Soul Weaver', 'The Exchanger', 'Spirit Broker', 'Essence Dealer'][Math.floor(Math.random() * 4)];
+            name = ['Soul Weaver', 'The Exchanger', 'Spirit Broker', 'Essence Dealer'][Math.floor(random() * 4)];
             char = '§';
             color = '#9932cc';
             dialogue = SOUL_TRADER_DIALOGUES;
             break;
         case 'healer':
-            name = ['Sister Clara', 'Brother Aldric', 'The Medic', 'Priestess Luna'][Math.floor(Math.random() * 4)];
+            name = ['Sister Clara', 'Brother Aldric', 'The Medic', 'Priestess Luna'][Math.floor(random() * 4)];
             char = '+';
             color = '#98fb98';
             dialogue = HEALER_DIALOGUES;
@@ -215,13 +216,13 @@ export function createNPC(x: number, y: number, type: NPCType, floor: number): N
             }];
             break;
         case 'sage':
-            name = ['Elder Theron', 'Wise Morwen', 'The Oracle', 'Seer Zara'][Math.floor(Math.random() * 4)];
+            name = ['Elder Theron', 'Wise Morwen', 'The Oracle', 'Seer Zara'][Math.floor(random() * 4)];
             char = '?';
             color = '#87ceeb';
             dialogue = SAGE_DIALOGUES;
             break;
         case 'blacksmith':
-            name = ['Smith Gorran', 'Forgemaster Hilda', 'The Artificer'][Math.floor(Math.random() * 3)];
+            name = ['Smith Gorran', 'Forgemaster Hilda', 'The Artificer'][Math.floor(random() * 3)];
             char = '&';
             color = '#cd853f';
             dialogue = BLACKSMITH_DIALOGUES;
@@ -241,22 +242,22 @@ export function generateFloorNPCs(floor: number, rooms: { center: () => { x: num
     if (rooms.length < 3) return npcs;
 
     // Always spawn a trader in a middle room
-    const traderRoomIndex = Math.floor(rooms.length / 3) + Math.floor(Math.random() * Math.floor(rooms.length / 3));
+    const traderRoomIndex = Math.floor(rooms.length / 3) + Math.floor(random() * Math.floor(rooms.length / 3));
     const traderRoom = rooms[Math.min(traderRoomIndex, rooms.length - 2)];
     const traderPos = traderRoom.center();
     npcs.push(createNPC(traderPos.x + 1, traderPos.y, 'trader', floor));
 
     // Always spawn a soul trader in a different room
-    const soulRoomIndex = Math.floor(rooms.length * 2 / 3) + Math.floor(Math.random() * Math.floor(rooms.length / 4));
+    const soulRoomIndex = Math.floor(rooms.length * 2 / 3) + Math.floor(random() * Math.floor(rooms.length / 4));
     const soulRoom = rooms[Math.min(soulRoomIndex, rooms.length - 2)];
     const soulPos = soulRoom.center();
     npcs.push(createNPC(soulPos.x - 1, soulPos.y, 'soul_trader', floor));
 
     // Chance for additional NPCs
-    if (Math.random() < 0.5 && rooms.length > 5) {
+    if (random() < 0.5 && rooms.length > 5) {
         const extraTypes: NPCType[] = ['healer', 'sage', 'blacksmith'];
-        const extraType = extraTypes[Math.floor(Math.random() * extraTypes.length)];
-        const extraRoomIndex = 1 + Math.floor(Math.random() * (rooms.length - 3));
+        const extraType = extraTypes[Math.floor(random() * extraTypes.length)];
+        const extraRoomIndex = 1 + Math.floor(random() * (rooms.length - 3));
         const extraRoom = rooms[extraRoomIndex];
         const extraPos = extraRoom.center();
         npcs.push(createNPC(extraPos.x, extraPos.y + 1, extraType, floor));
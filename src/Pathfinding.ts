@@ -23,10 +23,12 @@ function heuristic(a: Point, b: Point): number {
     return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
 }
 
+// maxDistance defaults to enemy chase range - player travel passes the whole map
 export function aStar(
     start: Point,
     end: Point,
-    isBlocked: (x: number, y: number) => boolean
+    isBlocked: (x: number, y: number) => boolean,
+    maxDistance: number = 30
 ): Point[] {
     // Check cache first
     const cacheKey = getCacheKey(start, end);
@@ -39,7 +41,7 @@ export function aStar(
 
     // Quick distance check - if too far, don't bother with expensive pathfinding
     const quickDist = heuristic(start, end);
-    if (quickDist > 30) {
+    if (quickDist > maxDistance) {
         // Return simple path toward target for long distances
         return [start];
     }
@@ -66,8 +68,9 @@ export function aStar(
     ];
 
     let iterations = 0;
+    const maxIterations = Math.max(MAX_ITERATIONS, maxDistance * maxDistance);
 
-    while (openSet.length > 0 && iterations < MAX_ITERATIONS) {
+    while (openSet.length > 0 && iterations < maxIterations) {
         iterations++;
 
         // Find node with lowest f score
@@ -151,6 +154,31 @@ export function aStar(
     return emptyPath;
 }
 
+// Breadth-first search for the closest reachable tile that satisfies isGoal
+export function findNearest(
+    start: Point,
+    isBlocked: (x: number, y: number) => boolean,
+    isGoal: (x: number, y: number) => boolean
+): Point | null {
+    const visited = new Set<string>([`${start.x},${start.y}`]);
+    const queue: Point[] = [start];
+
+    for (let i = 0; i < queue.length; i++) {
+        const current = queue[i];
+        if (i > 0 && isGoal(current.x, current.y)) return current;
+
+        for (const [dx, dy] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+            const nx = current.x + dx;
+            const ny = current.y + dy;
+            const key = `${nx},${ny}`;
+            if (visited.has(key) || isBlocked(nx, ny)) continue;
+            visited.add(key);
+            queue.push({ x: nx, y: ny });
+        }
+    }
+    return null;
+}
+
 // Clear the path cache (useful when map changes)
 export function clearPathCache(): void {
     pathCache.clear();
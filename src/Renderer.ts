@@ -1,11 +1,47 @@
-import { GameMap } from './Map';
-import { Entity, Item, Trap, Player, DungeonCore } from './Entity';
+import { GameMap, type LightSource } from './Map';
+import { Entity, Enemy, AlertState, Item, Trap, Player, DungeonCore, PressurePlate, Shrine, Campfire } from './Entity';
 import { TILE_SIZE, TileType, ItemType, VIEWPORT_WIDTH, VIEWPORT_HEIGHT } from './utils';
-import { CombatSystem, CombatPhase, ACTIONS, MultiCombatSystem, MultiCombatPhase } from './Combat';
-import { Chest, RARITY_COLORS, RARITY_NAMES, CRAFTING_RECIPES, MATERIALS } from './Equipment';
+import { CombatSystem, CombatPhase, CombatAction, ACTIONS, ARENA_EFFECT_INFO, COMBAT_STATUS_INFO, PHASE_BANNER_FRAMES, type CombatStatus, type CombatStatuses, MultiCombatSystem, MultiCombatPhase } from './Combat';
+import { Chest, RARITY_COLORS, RARITY_NAMES, CRAFTING_RECIPES, MATERIALS, getEquipmentValue } from './Equipment';
 import { AssetManager, drawAsset } from './GameAssets';
 import { getBiomeForFloor, type BiomeTheme } from './Biomes';
-import { type DuelState, DuelPhase, DuelAction, type DuelStats, type GameRoom } from './Multiplayer';
+import { type DuelState, DuelPhase, DuelAction, DUEL_AI_DIFFICULTY_NAMES, isSeriesDecided, type DuelAIDifficulty, type DuelStats, type GameRoom, type CoopPlayerState } from './Multiplayer';
+import { PUZZLE_SYMBOLS, traceLight, getChallengeDescription, getChallengeRewardName, type RoomPuzzle, type MerchantConfig } from './RoomTypes';
+import type { Point } from './utils';
+import type { SaveSlotInfo } from './SaveSystem';
+import { describeTurn, type DuelReplay } from './DuelReplay';
+import type { DuelRating } from './DuelRanking';
+import { KeyBindings, BINDING_ACTIONS, DEFAULT_KEY_BINDINGS, formatKey, type BindingAction } from './KeyBindings';
+
+// Current key for an action, for control hints
+const keyOf = (action: BindingAction): string => KeyBindings.label(action);
+
+// Something the player can tap: a bound action, a fixed key, or a row of the current list
+export type PointerTarget = { action: BindingAction } | { key: string } | { row: number };
+
+interface HitRegion {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    target: PointerTarget;
+}
+
+// On-screen controls for touch devices - 'digits' adds a number pad for puzzles
+export type TouchLayout = 'map' | 'menu' | 'digits';
+
+const MAP_TOUCH_SHORTCUTS: { action: BindingAction; label: string }[] = [
+    { action: 'stats', label: 'Stats' },
+    { action: 'equipment', label: 'Equip' },
+    { action: 'crafting', label: 'Craft' },
+    { action: 'skillTree', label: 'Skills' },
+    { action: 'skill1', label: 'Heal' },
+    { action: 'skill2', label: 'Fire' },
+    { action: 'saves', label: 'Saves' },
+    { action: 'autoExplore', label: 'Explore' },
+    { action: 'travelTo', label: 'Travel' },
+    { action: 'sneak', label: 'Sneak' }
+];
 
 export class Renderer {
     canvas: HTMLCanvasElement;
@@ -13,6 +49,10 @@ export class Renderer {
     currentBiome: BiomeTheme;
     width: number;
     height: number;
+    mapCamera: Point = { x: 0, y: 0 }; // Top-left tile of the last drawn map
+
+    // Clickable areas drawn this frame, topmost last
+    private hitRegions: HitRegion[] = [];
 
     constructor(canvasId: string, width: number, height: number) {
         this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
@@ -49,6 +89,25 @@ export class Renderer {
     clear() {
         this.ctx.fillStyle = '#000';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+        this.hitRegions = [];
+    }
+
+    private addHitRegion(x: number, y: number, w: number, h: number, target: PointerTarget) {
+        this.hitRegions.push({ x, y, w, h, target });
+    }
+
+    // What was drawn under a canvas position last frame
+    hitTest(x: number, y: number): PointerTarget | null {
+        for (let i = this.hitRegions.length - 1; i >= 0; i--) {
+            const r = this.hitRegions[i];
+            if (x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h) return r.target;
+        }
+        return null;
+    }
+
+    // Map tile under a canvas position
+    screenToTile(x: number, y: number): Point {
+        return { x: this.mapCamera.x + Math.floor(x / TILE_SIZE), y: this.mapCamera.y + Math.floor(y / TILE_SIZE) };
     }
 
     drawMap(map: GameMap, playerX: number, playerY: number) {
@@ -82,6 +141,20 @@ export class Renderer {
                         // Floor texture dot
                         this.ctx.fillStyle = biome.floorAccent;
                         this.ctx.fillRect(x * TILE_SIZE + TILE_SIZE / 2, y * TILE_SIZE + TILE_SIZE / 2, 2, 2);
+                    } else if (tile === TileType.PressurePlate) {
+                        // Plate itself is drawn by drawPressurePlate
+                        this.ctx.fillStyle = biome.floorColor;
+                        this.ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+                    } else if (tile === TileType.PuzzleFloor) {
+                        // Puzzle pedestal
+                        this.ctx.fillStyle = biome.floorColor;
+                        this.ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+                        this.ctx.fillStyle = '#556';
+                        this.ctx.fillRect(x * TILE_SIZE + 6, y * TILE_SIZE + 6, TILE_SIZE - 12, TILE_SIZE - 12);
+                        this.ctx.fillStyle = '#0ff';
+                        this.ctx.font = 'bold 14px monospace';
+                        this.ctx.textAlign = 'center';
+                        this.ctx.fillText('?', x * TILE_SIZE + TILE_SIZE / 2, y * TILE_SIZE + TILE_SIZE / 2 + 5);
                     } else {
                         this.ctx.fillStyle = '#000';
                         this.ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
@@ -90,7 +163,7 @@ export class Renderer {
                     if (tile === TileType.Wall) {
                         // Darken wall color for explored but not visible
                         this.ctx.fillStyle = this.darkenColor(biome.wallColor, biome.ambientLight);
-                    } else if (tile === TileType.Floor) {
+                    } else if (tile !== TileType.Door) {
                         this.ctx.fillStyle = biome.fogColor;
                     } else {
                         this.ctx.fillStyle = '#000';
@@ -103,6 +176,7 @@ export class Renderer {
             }
         }
 
+        this.mapCamera = { x: camX, y: camY };
         return { camX, camY };
     }
 
@@ -195,6 +269,39 @@ export class Renderer {
         this.ctx.fillText(npc.name.split(' ')[0], px + TILE_SIZE / 2, py - 4);
     }
 
+    // Online co-op player - shown anywhere we've explored so partners can find each other
+    drawCoopPeer(peer: CoopPlayerState, map: GameMap, camX: number, camY: number) {
+        if (!map.explored[peer.y]?.[peer.x]) return;
+
+        const screenX = peer.x - camX;
+        const screenY = peer.y - camY;
+
+        if (screenX < 0 || screenX >= VIEWPORT_WIDTH || screenY < 0 || screenY >= VIEWPORT_HEIGHT) return;
+
+        const px = screenX * TILE_SIZE;
+        const py = screenY * TILE_SIZE;
+
+        this.ctx.globalAlpha = map.visible[peer.y][peer.x] ? 1 : 0.5;
+        this.ctx.fillStyle = peer.color;
+        this.ctx.fillRect(px, py, TILE_SIZE, TILE_SIZE);
+        this.ctx.strokeStyle = '#fff';
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(px + 1, py + 1, TILE_SIZE - 2, TILE_SIZE - 2);
+        this.ctx.globalAlpha = 1;
+
+        // HP bar
+        this.ctx.fillStyle = 'red';
+        this.ctx.fillRect(px, py - 4, TILE_SIZE, 3);
+        this.ctx.fillStyle = 'green';
+        this.ctx.fillRect(px, py - 4, TILE_SIZE * (peer.hp / peer.maxHp), 3);
+
+        // Name above
+        this.ctx.fillStyle = '#fff';
+        this.ctx.font = '8px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(peer.name, px + TILE_SIZE / 2, py - 8);
+    }
+
     drawItem(item: Item, map: GameMap, camX: number, camY: number) {
         if (!map.visible[item.y][item.x]) return;
 
@@ -331,6 +438,33 @@ export class Renderer {
         this.ctx.textAlign = 'center';
         this.ctx.fillText(`-- COMBAT - Turn ${combat.turn} --`, centerX, 35);
 
+        // ========== CHALLENGE RULES ==========
+        if (combat.challenge) {
+            const failed = combat.challengeFailed;
+            this.ctx.fillStyle = failed ? 'rgba(80, 20, 20, 0.8)' : 'rgba(80, 60, 0, 0.8)';
+            this.ctx.fillRect(centerX - 110, 60, 220, 62);
+            this.ctx.strokeStyle = failed ? '#f44' : '#fd0';
+            this.ctx.lineWidth = 2;
+            this.ctx.strokeRect(centerX - 110, 60, 220, 62);
+
+            this.ctx.textAlign = 'center';
+            this.ctx.fillStyle = failed ? '#f44' : '#fd0';
+            this.ctx.font = 'bold 12px monospace';
+            this.ctx.fillText(failed ? 'CHALLENGE FAILED' : 'CHALLENGE', centerX, 76);
+            this.ctx.fillStyle = '#fff';
+            this.ctx.font = '12px monospace';
+            this.ctx.fillText(getChallengeDescription(combat.challenge), centerX, 94);
+
+            let status = `Reward: ${getChallengeRewardName(combat.challenge.reward)}`;
+            if (!failed && combat.challenge.duration > 0) {
+                const turnsLeft = Math.max(0, combat.challenge.duration - combat.turn + 1);
+                status = `${turnsLeft} turn${turnsLeft === 1 ? '' : 's'} left`;
+            }
+            this.ctx.fillStyle = '#aaa';
+            this.ctx.font = '11px monospace';
+            this.ctx.fillText(status, centerX, 112);
+        }
+
         // ========== COMBATANT DISPLAY ==========
         const playerBoxX = 80;
         const enemyBoxX = this.canvas.width - 280;
@@ -391,6 +525,31 @@ export class Renderer {
         this.drawBar(enemyBoxX + 10, boxY + 58, boxW - 20, 14,
             combat.enemyStamina, combat.maxEnemyStamina, '#ff0', '#330', 'ST');
 
+        // Enemy Mana bar - only casters from the sprite moveset have one
+        if (combat.maxEnemyMana > 0) {
+            this.drawBar(enemyBoxX + 10, boxY + 77, boxW - 20, 10,
+                combat.enemyMana, combat.maxEnemyMana, '#00f', '#003', 'MP');
+        }
+
+        // Boss phase and arena hazard
+        if (combat.bossPhaseIndex >= 0) {
+            this.ctx.fillStyle = '#f80';
+            this.ctx.font = 'bold 11px monospace';
+            this.ctx.textAlign = 'left';
+            this.ctx.fillText(`Phase: ${combat.bossPhases[combat.bossPhaseIndex].name}`, enemyBoxX + 10, boxY + 100);
+        }
+        if (combat.arenaEffect) {
+            const arena = ARENA_EFFECT_INFO[combat.arenaEffect];
+            this.ctx.fillStyle = arena.color;
+            this.ctx.font = '11px monospace';
+            this.ctx.textAlign = 'left';
+            this.ctx.fillText(arena.name, enemyBoxX + 10, boxY + 114);
+        }
+
+        // Statuses from move specials, under each combatant's box
+        this.drawCombatStatuses(combat.playerStatuses, playerBoxX, boxY + boxH + 14);
+        this.drawCombatStatuses(combat.enemyStatuses, enemyBoxX, boxY + boxH + 14);
+
         // ========== CENTER ARENA ==========
         const arenaY = 200;
 
@@ -427,6 +586,42 @@ export class Renderer {
         this.ctx.fillStyle = '#fff';
         this.ctx.fillText(combat.enemy.char, enemySpriteX + 25 + enemyOffset, spriteY + 55);
 
+        // Summoned minions stand behind the boss
+        combat.getLivingAdds().forEach((add, i) => {
+            const addX = enemySpriteX + 70 + i * 40;
+            const addY = spriteY + 30;
+            this.ctx.fillStyle = add.color;
+            this.ctx.fillRect(addX, addY, 30, 50);
+            this.ctx.fillStyle = '#fff';
+            this.ctx.font = '18px monospace';
+            this.ctx.fillText(add.char, addX + 15, addY + 32);
+            this.ctx.fillStyle = '#300';
+            this.ctx.fillRect(addX, addY - 8, 30, 4);
+            this.ctx.fillStyle = '#f00';
+            this.ctx.fillRect(addX, addY - 8, 30 * (add.stats.hp / add.stats.maxHp), 4);
+            if (combat.targetedAdd === add) {
+                this.ctx.strokeStyle = '#ff0';
+                this.ctx.lineWidth = 2;
+                this.ctx.strokeRect(addX - 2, addY - 2, 34, 54);
+            }
+        });
+        if (combat.getLivingAdds().length > 0 && combat.phase === CombatPhase.SelectAction) {
+            this.ctx.fillStyle = '#ff0';
+            this.ctx.font = '11px monospace';
+            this.ctx.fillText(`[${keyOf('combatRetarget')}] Target: ${(combat.targetedAdd ?? combat.enemy).name}`, enemySpriteX + 70, spriteY + 100);
+        }
+        this.ctx.font = '30px monospace';
+
+        // Charged attack warning over the boss
+        if (combat.charging && combat.chargedAttack && combat.phase !== CombatPhase.Result) {
+            const pulse = 0.6 + Math.sin(Date.now() / 120) * 0.4;
+            this.ctx.fillStyle = `rgba(255, 80, 0, ${pulse})`;
+            this.ctx.font = 'bold 14px monospace';
+            this.ctx.fillText(`${combat.chargedAttack.name.toUpperCase()}!`, enemySpriteX + 25, spriteY - 24);
+            this.ctx.fillStyle = `rgba(0, 170, 255, ${pulse})`;
+            this.ctx.fillText(`[${keyOf('combatGuard')}] GUARD!`, enemySpriteX + 25, spriteY - 8);
+        }
+
         // Draw effects with ink-style animations
         for (const effect of combat.effects) {
             const alpha = effect.life / effect.maxLife;
@@ -480,43 +675,41 @@ export class Renderer {
             this.ctx.textAlign = 'center';
             this.ctx.fillText('[ SELECT YOUR ACTION ]', centerX, menuY + 20);
 
-            // Draw action buttons
-            const actions = [
-                { key: '1', name: 'Strike', cost: '15 ST', color: '#f80' },
-                { key: '2', name: 'Guard', cost: '10 ST', color: '#0af' },
-                { key: '3', name: 'Feint', cost: '20 ST', color: '#0f8' },
-                { key: '4', name: 'Heavy', cost: '30 ST', color: '#f44' },
-                { key: 'Q', name: 'Heal', cost: '12 MP', color: '#0f0' },
-                { key: 'W', name: 'Fireball', cost: '15 MP', color: '#f80' },
-                { key: 'E', name: 'Premonition', cost: '8 MP', color: '#a0f' },
-                { key: 'R', name: 'Execute', cost: '3 Combo', color: '#ff0' },
-            ];
+            // Draw action buttons - class moves take over their slot's key
+            const slotColors: Partial<Record<BindingAction, string>> = {
+                combatStrike: '#f80', combatGuard: '#0af', combatFeint: '#0f8', combatHeavy: '#f44',
+                combatHeal: '#0f0', combatFireball: '#f80', combatPremonition: '#a0f', combatExecute: '#ff0'
+            };
+            const actions = combat.getAvailableActions().map(entry => ({
+                binding: entry.binding!,
+                name: entry.id === CombatAction.HeavyStrike && !entry.move ? 'Heavy' : entry.name,
+                cost: entry.id === CombatAction.Execute ? `${combat.maxComboPoints} Combo`
+                    : entry.manaCost > 0 ? `${entry.manaCost} MP` : `${entry.staminaCost} ST`,
+                color: entry.move ? '#fd0' : slotColors[entry.binding!] ?? '#fff',
+                canUse: combat.canUseAction(entry.id, entry.move)
+            }));
 
-            const btnW = 85;
             const btnH = 50;
             const startX = 35;
+            const btnW = Math.min(85, Math.floor((this.canvas.width - startX * 2) / actions.length) - 5);
 
             for (let i = 0; i < actions.length; i++) {
                 const action = actions[i];
-                const x = startX + (i % 8) * (btnW + 5);
+                const x = startX + i * (btnW + 5);
                 const y = menuY + 35;
-
-                // Check if can use
-                let canUse = true;
-                if (action.key === 'R' && combat.comboPoints < combat.maxComboPoints) canUse = false;
-                if (action.cost.includes('ST') && parseInt(action.cost) > combat.playerStamina) canUse = false;
-                if (action.cost.includes('MP') && parseInt(action.cost) > combat.player.stats.mana) canUse = false;
+                const canUse = action.canUse;
 
                 this.ctx.fillStyle = canUse ? 'rgba(60, 60, 80, 0.9)' : 'rgba(30, 30, 40, 0.5)';
                 this.ctx.fillRect(x, y, btnW, btnH);
                 this.ctx.strokeStyle = canUse ? action.color : '#333';
                 this.ctx.lineWidth = 2;
                 this.ctx.strokeRect(x, y, btnW, btnH);
+                this.addHitRegion(x, y, btnW, btnH, { action: action.binding });
 
                 this.ctx.fillStyle = canUse ? '#fff' : '#555';
                 this.ctx.font = 'bold 11px monospace';
                 this.ctx.textAlign = 'center';
-                this.ctx.fillText(`[${action.key}] ${action.name}`, x + btnW / 2, y + 20);
+                this.ctx.fillText(`[${keyOf(action.binding)}] ${action.name}`, x + btnW / 2, y + 20, btnW - 6);
                 this.ctx.font = '10px monospace';
                 this.ctx.fillStyle = canUse ? action.color : '#444';
                 this.ctx.fillText(action.cost, x + btnW / 2, y + 38);
@@ -528,7 +721,9 @@ export class Renderer {
             this.ctx.fillText('** PREMONITION **', centerX, menuY + 30);
             this.ctx.fillStyle = '#fff';
             this.ctx.font = '16px monospace';
-            const enemyActionName = ACTIONS[combat.enemyIntendedAction]?.name || 'Unknown';
+            const enemyActionName = combat.charging && combat.chargedAttack
+                ? combat.chargedAttack.name
+                : combat.enemyIntendedMove?.name ?? ACTIONS[combat.enemyIntendedAction]?.name ?? 'Unknown';
             this.ctx.fillText(`Enemy will use: ${enemyActionName}`, centerX, menuY + 55);
             this.ctx.fillStyle = '#888';
             this.ctx.font = '12px monospace';
@@ -575,10 +770,56 @@ export class Renderer {
             logY += 15;
         }
 
+        if (combat.phaseBanner) {
+            this.drawBossPhaseBanner(combat.phaseBanner);
+        }
+
         // Reset text align
         this.ctx.textAlign = 'left';
     }
 
+    private drawCombatStatuses(statuses: CombatStatuses, x: number, y: number) {
+        this.ctx.font = 'bold 10px monospace';
+        this.ctx.textAlign = 'left';
+        for (const status of Object.keys(statuses) as CombatStatus[]) {
+            const turns = statuses[status] ?? 0;
+            if (turns <= 0) continue;
+            const info = COMBAT_STATUS_INFO[status];
+            const label = `${info.name.toUpperCase()} ${turns}`;
+            this.ctx.fillStyle = info.color;
+            this.ctx.fillText(label, x, y);
+            x += this.ctx.measureText(label).width + 10;
+        }
+    }
+
+    // Full-width strip announcing a boss phase, sliding in then fading out
+    private drawBossPhaseBanner(banner: { title: string; subtitle: string; timer: number }) {
+        const centerX = this.canvas.width / 2;
+        const elapsed = PHASE_BANNER_FRAMES - banner.timer;
+        const slide = Math.min(1, elapsed / 15);
+        const alpha = Math.min(1, banner.timer / 20);
+        const y = 150;
+
+        this.ctx.save();
+        this.ctx.globalAlpha = alpha;
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+        this.ctx.fillRect(0, y, this.canvas.width * slide, 70);
+        this.ctx.fillStyle = '#f80';
+        this.ctx.fillRect(0, y, this.canvas.width * slide, 3);
+        this.ctx.fillRect(this.canvas.width * (1 - slide), y + 67, this.canvas.width * slide, 3);
+
+        if (slide >= 1) {
+            this.ctx.textAlign = 'center';
+            this.ctx.fillStyle = '#f80';
+            this.ctx.font = 'bold 28px monospace';
+            this.ctx.fillText(banner.title, centerX, y + 34);
+            this.ctx.fillStyle = '#fff';
+            this.ctx.font = '14px monospace';
+            this.ctx.fillText(banner.subtitle, centerX, y + 56);
+        }
+        this.ctx.restore();
+    }
+
     // Pokemon-style combat intro animation
     private drawCombatIntro(combat: CombatSystem) {
         const centerX = this.canvas.width / 2;
@@ -756,6 +997,7 @@ export class Renderer {
                 this.ctx.fillStyle = 'rgba(255, 255, 0, 0.2)';
                 this.ctx.fillRect(enemyListX + 5, y - 8, enemyListW - 10, 28);
             }
+            if (isSelectingTarget) this.addHitRegion(enemyListX + 5, y - 8, enemyListW - 10, 28, { row: i });
 
             // Enemy name and HP
             this.ctx.fillStyle = isSelected ? '#ff0' : '#fff';
@@ -807,7 +1049,7 @@ export class Renderer {
             this.ctx.fillStyle = '#ff0';
             this.ctx.font = 'bold 16px monospace';
             this.ctx.textAlign = 'center';
-            this.ctx.fillText('[ SELECT TARGET - Press ENTER to confirm ]', centerX, menuY + 30);
+            this.ctx.fillText(`[ SELECT TARGET - Press ${keyOf('confirm')} to confirm ]`, centerX, menuY + 30);
             this.ctx.fillStyle = '#888';
             this.ctx.font = '12px monospace';
             this.ctx.fillText('Use UP/DOWN arrows to choose which enemy to attack', centerX, menuY + 55);
@@ -821,14 +1063,14 @@ export class Renderer {
 
             // Draw action buttons
             const actions = [
-                { key: '1', name: 'Strike', cost: '15 ST', color: '#f80' },
-                { key: '2', name: 'Guard', cost: '10 ST', color: '#0af' },
-                { key: '3', name: 'Feint', cost: '20 ST', color: '#0f8' },
-                { key: '4', name: 'Heavy', cost: '30 ST', color: '#f44' },
-                { key: 'Q', name: 'Heal', cost: '12 MP', color: '#0f0' },
-                { key: 'W', name: 'Fire (AOE)', cost: '15 MP', color: '#f80' },
-                { key: 'E', name: 'Premonition', cost: '8 MP', color: '#a0f' },
-                { key: 'R', name: 'Execute', cost: '3 Combo', color: '#ff0' },
+                { binding: 'combatStrike' as BindingAction, name: 'Strike', cost: '15 ST', color: '#f80' },
+                { binding: 'combatGuard' as BindingAction, name: 'Guard', cost: '10 ST', color: '#0af' },
+                { binding: 'combatFeint' as BindingAction, name: 'Feint', cost: '20 ST', color: '#0f8' },
+                { binding: 'combatHeavy' as BindingAction, name: 'Heavy', cost: '30 ST', color: '#f44' },
+                { binding: 'combatHeal' as BindingAction, name: 'Heal', cost: '12 MP', color: '#0f0' },
+                { binding: 'combatFireball' as BindingAction, name: 'Fire (AOE)', cost: '15 MP', color: '#f80' },
+                { binding: 'combatPremonition' as BindingAction, name: 'Premonition', cost: '8 MP', color: '#a0f' },
+                { binding: 'combatExecute' as BindingAction, name: 'Execute', cost: '3 Combo', color: '#ff0' },
             ];
 
             const btnW = 85;
@@ -841,7 +1083,7 @@ export class Renderer {
                 const y = menuY + 35;
 
                 let canUse = true;
-                if (action.key === 'R' && combat.comboPoints < combat.maxComboPoints) canUse = false;
+                if (action.name === 'Execute' && combat.comboPoints < combat.maxComboPoints) canUse = false;
                 if (action.cost.includes('ST') && parseInt(action.cost) > combat.playerStamina) canUse = false;
                 if (action.cost.includes('MP') && parseInt(action.cost) > combat.player.stats.mana) canUse = false;
 
@@ -850,11 +1092,12 @@ export class Renderer {
                 this.ctx.strokeStyle = canUse ? action.color : '#333';
                 this.ctx.lineWidth = 2;
                 this.ctx.strokeRect(x, y, btnW, btnH);
+                this.addHitRegion(x, y, btnW, btnH, { action: action.binding });
 
                 this.ctx.fillStyle = canUse ? '#fff' : '#555';
                 this.ctx.font = 'bold 10px monospace';
                 this.ctx.textAlign = 'center';
-                this.ctx.fillText(`[${action.key}] ${action.name}`, x + btnW / 2, y + 18);
+                this.ctx.fillText(`[${keyOf(action.binding)}] ${action.name}`, x + btnW / 2, y + 18);
                 this.ctx.font = '9px monospace';
                 this.ctx.fillStyle = canUse ? action.color : '#444';
                 this.ctx.fillText(action.cost, x + btnW / 2, y + 34);
@@ -999,86 +1242,730 @@ export class Renderer {
         this.ctx.fillText('MP:', barX, 38);
         this.drawBar(barX + 30, 26, 100, 14, player.stats.mana, player.stats.maxMana, '#00f', '#003', '');
 
-        // Right side: Stats
-        this.ctx.fillStyle = 'white';
-        this.ctx.fillText(`ATK: ${player.stats.attack}  DEF: ${player.stats.defense}`, 420, 18);
+        // Right side: Stats
+        this.ctx.fillStyle = 'white';
+        this.ctx.fillText(`ATK: ${player.stats.attack}  DEF: ${player.stats.defense}`, 420, 18);
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '10px monospace';
+        this.ctx.fillText(`[${keyOf('autoExplore')}]Explore [${keyOf('travelTo')}]Travel`, 575, 18);
+
+        // Controls hint (moved to not overlap with skills)
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '10px monospace';
+        this.ctx.fillText(`[${keyOf('stats')}]Stats [${keyOf('equipment')}]Equip [${keyOf('crafting')}]Craft [${keyOf('notifications')}]Notif [${keyOf('saves')}]Save`, 420, 38);
+
+        // Draw Skills (moved further right to avoid overlap)
+        this.ctx.fillStyle = '#aaa';
+        this.ctx.font = '11px monospace';
+        this.ctx.fillText(`[${keyOf('skill1')}]Heal [${keyOf('skill2')}]Fire`, 700, 18);
+        this.ctx.fillText(`[${keyOf('skillTree')}]Skills [${keyOf('multiclass')}]Multi`, 700, 38);
+
+        // Draw logs at bottom
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        this.ctx.fillRect(0, this.canvas.height - 80, this.canvas.width, 80);
+
+        this.ctx.fillStyle = '#ccc';
+        this.ctx.font = '12px monospace';
+        let y = this.canvas.height - 65;
+        for (let i = logs.length - 1; i >= Math.max(0, logs.length - 4); i--) {
+            this.ctx.fillText(logs[i], 10, y);
+            y += 16;
+        }
+    }
+
+    // Co-op party panel under the minimap
+    drawCoopParty(player: Player, partner: Player | null, peers: CoopPlayerState[], floor: number) {
+        const members = [
+            { name: 'You', hp: player.stats.hp, maxHp: player.stats.maxHp, level: player.stats.level, color: player.color, away: false }
+        ];
+        if (partner) {
+            members.push({ name: partner.name, hp: partner.isDead ? 0 : partner.stats.hp, maxHp: partner.stats.maxHp, level: partner.stats.level, color: partner.color, away: false });
+        }
+        for (const peer of peers) {
+            members.push({ name: peer.name, hp: peer.hp, maxHp: peer.maxHp, level: peer.level, color: peer.color, away: peer.floor !== floor });
+        }
+
+        const x = this.canvas.width - 210;
+        const y = 220;
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        this.ctx.fillRect(x, y, 200, 20 + members.length * 18);
+
+        this.ctx.fillStyle = '#4af';
+        this.ctx.font = 'bold 11px monospace';
+        this.ctx.textAlign = 'left';
+        this.ctx.textBaseline = 'alphabetic';
+        this.ctx.fillText('CO-OP PARTY', x + 6, y + 14);
+
+        members.forEach((m, i) => {
+            const rowY = y + 32 + i * 18;
+            this.ctx.fillStyle = m.color;
+            this.ctx.fillRect(x + 6, rowY - 8, 8, 8);
+            this.ctx.fillStyle = m.away ? '#666' : '#fff';
+            this.ctx.font = '10px monospace';
+            this.ctx.fillText(`${m.name.substring(0, 10)} Lv.${m.level}`, x + 18, rowY);
+
+            // HP bar
+            this.ctx.fillStyle = '#400';
+            this.ctx.fillRect(x + 120, rowY - 8, 72, 6);
+            this.ctx.fillStyle = m.hp > 0 ? '#0c0' : '#555';
+            this.ctx.fillRect(x + 120, rowY - 8, 72 * Math.max(0, m.hp / m.maxHp), 6);
+        });
+    }
+
+    drawReaperWarning(moveCount: number, threshold: number, reaperSpawned: boolean) {
+        // Draw reaper warning/timer at top-right
+        const movesRemaining = threshold - moveCount;
+        const percent = moveCount / threshold;
+
+        this.ctx.save();
+        this.ctx.textAlign = 'right';
+        this.ctx.font = '12px monospace';
+
+        if (reaperSpawned) {
+            // Reaper is active - flash warning
+            const flash = Math.floor(Date.now() / 300) % 2 === 0;
+            this.ctx.fillStyle = flash ? '#ff0000' : '#880088';
+            this.ctx.fillText('☠ REAPER HUNTING ☠', this.canvas.width - 10, 18);
+        } else if (percent >= 0.75) {
+            // Critical warning
+            const flash = Math.floor(Date.now() / 500) % 2 === 0;
+            this.ctx.fillStyle = flash ? '#ff0000' : '#ff8800';
+            this.ctx.fillText(`⚠ REAPER: ${movesRemaining} moves ⚠`, this.canvas.width - 10, 18);
+        } else if (percent >= 0.5) {
+            // Warning
+            this.ctx.fillStyle = '#ffaa00';
+            this.ctx.fillText(`Reaper: ${movesRemaining} moves`, this.canvas.width - 10, 18);
+        } else {
+            // Normal display
+            this.ctx.fillStyle = '#888888';
+            this.ctx.fillText(`Moves: ${movesRemaining}`, this.canvas.width - 10, 18);
+        }
+
+        this.ctx.restore();
+    }
+
+    drawLevelUp(player: Player) {
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        this.ctx.fillStyle = 'white';
+        this.ctx.font = '30px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText("LEVEL UP!", this.canvas.width / 2, 100);
+
+        this.ctx.font = '20px monospace';
+        this.ctx.fillText(`Points Remaining: ${player.stats.skillPoints}`, this.canvas.width / 2, 140);
+
+        this.ctx.textAlign = 'left';
+        const x = this.canvas.width / 2 - 150;
+        let y = 200;
+
+        for (let i = 0; i < 4; i++) this.addHitRegion(x - 10, y - 25 + i * 40, 320, 36, { key: String(i + 1) });
+        this.ctx.fillText(`[1] Max HP (+10)   : ${player.stats.maxHp}`, x, y); y += 40;
+        this.ctx.fillText(`[2] Max Mana (+10) : ${player.stats.maxMana}`, x, y); y += 40;
+        this.ctx.fillText(`[3] Attack (+2)    : ${player.stats.attack}`, x, y); y += 40;
+        this.ctx.fillText(`[4] Defense (+1)   : ${player.stats.defense}`, x, y); y += 40;
+    }
+
+    drawPressurePlate(plate: PressurePlate, map: GameMap, camX: number, camY: number) {
+        if (!map.visible[plate.y][plate.x]) return;
+
+        const screenX = plate.x - camX;
+        const screenY = plate.y - camY;
+
+        if (screenX < 0 || screenX >= VIEWPORT_WIDTH || screenY < 0 || screenY >= VIEWPORT_HEIGHT) return;
+
+        const px = screenX * TILE_SIZE;
+        const py = screenY * TILE_SIZE;
+
+        // Raised stone plate, glowing once pressed
+        this.ctx.fillStyle = plate.activated ? '#ffc832' : '#777';
+        this.ctx.fillRect(px + 4, py + 4, TILE_SIZE - 8, TILE_SIZE - 8);
+        this.ctx.strokeStyle = plate.activated ? '#ffdd66' : '#444';
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(px + 4, py + 4, TILE_SIZE - 8, TILE_SIZE - 8);
+        this.ctx.lineWidth = 1;
+    }
+
+    drawShrine(shrine: Shrine, map: GameMap, camX: number, camY: number) {
+        if (!map.visible[shrine.y][shrine.x]) return;
+
+        const screenX = shrine.x - camX;
+        const screenY = shrine.y - camY;
+
+        if (screenX < 0 || screenX >= VIEWPORT_WIDTH || screenY < 0 || screenY >= VIEWPORT_HEIGHT) return;
+
+        const px = screenX * TILE_SIZE;
+        const py = screenY * TILE_SIZE;
+        const glow = shrine.effect.positive ? '#ffd700' : '#b0f';
+
+        // Altar base
+        this.ctx.fillStyle = '#666';
+        this.ctx.fillRect(px + 6, py + 18, TILE_SIZE - 12, 10);
+        this.ctx.fillStyle = '#888';
+        this.ctx.fillRect(px + 10, py + 12, TILE_SIZE - 20, 6);
+
+        // Flame (gone once spent)
+        if (!shrine.used) {
+            const flicker = Math.sin(Date.now() / 150) * 2;
+            this.ctx.fillStyle = this.hexToRgba(glow, 0.3);
+            this.ctx.beginPath();
+            this.ctx.arc(px + TILE_SIZE / 2, py + 8, 8 + flicker, 0, Math.PI * 2);
+            this.ctx.fill();
+            this.ctx.fillStyle = glow;
+            this.ctx.beginPath();
+            this.ctx.arc(px + TILE_SIZE / 2, py + 8, 4, 0, Math.PI * 2);
+            this.ctx.fill();
+        }
+    }
+
+    drawMerchant(merchant: MerchantConfig, map: GameMap, camX: number, camY: number) {
+        if (!map.visible[merchant.y][merchant.x]) return;
+
+        const screenX = merchant.x - camX;
+        const screenY = merchant.y - camY;
+
+        if (screenX < 0 || screenX >= VIEWPORT_WIDTH || screenY < 0 || screenY >= VIEWPORT_HEIGHT) return;
+
+        const px = screenX * TILE_SIZE;
+        const py = screenY * TILE_SIZE;
+
+        // Stall counter with awning
+        this.ctx.fillStyle = '#643';
+        this.ctx.fillRect(px + 3, py + 16, TILE_SIZE - 6, 12);
+        this.ctx.fillStyle = '#c33';
+        this.ctx.fillRect(px + 2, py + 4, TILE_SIZE - 4, 6);
+        this.ctx.fillStyle = '#eee';
+        for (let i = 0; i < 4; i++) {
+            this.ctx.fillRect(px + 4 + i * 7, py + 4, 3, 6);
+        }
+
+        this.ctx.fillStyle = '#fd0';
+        this.ctx.font = 'bold 12px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText('$', px + TILE_SIZE / 2, py + 26);
+    }
+
+    drawShop(merchant: MerchantConfig, mode: 'buy' | 'sell', selectedIndex: number, player: Player) {
+        this.ctx.fillStyle = 'rgba(10, 10, 30, 0.95)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        this.ctx.fillStyle = '#ffa500';
+        this.ctx.font = 'bold 24px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText('-- MERCHANT --', this.canvas.width / 2, 40);
+
+        // Player gold
+        this.ctx.fillStyle = '#fd0';
+        this.ctx.font = '14px monospace';
+        this.ctx.textAlign = 'right';
+        this.ctx.fillText(`Gold: ${player.inventory.gold}`, this.canvas.width - 30, 40);
+
+        // Buy / Sell tabs
+        this.ctx.textAlign = 'center';
+        this.ctx.font = 'bold 16px monospace';
+        this.ctx.fillStyle = mode === 'buy' ? '#4af' : '#555';
+        this.ctx.fillText('[ BUY ]', this.canvas.width / 2 - 80, 72);
+        this.ctx.fillStyle = mode === 'sell' ? '#4af' : '#555';
+        this.ctx.fillText('[ SELL ]', this.canvas.width / 2 + 80, 72);
+
+        const rows = mode === 'buy'
+            ? merchant.items.map(item => ({
+                name: item.quantity > 1 ? `${item.name} x${item.quantity}` : item.name,
+                description: item.description,
+                price: item.cost,
+                color: item.equipment ? RARITY_COLORS[item.equipment.rarity] : '#fff',
+                available: item.quantity > 0 && player.inventory.gold >= item.cost,
+                soldOut: item.quantity <= 0
+            }))
+            : player.inventory.equipment.map(eq => ({
+                name: eq.name,
+                description: eq.description,
+                price: getEquipmentValue(eq),
+                color: RARITY_COLORS[eq.rarity],
+                available: true,
+                soldOut: false
+            }));
+
+        this.ctx.textAlign = 'left';
+        this.ctx.font = '14px monospace';
+        let y = 110;
+
+        if (rows.length === 0) {
+            this.ctx.fillStyle = '#888';
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText(mode === 'buy' ? 'Nothing left to buy.' : 'No unequipped gear to sell.', this.canvas.width / 2, y);
+        }
+
+        // Only show a window of rows around the selection
+        const maxRows = 8;
+        const start = Math.max(0, Math.min(selectedIndex - Math.floor(maxRows / 2), rows.length - maxRows));
+        for (let i = start; i < Math.min(rows.length, start + maxRows); i++) {
+            const row = rows[i];
+            const isSelected = i === selectedIndex;
+
+            if (isSelected) {
+                this.ctx.fillStyle = row.available ? 'rgba(68, 170, 255, 0.3)' : 'rgba(255, 0, 0, 0.25)';
+                this.ctx.fillRect(30, y - 14, this.canvas.width - 60, 36);
+            }
+
+            this.ctx.textAlign = 'left';
+            this.ctx.fillStyle = row.soldOut ? '#555' : row.color;
+            this.ctx.fillText(row.name, 40, y);
+
+            this.ctx.textAlign = 'right';
+            this.ctx.fillStyle = row.soldOut ? '#555' : (row.available ? '#fd0' : '#800');
+            this.ctx.fillText(row.soldOut ? 'SOLD OUT' : `${row.price} gold`, this.canvas.width - 40, y);
+
+            this.ctx.textAlign = 'left';
+            this.ctx.fillStyle = '#888';
+            this.ctx.font = '11px monospace';
+            this.ctx.fillText(row.description.substring(0, 80), 50, y + 14);
+            this.ctx.font = '14px monospace';
+
+            y += 40;
+        }
+
+        // Controls
+        this.ctx.fillStyle = '#888';
+        this.ctx.textAlign = 'center';
+        this.ctx.font = '12px monospace';
+        this.ctx.fillText(`[${keyOf('moveUp')}/${keyOf('moveDown')}] Select  [${keyOf('switchShopMode')}] Buy/Sell  [${keyOf('confirm')}] ${mode === 'buy' ? 'Buy' : 'Sell'}  [${keyOf('cancel')}] Leave`, this.canvas.width / 2, this.canvas.height - 20);
+    }
+
+    drawSaveSlots(slots: SaveSlotInfo[], maxSlots: number, selectedIndex: number, activeSlot: number, isNaming: boolean, nameInput: string, importErrors: string[] = []) {
+        this.ctx.fillStyle = 'rgba(10, 10, 30, 0.98)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        const centerX = this.canvas.width / 2;
+
+        this.ctx.fillStyle = '#fff';
+        this.ctx.font = 'bold 28px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText('SAVE SLOTS', centerX, 45);
+
+        for (let i = 0; i < maxSlots; i++) {
+            const slot = i + 1;
+            const info = slots.find(s => s.slot === slot);
+            const y = 95 + i * 62;
+            const isSelected = i === selectedIndex;
+
+            this.ctx.fillStyle = isSelected ? 'rgba(100, 150, 255, 0.3)' : 'rgba(50, 50, 80, 0.5)';
+            this.ctx.fillRect(centerX - 250, y - 22, 500, 52);
+            this.ctx.strokeStyle = slot === activeSlot ? '#0f0' : (isSelected ? '#4af' : '#444');
+            this.ctx.lineWidth = 2;
+            this.ctx.strokeRect(centerX - 250, y - 22, 500, 52);
+
+            this.ctx.textAlign = 'left';
+            if (!info) {
+                this.ctx.fillStyle = isSelected ? '#aaa' : '#555';
+                this.ctx.font = 'bold 16px monospace';
+                this.ctx.fillText(`Slot ${slot} - Empty`, centerX - 235, y + 8);
+                continue;
+            }
+
+            const name = isSelected && isNaming ? `${nameInput}_` : info.name;
+            this.ctx.fillStyle = isSelected ? '#fff' : '#aaa';
+            this.ctx.font = 'bold 16px monospace';
+            this.ctx.fillText(name, centerX - 235, y);
+            this.ctx.font = '12px monospace';
+            this.ctx.fillStyle = isSelected ? '#aaa' : '#666';
+            this.ctx.fillText(`${info.className} Lv.${info.level} - Floor ${info.floor}`, centerX - 235, y + 20);
+
+            this.ctx.textAlign = 'right';
+            this.ctx.fillText(new Date(info.savedAt).toLocaleString(), centerX + 235, y + 20);
+            if (slot === activeSlot) {
+                this.ctx.fillStyle = '#0f0';
+                this.ctx.font = 'bold 12px monospace';
+                this.ctx.fillText('PLAYING', centerX + 235, y);
+            }
+        }
+
+        // Problems with the last imported file
+        if (importErrors.length > 0) {
+            this.ctx.textAlign = 'left';
+            this.ctx.font = '11px monospace';
+            this.ctx.fillStyle = '#f66';
+            this.ctx.fillText('Import failed:', centerX - 250, 398);
+            importErrors.slice(0, 3).forEach((error, i) => {
+                this.ctx.fillText(`- ${error}`.substring(0, 80), centerX - 240, 412 + i * 13);
+            });
+            if (importErrors.length > 3) {
+                this.ctx.fillText(`(+${importErrors.length - 3} more)`, centerX - 240, 451);
+            }
+        }
+
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '12px monospace';
+        const controls = isNaming
+            ? '[ENTER] Confirm name | [ESC] Cancel'
+            : `[${keyOf('confirm')}] Load/Save here [${keyOf('newRun')}] New [${keyOf('rename')}] Rename [${keyOf('delete')}] Delete ` +
+              `[${keyOf('exportFile')}] Export [${keyOf('importFile')}] Import [${keyOf('cancel')}] Back`;
+        this.ctx.fillText(controls, centerX, this.canvas.height - 20);
+    }
+
+    drawTravelMenu(destinations: { name: string; x: number; y: number }[], selectedIndex: number, player: Entity) {
+        this.ctx.fillStyle = 'rgba(10, 10, 30, 0.95)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        const centerX = this.canvas.width / 2;
+
+        this.ctx.fillStyle = '#fff';
+        this.ctx.font = 'bold 24px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText('-- TRAVEL TO --', centerX, 40);
+
+        if (destinations.length === 0) {
+            this.ctx.fillStyle = '#666';
+            this.ctx.font = '14px monospace';
+            this.ctx.fillText('Nowhere known yet - explore first', centerX, 120);
+        }
+
+        // Scroll so the selection stays in view
+        const visibleRows = 16;
+        const start = Math.max(0, Math.min(selectedIndex - Math.floor(visibleRows / 2), destinations.length - visibleRows));
+        destinations.slice(start, start + visibleRows).forEach((dest, i) => {
+            const index = start + i;
+            const y = 80 + i * 22;
+            const isSelected = index === selectedIndex;
+            this.addHitRegion(centerX - 250, y - 15, 500, 20, { row: index });
+
+            if (isSelected) {
+                this.ctx.fillStyle = 'rgba(100, 150, 255, 0.3)';
+                this.ctx.fillRect(centerX - 250, y - 15, 500, 20);
+            }
+            this.ctx.font = '14px monospace';
+            this.ctx.textAlign = 'left';
+            this.ctx.fillStyle = isSelected ? '#ff0' : '#ccc';
+            this.ctx.fillText(`${isSelected ? '>' : ' '} ${dest.name}`, centerX - 240, y);
+
+            const distance = Math.abs(dest.x - player.x) + Math.abs(dest.y - player.y);
+            this.ctx.textAlign = 'right';
+            this.ctx.fillStyle = '#888';
+            this.ctx.fillText(`${distance} tiles`, centerX + 240, y);
+        });
+
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '12px monospace';
+        this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Select | [${keyOf('confirm')}] Travel | [${keyOf('cancel')}] Close`, centerX, this.canvas.height - 20);
+    }
+
+    drawKeyBindings(selectedIndex: number, selectedSlot: number, isCapturing: boolean) {
+        this.ctx.fillStyle = 'rgba(10, 10, 30, 0.98)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        const centerX = this.canvas.width / 2;
+
+        this.ctx.fillStyle = '#fff';
+        this.ctx.font = 'bold 28px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText('KEY BINDINGS', centerX, 45);
+
+        // Column headers
+        const labelX = centerX - 280;
+        const slotX = [centerX + 60, centerX + 180];
+        this.ctx.font = 'bold 12px monospace';
+        this.ctx.fillStyle = '#888';
+        this.ctx.textAlign = 'left';
+        this.ctx.fillText('ACTION', labelX, 75);
+        this.ctx.fillText('KEY 1', slotX[0], 75);
+        this.ctx.fillText('KEY 2', slotX[1], 75);
+
+        // Scroll so the selected action stays in view
+        const visibleRows = 20;
+        const start = Math.max(0, Math.min(selectedIndex - Math.floor(visibleRows / 2), BINDING_ACTIONS.length - visibleRows));
+        let lastGroup = start > 0 ? DEFAULT_KEY_BINDINGS[BINDING_ACTIONS[start - 1]].group : null;
+
+        BINDING_ACTIONS.slice(start, start + visibleRows).forEach((action, i) => {
+            const index = start + i;
+            const def = DEFAULT_KEY_BINDINGS[action];
+            const y = 95 + i * 17;
+            const isSelected = index === selectedIndex;
+
+            if (def.group !== lastGroup) {
+                lastGroup = def.group;
+                this.ctx.fillStyle = '#fa0';
+                this.ctx.font = 'bold 11px monospace';
+                this.ctx.textAlign = 'right';
+                this.ctx.fillText(def.group.toUpperCase(), labelX - 10, y);
+                this.ctx.textAlign = 'left';
+            }
+
+            if (isSelected) {
+                this.ctx.fillStyle = 'rgba(100, 150, 255, 0.3)';
+                this.ctx.fillRect(labelX - 5, y - 12, 560, 16);
+            }
+
+            this.ctx.font = '13px monospace';
+            this.ctx.fillStyle = isSelected ? '#fff' : '#aaa';
+            this.ctx.fillText(def.label, labelX, y);
+
+            const keys = KeyBindings.getKeys(action);
+            slotX.forEach((x, slot) => {
+                const isActiveSlot = isSelected && slot === selectedSlot;
+                if (isActiveSlot && isCapturing) {
+                    this.ctx.fillStyle = '#ff0';
+                    this.ctx.fillText('Press a key...', x, y);
+                    return;
+                }
+                const key = keys[slot];
+                this.ctx.fillStyle = isActiveSlot ? '#4af' : (key === undefined ? '#555' : '#ccc');
+                this.ctx.fillText(key === undefined ? '-' : formatKey(key), x, y);
+                if (isActiveSlot) {
+                    this.ctx.strokeStyle = '#4af';
+                    this.ctx.lineWidth = 1;
+                    this.ctx.strokeRect(x - 4, y - 12, 100, 16);
+                }
+            });
+        });
+
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '12px monospace';
+        const controls = isCapturing
+            ? 'Press the new key | [ESC] Cancel'
+            : '[↑↓] Action [←→] Slot [ENTER] Rebind [BKSP] Clear [r] Reset action [R] Reset all [ESC] Back';
+        this.ctx.fillText(controls, centerX, this.canvas.height - 20);
+    }
+
+    // Facing tick on the tile edge, plus ? when suspicious and ! when hunting
+    drawEnemyAwareness(enemy: Enemy, map: GameMap, camX: number, camY: number) {
+        if (!map.visible[enemy.y][enemy.x]) return;
+
+        const screenX = enemy.x - camX;
+        const screenY = enemy.y - camY;
+
+        if (screenX < 0 || screenX >= VIEWPORT_WIDTH || screenY < 0 || screenY >= VIEWPORT_HEIGHT) return;
+
+        const cx = screenX * TILE_SIZE + TILE_SIZE / 2;
+        const cy = screenY * TILE_SIZE + TILE_SIZE / 2;
+
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+        this.ctx.beginPath();
+        this.ctx.arc(cx + enemy.facing.x * (TILE_SIZE / 2 - 3), cy + enemy.facing.y * (TILE_SIZE / 2 - 3), 3, 0, Math.PI * 2);
+        this.ctx.fill();
+
+        if (enemy.alertState === AlertState.Unaware) return;
+        this.ctx.fillStyle = enemy.alertState === AlertState.Hunting ? '#f44' : '#fd0';
+        this.ctx.font = 'bold 14px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(enemy.alertState === AlertState.Hunting ? '!' : '?', cx, cy - TILE_SIZE / 2 - 6);
+        this.ctx.textAlign = 'left';
+    }
+
+    // Pulsing tiles along a ranged attack's line of fire, with the aimed-at tile outlined
+    drawRangedTelegraph(enemy: Enemy, map: GameMap, camX: number, camY: number) {
+        const target = enemy.aimedAt;
+        if (!target || !enemy.ranged) return;
+        if (!map.visible[enemy.y][enemy.x] && !map.visible[target.y][target.x]) return;
+
+        const color = enemy.ranged.color ?? '#f44';
+        const toX = (target.x - camX) * TILE_SIZE + TILE_SIZE / 2;
+        const toY = (target.y - camY) * TILE_SIZE + TILE_SIZE / 2;
+        const pulse = 0.5 + Math.sin(Date.now() / 120) * 0.3;
+
+        this.ctx.save();
+        this.ctx.fillStyle = color;
+        this.ctx.globalAlpha = pulse * 0.4;
+        for (const tile of target.line) {
+            this.ctx.fillRect((tile.x - camX) * TILE_SIZE, (tile.y - camY) * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+        }
+        this.ctx.globalAlpha = 1;
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(toX - TILE_SIZE / 2 + 1, toY - TILE_SIZE / 2 + 1, TILE_SIZE - 2, TILE_SIZE - 2);
+
+        // Turns until it lands
+        this.ctx.fillStyle = '#fff';
+        this.ctx.font = 'bold 12px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(String(Math.max(1, target.turns)), toX, toY + 4);
+        this.ctx.restore();
+    }
+
+    // Dimmed screen edges and a label while the player sneaks
+    drawSneakOverlay() {
+        const gradient = this.ctx.createRadialGradient(400, 240, 200, 400, 240, 480);
+        gradient.addColorStop(0, 'rgba(0, 0, 20, 0)');
+        gradient.addColorStop(1, 'rgba(0, 0, 20, 0.6)');
+        this.ctx.fillStyle = gradient;
+        this.ctx.fillRect(0, 50, this.canvas.width, this.canvas.height - 130);
+
+        this.ctx.fillStyle = '#88a';
+        this.ctx.font = 'bold 12px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(`SNEAKING [${keyOf('sneak')}]`, this.canvas.width / 2, this.canvas.height - 88);
+        this.ctx.textAlign = 'left';
+    }
+
+    // Remaining click-to-move steps and the destination
+    drawTravelPath(path: Point[], camX: number, camY: number) {
+        if (path.length === 0) return;
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+        for (const step of path) {
+            this.ctx.fillRect((step.x - camX) * TILE_SIZE + TILE_SIZE / 2 - 2, (step.y - camY) * TILE_SIZE + TILE_SIZE / 2 - 2, 4, 4);
+        }
+        const dest = path[path.length - 1];
+        this.ctx.strokeStyle = '#ff0';
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect((dest.x - camX) * TILE_SIZE + 2, (dest.y - camY) * TILE_SIZE + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+    }
+
+    private drawTouchButton(x: number, y: number, w: number, h: number, label: string, target: PointerTarget) {
+        this.ctx.fillStyle = 'rgba(40, 40, 60, 0.6)';
+        this.ctx.fillRect(x, y, w, h);
+        this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+        this.ctx.lineWidth = 1;
+        this.ctx.strokeRect(x, y, w, h);
+        this.ctx.fillStyle = '#fff';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(label, x + w / 2, y + h / 2 + 5);
+        this.addHitRegion(x, y, w, h, target);
+    }
+
+    // Virtual D-pad and buttons, drawn over everything on touch devices
+    drawTouchControls(layout: TouchLayout) {
+        const size = 44;
+        const padX = 15;
+        const padY = this.canvas.height - size * 3 - 15;
+
+        this.ctx.font = 'bold 16px monospace';
+        this.drawTouchButton(padX + size, padY, size, size, '▲', { action: 'moveUp' });
+        this.drawTouchButton(padX, padY + size, size, size, '◀', { action: 'moveLeft' });
+        this.drawTouchButton(padX + size * 2, padY + size, size, size, '▶', { action: 'moveRight' });
+        this.drawTouchButton(padX + size, padY + size * 2, size, size, '▼', { action: 'moveDown' });
+
+        const btnX = this.canvas.width - size * 2 - 25;
+        const btnY = this.canvas.height - size - 15;
+        this.drawTouchButton(btnX, btnY, size, size, 'A', { action: 'confirm' });
+        this.drawTouchButton(btnX + size + 10, btnY - size / 2, size, size, 'B', { action: 'cancel' });
+
+        this.ctx.font = '11px monospace';
+        if (layout === 'map') {
+            // Menu shortcuts in a row under the HUD, clear of the minimap
+            MAP_TOUCH_SHORTCUTS.forEach((shortcut, i) => {
+                this.drawTouchButton(10 + i * 58, 56, 54, 28, shortcut.label, { action: shortcut.action });
+            });
+        } else if (layout === 'digits') {
+            const keys = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0', 'Enter', 'Backspace'];
+            const keyW = 36;
+            const startX = this.canvas.width / 2 - (keys.length * (keyW + 4)) / 2;
+            keys.forEach((key, i) => {
+                const label = key === 'Enter' ? '⏎' : key === 'Backspace' ? '⌫' : key;
+                this.drawTouchButton(startX + i * (keyW + 4), this.canvas.height - 50, keyW, 36, label, { key });
+            });
+        }
+    }
+
+    drawCampfire(campfire: Campfire, map: GameMap, camX: number, camY: number) {
+        if (!map.visible[campfire.y][campfire.x]) return;
 
-        // Controls hint (moved to not overlap with skills)
-        this.ctx.fillStyle = '#666';
-        this.ctx.font = '10px monospace';
-        this.ctx.fillText('[TAB] Stats [I] Equip [C] Craft [N] Notif', 420, 38);
+        const screenX = campfire.x - camX;
+        const screenY = campfire.y - camY;
 
-        // Draw Skills (moved further right to avoid overlap)
-        this.ctx.fillStyle = '#aaa';
-        this.ctx.font = '11px monospace';
-        this.ctx.fillText(`[1]Heal [2]Fire`, 700, 18);
-        this.ctx.fillText(`[T]Skills [M]Multi`, 700, 38);
+        if (screenX < 0 || screenX >= VIEWPORT_WIDTH || screenY < 0 || screenY >= VIEWPORT_HEIGHT) return;
 
-        // Draw logs at bottom
-        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-        this.ctx.fillRect(0, this.canvas.height - 80, this.canvas.width, 80);
+        const px = screenX * TILE_SIZE;
+        const py = screenY * TILE_SIZE;
+        const cx = px + TILE_SIZE / 2;
 
-        this.ctx.fillStyle = '#ccc';
-        this.ctx.font = '12px monospace';
-        let y = this.canvas.height - 65;
-        for (let i = logs.length - 1; i >= Math.max(0, logs.length - 4); i--) {
-            this.ctx.fillText(logs[i], 10, y);
-            y += 16;
+        // Logs
+        this.ctx.fillStyle = '#5a3a1a';
+        this.ctx.fillRect(px + 5, py + 22, TILE_SIZE - 10, 5);
+        this.ctx.fillRect(px + 9, py + 19, TILE_SIZE - 18, 4);
+
+        if (campfire.used) {
+            // Smouldering embers
+            this.ctx.fillStyle = '#622';
+            this.ctx.fillRect(cx - 5, py + 17, 10, 3);
+            return;
         }
+
+        // Flickering flame
+        const flicker = Math.sin(Date.now() / 100) * 2;
+        this.ctx.fillStyle = 'rgba(255, 140, 0, 0.25)';
+        this.ctx.beginPath();
+        this.ctx.arc(cx, py + 14, 12 + flicker, 0, Math.PI * 2);
+        this.ctx.fill();
+        this.ctx.fillStyle = '#f80';
+        this.ctx.beginPath();
+        this.ctx.moveTo(cx - 7, py + 21);
+        this.ctx.lineTo(cx, py + 5 - flicker);
+        this.ctx.lineTo(cx + 7, py + 21);
+        this.ctx.fill();
+        this.ctx.fillStyle = '#ff0';
+        this.ctx.beginPath();
+        this.ctx.moveTo(cx - 3, py + 21);
+        this.ctx.lineTo(cx, py + 12 - flicker);
+        this.ctx.lineTo(cx + 3, py + 21);
+        this.ctx.fill();
     }
 
-    drawReaperWarning(moveCount: number, threshold: number, reaperSpawned: boolean) {
-        // Draw reaper warning/timer at top-right
-        const movesRemaining = threshold - moveCount;
-        const percent = moveCount / threshold;
+    drawTorch(torch: LightSource, map: GameMap, camX: number, camY: number) {
+        if (!map.visible[torch.y]?.[torch.x]) return;
 
-        this.ctx.save();
-        this.ctx.textAlign = 'right';
-        this.ctx.font = '12px monospace';
+        const screenX = torch.x - camX;
+        const screenY = torch.y - camY;
 
-        if (reaperSpawned) {
-            // Reaper is active - flash warning
-            const flash = Math.floor(Date.now() / 300) % 2 === 0;
-            this.ctx.fillStyle = flash ? '#ff0000' : '#880088';
-            this.ctx.fillText('☠ REAPER HUNTING ☠', this.canvas.width - 10, 18);
-        } else if (percent >= 0.75) {
-            // Critical warning
-            const flash = Math.floor(Date.now() / 500) % 2 === 0;
-            this.ctx.fillStyle = flash ? '#ff0000' : '#ff8800';
-            this.ctx.fillText(`⚠ REAPER: ${movesRemaining} moves ⚠`, this.canvas.width - 10, 18);
-        } else if (percent >= 0.5) {
-            // Warning
-            this.ctx.fillStyle = '#ffaa00';
-            this.ctx.fillText(`Reaper: ${movesRemaining} moves`, this.canvas.width - 10, 18);
-        } else {
-            // Normal display
-            this.ctx.fillStyle = '#888888';
-            this.ctx.fillText(`Moves: ${movesRemaining}`, this.canvas.width - 10, 18);
-        }
+        if (screenX < 0 || screenX >= VIEWPORT_WIDTH || screenY < 0 || screenY >= VIEWPORT_HEIGHT) return;
 
-        this.ctx.restore();
+        const cx = screenX * TILE_SIZE + TILE_SIZE / 2;
+        const py = screenY * TILE_SIZE;
+        const flicker = Math.sin(Date.now() / 90 + torch.x) * 1.5;
+
+        // Sconce
+        this.ctx.fillStyle = '#5a3a1a';
+        this.ctx.fillRect(cx - 2, py + 16, 4, 12);
+
+        // Flame
+        this.ctx.fillStyle = 'rgba(255, 160, 40, 0.3)';
+        this.ctx.beginPath();
+        this.ctx.arc(cx, py + 12, 9 + flicker, 0, Math.PI * 2);
+        this.ctx.fill();
+        this.ctx.fillStyle = '#f80';
+        this.ctx.beginPath();
+        this.ctx.moveTo(cx - 4, py + 17);
+        this.ctx.lineTo(cx, py + 5 - flicker);
+        this.ctx.lineTo(cx + 4, py + 17);
+        this.ctx.fill();
     }
 
-    drawLevelUp(player: Player) {
-        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    drawShrinePrompt(shrine: Shrine, floor: number) {
+        const boxW = 420;
+        const boxH = 170;
+        const boxX = this.canvas.width / 2 - boxW / 2;
+        const boxY = this.canvas.height / 2 - boxH / 2;
+        const color = shrine.effect.positive ? '#ffd700' : '#b0f';
+
+        this.ctx.fillStyle = 'rgba(10, 10, 20, 0.95)';
+        this.ctx.fillRect(boxX, boxY, boxW, boxH);
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(boxX, boxY, boxW, boxH);
+        this.ctx.lineWidth = 1;
 
-        this.ctx.fillStyle = 'white';
-        this.ctx.font = '30px monospace';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText("LEVEL UP!", this.canvas.width / 2, 100);
+        this.ctx.fillStyle = color;
+        this.ctx.font = 'bold 20px monospace';
+        this.ctx.fillText(shrine.effect.name, this.canvas.width / 2, boxY + 35);
 
-        this.ctx.font = '20px monospace';
-        this.ctx.fillText(`Points Remaining: ${player.stats.skillPoints}`, this.canvas.width / 2, 140);
+        this.ctx.fillStyle = '#fff';
+        this.ctx.font = '14px monospace';
+        this.ctx.fillText(shrine.effect.description, this.canvas.width / 2, boxY + 70);
 
-        this.ctx.textAlign = 'left';
-        const x = this.canvas.width / 2 - 150;
-        let y = 200;
+        if (shrine.effect.goldPerFloor) {
+            this.ctx.fillStyle = '#fd0';
+            this.ctx.fillText(`Offering: ${shrine.effect.goldPerFloor * floor} gold`, this.canvas.width / 2, boxY + 95);
+        }
 
-        this.ctx.fillText(`[1] Max HP (+10)   : ${player.stats.maxHp}`, x, y); y += 40;
-        this.ctx.fillText(`[2] Max Mana (+10) : ${player.stats.maxMana}`, x, y); y += 40;
-        this.ctx.fillText(`[3] Attack (+2)    : ${player.stats.attack}`, x, y); y += 40;
-        this.ctx.fillText(`[4] Defense (+1)   : ${player.stats.defense}`, x, y); y += 40;
+        this.ctx.fillStyle = '#aaa';
+        this.ctx.fillText('Accept the shrine\'s power?', this.canvas.width / 2, boxY + 125);
+
+        this.ctx.fillStyle = '#888';
+        this.ctx.font = '12px monospace';
+        this.ctx.fillText(`[${keyOf('accept')}] Accept | [${keyOf('decline')}] Decline`, this.canvas.width / 2, boxY + boxH - 15);
     }
 
     drawChest(chest: Chest, map: GameMap, camX: number, camY: number) {
@@ -1097,6 +1984,7 @@ export class Renderer {
         const asset = AssetManager.getAsset(assetId);
 
         if (asset && drawAsset(this.ctx, asset, px, py, TILE_SIZE)) {
+            if (chest.locked) this.drawChestLock(px, py);
             return; // Successfully drew asset
         }
 
@@ -1121,9 +2009,23 @@ export class Renderer {
             this.ctx.fillStyle = '#888';
             this.ctx.fillRect(cx - 2, cy - 2, 4, 4);
         }
+
+        if (chest.locked) this.drawChestLock(px, py);
+    }
+
+    // Padlock badge for chests sealed by a room puzzle
+    private drawChestLock(px: number, py: number) {
+        this.ctx.strokeStyle = '#0ff';
+        this.ctx.lineWidth = 2;
+        this.ctx.beginPath();
+        this.ctx.arc(px + TILE_SIZE - 8, py + 7, 3, Math.PI, 0);
+        this.ctx.stroke();
+        this.ctx.fillStyle = '#0ff';
+        this.ctx.fillRect(px + TILE_SIZE - 12, py + 7, 8, 6);
+        this.ctx.lineWidth = 1;
     }
 
-    drawStats(player: Player, floor: number) {
+    drawStats(player: Player, floor: number, seed: number) {
         this.ctx.fillStyle = 'rgba(10, 10, 20, 0.95)';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
@@ -1157,7 +2059,9 @@ export class Renderer {
 
         this.ctx.fillStyle = '#fff';
         this.ctx.fillText(`Floor: ${floor}`, x, y); y += lineHeight;
-        this.ctx.fillText(`Gold: ${player.inventory.gold}`, x, y); y += lineHeight * 1.5;
+        this.ctx.fillText(`Gold: ${player.inventory.gold}`, x, y); y += lineHeight;
+        this.ctx.fillStyle = '#888';
+        this.ctx.fillText(`Seed: ${seed}`, x, y); y += lineHeight * 1.5;
 
         // Combat stats
         this.ctx.fillStyle = '#f88';
@@ -1203,7 +2107,7 @@ export class Renderer {
         // Controls hint
         this.ctx.fillStyle = '#888';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText('Press [TAB] or [ESC] to close | [I] Equipment | [C] Crafting', this.canvas.width / 2, this.canvas.height - 20);
+        this.ctx.fillText(`Press [${keyOf('stats')}] or [${keyOf('cancel')}] to close | [${keyOf('equipment')}] Equipment | [${keyOf('crafting')}] Crafting | [${keyOf('keyBindings')}] Key Bindings`, this.canvas.width / 2, this.canvas.height - 20);
     }
 
     drawEquipment(player: Player, selectedIndex: number, slotCursor: number) {
@@ -1250,7 +2154,7 @@ export class Renderer {
         });
 
         this.ctx.fillStyle = '#888';
-        this.ctx.fillText('[U] Unequip selected slot', eqX, eqY + 20);
+        this.ctx.fillText(`[${keyOf('unequip')}] Unequip selected slot`, eqX, eqY + 20);
 
         // Inventory (right side)
         const invX = 350;
@@ -1266,6 +2170,7 @@ export class Renderer {
         } else {
             player.inventory.equipment.forEach((item, i) => {
                 const selected = selectedIndex === i;
+                this.addHitRegion(invX, invY - 14, 400, 18, { row: i });
                 this.ctx.fillStyle = selected ? '#ff0' : '#888';
                 this.ctx.fillText(selected ? '>' : ' ', invX, invY);
 
@@ -1302,7 +2207,7 @@ export class Renderer {
         this.ctx.fillStyle = '#888';
         this.ctx.font = '12px monospace';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText('[Arrows] Navigate | [Enter/E] Equip | [U] Unequip | [ESC/I] Close', this.canvas.width / 2, this.canvas.height - 15);
+        this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Navigate | [${keyOf('confirm')}/${keyOf('equip')}] Equip | [${keyOf('unequip')}] Unequip | [${keyOf('cancel')}/${keyOf('equipment')}] Close`, this.canvas.width / 2, this.canvas.height - 15);
     }
 
     drawCrafting(player: Player, selectedIndex: number) {
@@ -1325,6 +2230,7 @@ export class Renderer {
 
         CRAFTING_RECIPES.forEach((recipe, i) => {
             const selected = selectedIndex === i;
+            this.addHitRegion(recX, recY - 15, 260, 20, { row: i });
 
             // Check if can craft
             let canCraft = true;
@@ -1385,7 +2291,7 @@ export class Renderer {
         this.ctx.fillStyle = '#888';
         this.ctx.font = '12px monospace';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText('[Up/Down] Select | [Enter/C] Craft | [ESC] Close', this.canvas.width / 2, this.canvas.height - 15);
+        this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Select | [${keyOf('confirm')}/${keyOf('craft')}] Craft | [${keyOf('cancel')}] Close`, this.canvas.width / 2, this.canvas.height - 15);
     }
 
     drawPuzzle(core: DungeonCore) {
@@ -1504,6 +2410,7 @@ export class Renderer {
                     this.ctx.fillRect(x, btnY, 60, 60);
                     this.ctx.strokeStyle = '#fff';
                     this.ctx.strokeRect(x, btnY, 60, 60);
+                    this.addHitRegion(x, btnY, 60, 60, { key: String(i) });
                     this.ctx.fillStyle = '#fff';
                     this.ctx.font = 'bold 28px monospace';
                     this.ctx.fillText(String(i), x + 30, btnY + 42);
@@ -1851,10 +2758,169 @@ export class Renderer {
         // Escape hint
         this.ctx.fillStyle = '#666';
         this.ctx.font = '12px monospace';
-        this.ctx.fillText('[ESC] to leave puzzle', centerX, this.canvas.height - 15);
+        this.ctx.fillText(`[${keyOf('cancel')}] to leave puzzle`, centerX, this.canvas.height - 15);
+    }
+
+    drawRoomPuzzle(puzzle: RoomPuzzle, cursor: Point, lockInput: number[]) {
+        this.ctx.fillStyle = 'rgba(10, 5, 20, 0.95)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        const centerX = this.canvas.width / 2;
+        const puzzleNames: Record<string, string> = {
+            'symbol_sequence': 'SYMBOL SEQUENCE',
+            'light_redirect': 'LIGHT REDIRECT',
+            'number_lock': 'NUMBER LOCK'
+        };
+
+        this.ctx.fillStyle = '#0ff';
+        this.ctx.font = 'bold 24px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(`-- ${puzzleNames[puzzle.type] || 'PUZZLE'} --`, centerX, 40);
+
+        const data = puzzle.data;
+        const symbolColors = ['#ff0', '#0ff', '#f0f', '#f80'];
+        let hint = `[${keyOf('cancel')}] Leave puzzle`;
+
+        if (puzzle.type === 'symbol_sequence') {
+            this.ctx.fillStyle = '#fff';
+            this.ctx.font = '16px monospace';
+            this.ctx.fillText(data.showing ? 'Memorize the symbols:' : 'Repeat the sequence:', centerX, 90);
+
+            // Slots for the sequence
+            const slotW = 45;
+            const startX = centerX - (data.sequence.length * slotW) / 2;
+            for (let i = 0; i < data.sequence.length; i++) {
+                const x = startX + i * slotW;
+                let symbol = '';
+                if (data.showing && i === data.showIndex) symbol = data.sequence[i];
+                else if (!data.showing && i < data.playerInput.length) symbol = data.playerInput[i];
+
+                this.ctx.fillStyle = symbol ? 'rgba(0, 255, 255, 0.2)' : '#222';
+                this.ctx.fillRect(x + 2, 120, slotW - 4, 50);
+                this.ctx.strokeStyle = data.showing && i === data.showIndex ? '#fff' : '#444';
+                this.ctx.strokeRect(x + 2, 120, slotW - 4, 50);
+
+                if (symbol) {
+                    this.ctx.fillStyle = symbolColors[PUZZLE_SYMBOLS.indexOf(symbol)] || '#fff';
+                    this.ctx.font = 'bold 28px monospace';
+                    this.ctx.fillText(symbol, x + slotW / 2, 155);
+                }
+            }
+
+            // Key legend
+            this.ctx.font = '18px monospace';
+            PUZZLE_SYMBOLS.forEach((symbol, i) => {
+                const x = centerX - 150 + i * 100;
+                this.ctx.fillStyle = symbolColors[i];
+                this.ctx.fillText(`[${i + 1}] ${symbol}`, x, 230);
+            });
+            hint = `[1-4] Enter symbol | [${keyOf('cancel')}] Leave puzzle`;
+        } else if (puzzle.type === 'light_redirect') {
+            const size: number = data.gridSize;
+            const cell = 56;
+            const gridX = centerX - (size * cell) / 2;
+            const gridY = 80;
+            const { path, reachedTarget } = traceLight(puzzle);
+
+            for (let y = 0; y < size; y++) {
+                for (let x = 0; x < size; x++) {
+                    const cx = gridX + x * cell;
+                    const cy = gridY + y * cell;
+                    const isCursor = x === cursor.x && y === cursor.y;
+                    const lit = path.some(p => p.x === x && p.y === y);
+
+                    this.ctx.fillStyle = lit ? 'rgba(255, 220, 100, 0.25)' : '#1a1a2a';
+                    this.ctx.fillRect(cx + 2, cy + 2, cell - 4, cell - 4);
+                    this.ctx.strokeStyle = isCursor ? '#0ff' : '#444';
+                    this.ctx.lineWidth = isCursor ? 3 : 1;
+                    this.ctx.strokeRect(cx + 2, cy + 2, cell - 4, cell - 4);
+
+                    // Mirror glyph (edge-on mirrors are drawn as a dot)
+                    const angle = data.mirrors[y][x];
+                    this.ctx.strokeStyle = '#ccc';
+                    this.ctx.lineWidth = 3;
+                    this.ctx.beginPath();
+                    if (angle === 0) {
+                        this.ctx.moveTo(cx + 10, cy + cell - 10);
+                        this.ctx.lineTo(cx + cell - 10, cy + 10);
+                    } else if (angle === 90) {
+                        this.ctx.moveTo(cx + 10, cy + 10);
+                        this.ctx.lineTo(cx + cell - 10, cy + cell - 10);
+                    } else {
+                        this.ctx.arc(cx + cell / 2, cy + cell / 2, 2, 0, Math.PI * 2);
+                    }
+                    this.ctx.stroke();
+                }
+            }
+            this.ctx.lineWidth = 1;
+
+            // Beam
+            this.ctx.strokeStyle = reachedTarget ? '#0f0' : '#ffc832';
+            this.ctx.lineWidth = 2;
+            this.ctx.beginPath();
+            this.ctx.moveTo(gridX - 20, gridY + data.lightSource.y * cell + cell / 2);
+            for (const p of path) {
+                this.ctx.lineTo(gridX + p.x * cell + cell / 2, gridY + p.y * cell + cell / 2);
+            }
+            this.ctx.stroke();
+            this.ctx.lineWidth = 1;
+
+            // Source and receiver
+            this.ctx.fillStyle = '#ffc832';
+            this.ctx.font = 'bold 20px monospace';
+            this.ctx.fillText('☀', gridX - 24, gridY + data.lightSource.y * cell + cell / 2 + 7);
+            this.ctx.fillStyle = reachedTarget ? '#0f0' : '#f44';
+            this.ctx.fillText('◎', gridX + size * cell + 20, gridY + data.target.y * cell + cell / 2 + 7);
+
+            hint = `[${keyOf('moveUp')}${keyOf('moveLeft')}${keyOf('moveDown')}${keyOf('moveRight')}] Move | [${keyOf('confirm')}] Rotate mirror | [${keyOf('cancel')}] Leave puzzle`;
+        } else if (puzzle.type === 'number_lock') {
+            const digits: number = data.code.length;
+            this.ctx.fillStyle = '#fff';
+            this.ctx.font = '16px monospace';
+            this.ctx.fillText(`Crack the ${digits}-digit code (digits 1-9)`, centerX, 80);
+            this.ctx.fillStyle = data.attempts <= 2 ? '#f44' : '#aaa';
+            this.ctx.font = '14px monospace';
+            this.ctx.fillText(`Attempts left: ${data.attempts}`, centerX, 102);
+
+            // Current input
+            const slotW = 50;
+            const startX = centerX - (digits * slotW) / 2;
+            for (let i = 0; i < digits; i++) {
+                const x = startX + i * slotW;
+                this.ctx.fillStyle = '#222';
+                this.ctx.fillRect(x + 4, 120, slotW - 8, 50);
+                this.ctx.strokeStyle = i === lockInput.length ? '#0ff' : '#555';
+                this.ctx.strokeRect(x + 4, 120, slotW - 8, 50);
+                if (i < lockInput.length) {
+                    this.ctx.fillStyle = '#fff';
+                    this.ctx.font = 'bold 28px monospace';
+                    this.ctx.fillText(lockInput[i].toString(), x + slotW / 2, 155);
+                }
+            }
+
+            // Previous guesses
+            this.ctx.font = '14px monospace';
+            const guesses: { guess: number[]; exact: number; partial: number }[] = data.guesses;
+            guesses.slice(-8).forEach((g, i) => {
+                const y = 200 + i * 22;
+                this.ctx.fillStyle = '#aaa';
+                this.ctx.fillText(`${g.guess.join(' ')}   `, centerX - 60, y);
+                this.ctx.fillStyle = '#0f0';
+                this.ctx.fillText(`${g.exact} exact`, centerX + 30, y);
+                this.ctx.fillStyle = '#ff0';
+                this.ctx.fillText(`${g.partial} misplaced`, centerX + 130, y);
+            });
+
+            hint = `[1-9] Digit | [BACKSPACE] Delete | [ENTER] Try code | [${keyOf('cancel')}] Leave puzzle`;
+        }
+
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '12px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(hint, centerX, this.canvas.height - 15);
     }
 
-    drawClassSelection(classes: any[], selectedIndex: number) {
+    drawClassSelection(classes: any[], selectedIndex: number, seedInput: string = '', isEnteringSeed: boolean = false) {
         // Dark background
         this.ctx.fillStyle = '#0a0a15';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
@@ -1870,7 +2936,13 @@ export class Renderer {
         // Subtitle
         this.ctx.fillStyle = '#888';
         this.ctx.font = '14px monospace';
-        this.ctx.fillText('Use [W/S] or arrows to navigate, [Enter] to select', centerX, 90);
+        this.ctx.fillText(`Use [${keyOf('moveUp')}/${keyOf('moveDown')}] to navigate, [${keyOf('confirm')}] to select`, centerX, 90);
+
+        // Run seed
+        this.ctx.fillStyle = isEnteringSeed ? '#4af' : '#666';
+        this.ctx.font = '12px monospace';
+        const seedText = isEnteringSeed ? `${seedInput}_` : (seedInput || 'Random');
+        this.ctx.fillText(`Seed: ${seedText}  [${keyOf('seedEntry')}] ${isEnteringSeed ? 'Done' : 'Enter seed'}`, centerX, 110);
 
         // Draw class options
         const startY = 130;
@@ -1975,7 +3047,7 @@ export class Renderer {
         // Show secondary toggle hint
         if (hasSecondaryClass) {
             this.ctx.fillStyle = '#888';
-            this.ctx.fillText(`[Q] Switch to ${isSecondary ? 'Primary' : 'Secondary'} Tree`, this.canvas.width / 2, 70);
+            this.ctx.fillText(`[${keyOf('switchTree')}] Switch to ${isSecondary ? 'Primary' : 'Secondary'} Tree`, this.canvas.width / 2, 70);
         }
 
         // Organize nodes by tier
@@ -2040,6 +3112,7 @@ export class Renderer {
                 if (isMaxed) this.ctx.fillStyle = 'rgba(0, 100, 0, 0.3)';
                 if (!reqMet) this.ctx.fillStyle = 'rgba(30, 30, 30, 0.8)';
                 this.ctx.fillRect(tierX, nodeY, boxWidth, boxHeight);
+                this.addHitRegion(tierX, nodeY, boxWidth, boxHeight, { row: tree.nodes.indexOf(node) });
 
                 // Border
                 this.ctx.strokeStyle = isSelected ? '#4af' : (isMaxed ? '#0f0' : (reqMet ? tree.color : '#333'));
@@ -2089,7 +3162,7 @@ export class Renderer {
         this.ctx.fillStyle = '#666';
         this.ctx.font = '12px monospace';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText('[↑↓] Navigate | [ENTER] Learn | [ESC] Close', this.canvas.width / 2, this.canvas.height - 15);
+        this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Navigate | [${keyOf('confirm')}] Learn | [${keyOf('cancel')}] Close`, this.canvas.width / 2, this.canvas.height - 15);
     }
 
     drawMulticlassMenu(options: string[], selectedIndex: number, currentClass: string) {
@@ -2131,7 +3204,7 @@ export class Renderer {
         this.ctx.font = '12px monospace';
         this.ctx.textAlign = 'center';
         this.ctx.fillText('Secondary class skills are 75% effective', this.canvas.width / 2, this.canvas.height - 60);
-        this.ctx.fillText('[↑↓] Select | [ENTER] Confirm | [ESC] Cancel', this.canvas.width / 2, this.canvas.height - 30);
+        this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Select | [${keyOf('confirm')}] Confirm | [${keyOf('cancel')}] Cancel`, this.canvas.width / 2, this.canvas.height - 30);
     }
 
     drawNotifications(notifications: Array<{ message: string; timestamp: number; duration: number }>, enabled: boolean = true, combatMode: boolean = false) {
@@ -2142,7 +3215,7 @@ export class Renderer {
             this.ctx.fillStyle = 'rgba(100, 100, 100, 0.5)';
             this.ctx.font = '10px monospace';
             this.ctx.textAlign = 'right';
-            this.ctx.fillText('[N] Notifications OFF', this.canvas.width - 10, 20);
+            this.ctx.fillText(`[${keyOf('notifications')}] Notifications OFF`, this.canvas.width - 10, 20);
             return;
         }
 
@@ -2522,7 +3595,8 @@ export class Renderer {
     // MULTIPLAYER RENDERING
     // ============================================
 
-    drawMultiplayerLobby(room: GameRoom | null, selectedOption: number, isCreating: boolean, roomCode: string) {
+    drawMultiplayerLobby(room: GameRoom | null, selectedOption: number, isCreating: boolean, roomCode: string, aiDifficulty: DuelAIDifficulty,
+                         ratings: Map<string, DuelRating>, leaderboard: DuelRating[], localName: string, nameInput: string | null) {
         this.ctx.fillStyle = 'rgba(10, 10, 30, 0.98)';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
@@ -2535,27 +3609,31 @@ export class Renderer {
 
         if (!room) {
             // Main menu
+            this.ctx.font = '14px monospace';
+            this.ctx.fillStyle = '#4af';
+            this.ctx.fillText(`Playing as ${localName}`, centerX, 75);
             this.ctx.font = '18px monospace';
             this.ctx.fillStyle = '#aaa';
             this.ctx.fillText('Select game mode:', centerX, 100);
 
             const options = [
-                { label: 'Create Duel Room (vs AI)', desc: 'Fight with a level 50 character' },
+                { label: 'Create Duel Room (vs AI)', desc: `Level 50 duel - ◄ ${DUEL_AI_DIFFICULTY_NAMES[aiDifficulty]} ► difficulty` },
                 { label: 'Create Duel Room (vs Player)', desc: 'Challenge another player' },
                 { label: 'Join Room', desc: 'Enter room code' },
-                { label: 'Co-op Dungeon', desc: 'Explore together (Coming Soon)' },
+                { label: 'Co-op Dungeon (Local)', desc: 'Second player on the arrow keys' },
+                { label: 'Co-op Dungeon (Online)', desc: 'Host a room on the relay server' },
                 { label: 'Back to Game', desc: 'Return to main game' }
             ];
 
             for (let i = 0; i < options.length; i++) {
-                const y = 160 + i * 60;
+                const y = 140 + i * 52;
                 const isSelected = i === selectedOption;
 
                 this.ctx.fillStyle = isSelected ? 'rgba(100, 150, 255, 0.3)' : 'rgba(50, 50, 80, 0.5)';
-                this.ctx.fillRect(centerX - 200, y - 20, 400, 50);
+                this.ctx.fillRect(centerX - 200, y - 20, 400, 46);
                 this.ctx.strokeStyle = isSelected ? '#4af' : '#444';
                 this.ctx.lineWidth = 2;
-                this.ctx.strokeRect(centerX - 200, y - 20, 400, 50);
+                this.ctx.strokeRect(centerX - 200, y - 20, 400, 46);
 
                 this.ctx.fillStyle = isSelected ? '#fff' : '#888';
                 this.ctx.font = 'bold 16px monospace';
@@ -2574,15 +3652,33 @@ export class Renderer {
 
                 this.ctx.fillStyle = '#fff';
                 this.ctx.font = '14px monospace';
-                this.ctx.fillText('Enter Room Code:', centerX, 400);
+                this.ctx.fillText(`Room Code - [ENTER] Join [${keyOf('duelSpectate')}] Watch`, centerX, 400);
                 this.ctx.font = 'bold 24px monospace';
                 this.ctx.fillStyle = '#4af';
                 this.ctx.fillText(roomCode || '______', centerX, 430);
             }
 
+            // Name entry - the ladder rates this name
+            if (nameInput !== null) {
+                this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+                this.ctx.fillRect(centerX - 150, 380, 300, 60);
+                this.ctx.strokeStyle = '#4af';
+                this.ctx.strokeRect(centerX - 150, 380, 300, 60);
+
+                this.ctx.fillStyle = '#fff';
+                this.ctx.font = '14px monospace';
+                this.ctx.fillText('Your Name - [ENTER] Save [ESC] Cancel', centerX, 400);
+                this.ctx.font = 'bold 24px monospace';
+                this.ctx.fillStyle = '#4af';
+                this.ctx.fillText(`${nameInput}_`, centerX, 430);
+            }
+
+            this.drawDuelLadder(leaderboard, ratings.get(localName));
+
+            this.ctx.textAlign = 'center';
             this.ctx.fillStyle = '#666';
             this.ctx.font = '12px monospace';
-            this.ctx.fillText('[↑↓] Navigate | [ENTER] Select | [ESC] Back', centerX, this.canvas.height - 20);
+            this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Navigate | [${keyOf('moveLeft')}${keyOf('moveRight')}] AI Difficulty | [${keyOf('confirm')}] Select | [${keyOf('duelReplays')}] Replays | [${keyOf('duelRename')}] Name | [${keyOf('cancel')}] Back`, centerX, this.canvas.height - 20);
         } else {
             // In a room
             this.ctx.font = '20px monospace';
@@ -2590,7 +3686,11 @@ export class Renderer {
             this.ctx.fillText(`Room: ${room.code}`, centerX, 90);
             this.ctx.fillStyle = '#888';
             this.ctx.font = '14px monospace';
-            this.ctx.fillText(`Mode: ${room.mode === 'duel' ? 'Duel' : 'Co-op'} | ${room.players.length}/${room.maxPlayers} players`, centerX, 115);
+            const series = room.mode === 'duel' ? ` | Best of ${room.settings.bestOf}` : '';
+            const watching = room.mode === 'duel'
+                ? ` | ${room.spectators.length} watching${room.settings.allowSpectators ? '' : ' (closed)'}`
+                : '';
+            this.ctx.fillText(`Mode: ${room.mode === 'duel' ? 'Duel' : 'Co-op'}${series} | ${room.players.length}/${room.maxPlayers} players${watching}`, centerX, 115);
 
             // Player list
             this.ctx.fillStyle = 'rgba(30, 30, 60, 0.8)';
@@ -2610,7 +3710,8 @@ export class Renderer {
                 this.ctx.fillStyle = player.ready ? '#0f0' : '#f80';
                 this.ctx.fillText(player.ready ? '✓' : '○', centerX - 180, y);
                 this.ctx.fillStyle = '#fff';
-                this.ctx.fillText(`${player.name}${player.isHost ? ' (Host)' : ''}`, centerX - 150, y);
+                const rating = room.mode === 'duel' ? ` [${ratings.get(player.name)?.rating}]` : '';
+                this.ctx.fillText(`${player.name}${rating}${player.isHost ? ' (Host)' : ''}`, centerX - 150, y);
                 this.ctx.fillStyle = '#888';
                 this.ctx.fillText(player.ready ? 'Ready' : 'Not Ready', centerX + 100, y);
             }
@@ -2618,11 +3719,50 @@ export class Renderer {
             this.ctx.textAlign = 'center';
             this.ctx.fillStyle = '#666';
             this.ctx.font = '12px monospace';
-            this.ctx.fillText('[ENTER] Ready/Start | [ESC] Leave Room', centerX, this.canvas.height - 20);
+            const seriesHint = room.mode === 'duel' ? ` | [${keyOf('duelSeries')}] Series Length | [${keyOf('duelSpectators')}] Spectators` : '';
+            this.ctx.fillText(`[${keyOf('confirm')}] Ready/Start${seriesHint} | [${keyOf('cancel')}] Leave Room`, centerX, this.canvas.height - 20);
+        }
+    }
+
+    // Local Elo ladder beside the lobby menu
+    private drawDuelLadder(leaderboard: DuelRating[], own: DuelRating | undefined) {
+        const x = 15;
+        const y = 120;
+
+        this.ctx.fillStyle = 'rgba(30, 30, 60, 0.8)';
+        this.ctx.fillRect(x, y, 170, 230);
+        this.ctx.strokeStyle = '#444';
+        this.ctx.lineWidth = 1;
+        this.ctx.strokeRect(x, y, 170, 230);
+
+        this.ctx.textAlign = 'left';
+        this.ctx.fillStyle = '#f80';
+        this.ctx.font = 'bold 14px monospace';
+        this.ctx.fillText('DUEL LADDER', x + 10, y + 20);
+
+        if (own) {
+            this.ctx.fillStyle = '#4af';
+            this.ctx.font = '11px monospace';
+            this.ctx.fillText(`You: ${own.rating} (${own.wins}-${own.losses}-${own.draws})`, x + 10, y + 38);
         }
+
+        this.ctx.font = '11px monospace';
+        if (leaderboard.length === 0) {
+            this.ctx.fillStyle = '#666';
+            this.ctx.fillText('No rated duels yet', x + 10, y + 62);
+        }
+        leaderboard.forEach((entry, i) => {
+            const rowY = y + 62 + i * 17;
+            this.ctx.fillStyle = entry.name === own?.name ? '#fff' : '#aaa';
+            this.ctx.textAlign = 'left';
+            this.ctx.fillText(`${i + 1}. ${entry.name}`.substring(0, 17), x + 10, rowY);
+            this.ctx.textAlign = 'right';
+            this.ctx.fillText(`${entry.rating}`, x + 160, rowY);
+        });
+        this.ctx.textAlign = 'center';
     }
 
-    drawDuelStatAllocation(stats: DuelStats, selectedStat: number) {
+    drawDuelStatAllocation(stats: DuelStats, selectedStat: number, bestOf: number) {
         this.ctx.fillStyle = 'rgba(10, 10, 30, 0.98)';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
@@ -2707,7 +3847,7 @@ export class Renderer {
         this.ctx.textAlign = 'center';
         this.ctx.fillStyle = '#666';
         this.ctx.font = '12px monospace';
-        this.ctx.fillText('[↑↓] Select Stat | [←→] Adjust | [ENTER] Confirm | [ESC] Cancel', centerX, this.canvas.height - 20);
+        this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Select Stat | [${keyOf('moveLeft')}${keyOf('moveRight')}] Adjust | [${keyOf('duelSeries')}] Best of ${bestOf} | [${keyOf('confirm')}] Confirm | [${keyOf('cancel')}] Cancel`, centerX, this.canvas.height - 20);
     }
 
     private getStatColor(stat: string): string {
@@ -2721,7 +3861,8 @@ export class Renderer {
         }
     }
 
-    drawDuel(duel: DuelState, isPlayer1: boolean) {
+    // watchNames labels both fighters by name for spectators and replays, who get no action controls
+    drawDuel(duel: DuelState, isPlayer1: boolean, watchNames: [string, string] | null = null, isReplay: boolean = false) {
         this.ctx.fillStyle = 'rgba(20, 10, 30, 0.98)';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
@@ -2731,17 +3872,20 @@ export class Renderer {
         this.ctx.fillStyle = '#f80';
         this.ctx.font = 'bold 28px monospace';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText(`⚔ DUEL - Turn ${duel.turn} ⚔`, centerX, 40);
+        const series = duel.series.bestOf > 1
+            ? ` (Bo${duel.series.bestOf} ${duel.series.player1Wins}-${duel.series.player2Wins})`
+            : '';
+        this.ctx.fillText(`⚔ DUEL - Turn ${duel.turn}${series} ⚔`, centerX, 40);
 
         // Player boxes
         const p1 = duel.player1Stats;
         const p2 = duel.player2Stats;
 
         // Player 1 (left)
-        this.drawDuelPlayerBox(80, 70, p1, duel.player1Stamina, isPlayer1 ? 'YOU' : 'P1', isPlayer1);
+        this.drawDuelPlayerBox(80, 70, p1, duel.player1Stamina, watchNames?.[0] ?? (isPlayer1 ? 'YOU' : 'P1'), isPlayer1);
 
         // Player 2 (right)
-        this.drawDuelPlayerBox(this.canvas.width - 280, 70, p2, duel.player2Stamina, !isPlayer1 ? 'YOU' : 'P2/AI', !isPlayer1);
+        this.drawDuelPlayerBox(this.canvas.width - 280, 70, p2, duel.player2Stamina, watchNames?.[1] ?? (!isPlayer1 ? 'YOU' : 'P2/AI'), !isPlayer1);
 
         // VS in center
         this.ctx.fillStyle = '#fff';
@@ -2749,19 +3893,23 @@ export class Renderer {
         this.ctx.fillText('VS', centerX, 140);
 
         // Action selection or result
-        if (duel.phase === DuelPhase.SelectAction) {
+        if (duel.phase === DuelPhase.SelectAction && watchNames) {
+            this.ctx.fillStyle = '#888';
+            this.ctx.font = 'bold 18px monospace';
+            this.ctx.fillText('SPECTATING - waiting for both duelists...', centerX, 260);
+        } else if (duel.phase === DuelPhase.SelectAction) {
             this.ctx.fillStyle = '#ff0';
             this.ctx.font = 'bold 18px monospace';
             this.ctx.fillText('SELECT YOUR ACTION', centerX, 220);
 
             // Action buttons
             const actions = [
-                { key: '1', action: DuelAction.Strike, name: 'Strike', cost: '15 ST', color: '#f80' },
-                { key: '2', action: DuelAction.Guard, name: 'Guard', cost: '10 ST', color: '#0af' },
-                { key: '3', action: DuelAction.Feint, name: 'Feint', cost: '20 ST', color: '#0f8' },
-                { key: '4', action: DuelAction.HeavyStrike, name: 'Heavy', cost: '30 ST', color: '#f44' },
-                { key: 'Q', action: DuelAction.Heal, name: 'Heal', cost: '15 MP', color: '#0f0' },
-                { key: 'W', action: DuelAction.Fireball, name: 'Fireball', cost: '15 MP', color: '#f80' }
+                { binding: 'duelStrike' as BindingAction, action: DuelAction.Strike, name: 'Strike', cost: '15 ST', color: '#f80' },
+                { binding: 'duelGuard' as BindingAction, action: DuelAction.Guard, name: 'Guard', cost: '10 ST', color: '#0af' },
+                { binding: 'duelFeint' as BindingAction, action: DuelAction.Feint, name: 'Feint', cost: '20 ST', color: '#0f8' },
+                { binding: 'duelHeavy' as BindingAction, action: DuelAction.HeavyStrike, name: 'Heavy', cost: '30 ST', color: '#f44' },
+                { binding: 'duelHeal' as BindingAction, action: DuelAction.Heal, name: 'Heal', cost: '15 MP', color: '#0f0' },
+                { binding: 'duelFireball' as BindingAction, action: DuelAction.Fireball, name: 'Fireball', cost: '15 MP', color: '#f80' }
             ];
 
             const btnW = 110;
@@ -2778,10 +3926,11 @@ export class Renderer {
                 this.ctx.strokeStyle = a.color;
                 this.ctx.lineWidth = 2;
                 this.ctx.strokeRect(x, y, btnW, btnH);
+                this.addHitRegion(x, y, btnW, btnH, { action: a.binding });
 
                 this.ctx.fillStyle = '#fff';
                 this.ctx.font = 'bold 12px monospace';
-                this.ctx.fillText(`[${a.key}] ${a.name}`, x + btnW / 2, y + 25);
+                this.ctx.fillText(`[${keyOf(a.binding)}] ${a.name}`, x + btnW / 2, y + 25);
                 this.ctx.font = '10px monospace';
                 this.ctx.fillStyle = a.color;
                 this.ctx.fillText(a.cost, x + btnW / 2, y + 45);
@@ -2792,7 +3941,7 @@ export class Renderer {
             this.ctx.font = 'bold 16px monospace';
             this.ctx.fillText(duel.lastResult, centerX, 260);
 
-            if (duel.phase === DuelPhase.Result) {
+            if (duel.phase === DuelPhase.Result && !watchNames) {
                 this.ctx.fillStyle = '#888';
                 this.ctx.font = '14px monospace';
                 this.ctx.fillText('Press any key to continue...', centerX, 300);
@@ -2803,9 +3952,23 @@ export class Renderer {
             this.ctx.font = 'bold 36px monospace';
             this.ctx.fillText(duel.lastResult, centerX, 280);
 
-            this.ctx.fillStyle = '#888';
-            this.ctx.font = '14px monospace';
-            this.ctx.fillText('[ESC] Return to Lobby', centerX, 330);
+            if (watchNames && !isReplay) {
+                this.ctx.fillStyle = '#888';
+                this.ctx.font = '14px monospace';
+                this.ctx.fillText(`[${keyOf('duelReplays')}] Watch Replay | [${keyOf('cancel')}] Leave Room`, centerX, 330);
+            } else if (!watchNames) {
+                const decided = isSeriesDecided(duel.series);
+                if (duel.series.bestOf > 1 && decided) {
+                    const p1Won = duel.series.player1Wins > duel.series.player2Wins;
+                    this.ctx.fillStyle = p1Won === isPlayer1 ? '#0f0' : '#f00';
+                    this.ctx.font = 'bold 16px monospace';
+                    this.ctx.fillText(`${p1Won === isPlayer1 ? 'You win' : 'You lose'} the series ${Math.max(duel.series.player1Wins, duel.series.player2Wins)}-${Math.min(duel.series.player1Wins, duel.series.player2Wins)}!`, centerX, 308);
+                }
+                this.ctx.fillStyle = '#888';
+                this.ctx.font = '14px monospace';
+                const next = decided ? 'Rematch' : 'Next Game';
+                this.ctx.fillText(`[${keyOf('confirm')}] ${next} | [${keyOf('duelReplays')}] Watch Replay | [${keyOf('cancel')}] Return to Lobby`, centerX, 330);
+            }
         }
 
         // Combat log
@@ -2818,6 +3981,82 @@ export class Renderer {
         this.ctx.fillText(duel.lastResult, 30, 395);
     }
 
+    // Turn details and controls drawn over drawDuel while watching a replay
+    drawDuelReplayControls(replay: DuelReplay, turnIndex: number) {
+        const centerX = this.canvas.width / 2;
+        const record = turnIndex > 0 ? replay.history[turnIndex - 1] : null;
+
+        this.ctx.fillStyle = '#4af';
+        this.ctx.font = 'bold 12px monospace';
+        this.ctx.textAlign = 'left';
+        this.ctx.fillText(`REPLAY - Turn ${turnIndex}/${replay.history.length}`, 30, 420);
+        if (record) {
+            this.ctx.fillStyle = '#ccc';
+            this.ctx.font = '12px monospace';
+            this.ctx.fillText(describeTurn(replay, record), 30, 438);
+        }
+
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '12px monospace';
+        this.ctx.fillText(`[${keyOf('moveLeft')}${keyOf('moveRight')}] Step | [${keyOf('replayFirst')}/${keyOf('replayLast')}] First/Last | [${keyOf('exportFile')}] Export | [${keyOf('cancel')}] Back`, centerX, 468);
+    }
+
+    drawDuelReplayList(replays: DuelReplay[], selectedIndex: number, importError: string | null) {
+        this.ctx.fillStyle = 'rgba(10, 10, 30, 0.98)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        const centerX = this.canvas.width / 2;
+
+        this.ctx.fillStyle = '#f80';
+        this.ctx.font = 'bold 28px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText('DUEL REPLAYS', centerX, 45);
+
+        if (replays.length === 0) {
+            this.ctx.fillStyle = '#666';
+            this.ctx.font = '14px monospace';
+            this.ctx.fillText('No replays yet - finish a duel or import one', centerX, 200);
+        }
+
+        // Scroll so the selection stays in the 8 visible rows
+        const visible = 8;
+        const start = Math.max(0, Math.min(selectedIndex - visible + 1, replays.length - visible));
+        replays.slice(start, start + visible).forEach((replay, i) => {
+            const y = 85 + i * 40;
+            const isSelected = start + i === selectedIndex;
+
+            this.ctx.fillStyle = isSelected ? 'rgba(100, 150, 255, 0.3)' : 'rgba(50, 50, 80, 0.5)';
+            this.ctx.fillRect(centerX - 300, y - 16, 600, 34);
+            this.ctx.strokeStyle = isSelected ? '#4af' : '#444';
+            this.ctx.lineWidth = 2;
+            this.ctx.strokeRect(centerX - 300, y - 16, 600, 34);
+
+            const winner = replay.winnerId === 'player1' ? replay.player1Name
+                : replay.winnerId === 'player2' ? replay.player2Name : 'Draw';
+            this.ctx.textAlign = 'left';
+            this.ctx.fillStyle = isSelected ? '#fff' : '#aaa';
+            this.ctx.font = 'bold 14px monospace';
+            this.ctx.fillText(`${replay.player1Name} vs ${replay.player2Name}`, centerX - 285, y + 5);
+            this.ctx.textAlign = 'right';
+            this.ctx.font = '12px monospace';
+            this.ctx.fillStyle = isSelected ? '#aaa' : '#666';
+            this.ctx.fillText(`${replay.history.length} turns - ${winner === 'Draw' ? 'Draw' : `${winner} won`} - ${new Date(replay.date).toLocaleDateString()}`, centerX + 285, y + 5);
+        });
+
+        if (importError) {
+            this.ctx.textAlign = 'center';
+            this.ctx.fillStyle = '#f66';
+            this.ctx.font = '12px monospace';
+            this.ctx.fillText(`Import failed: ${importError}`, centerX, this.canvas.height - 45);
+        }
+
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = '#666';
+        this.ctx.font = '12px monospace';
+        this.ctx.fillText(`[${keyOf('moveUp')}${keyOf('moveDown')}] Navigate | [${keyOf('confirm')}] Watch | [${keyOf('exportFile')}] Export | [${keyOf('importFile')}] Import | [${keyOf('delete')}] Delete | [${keyOf('cancel')}] Back`, centerX, this.canvas.height - 20);
+    }
+
     private drawDuelPlayerBox(x: number, y: number, stats: DuelStats, stamina: number, label: string, highlight: boolean) {
         const boxW = 200;
         const boxH = 120;
@@ -2877,6 +4116,7 @@ export class Renderer {
             const item = npc.inventory[i];
             const isSelected = i === selectedIndex;
             const canAfford = playerGold >= item.cost;
+            this.addHitRegion(30, y - 14, this.canvas.width - 60, 36, { row: i });
 
             this.ctx.fillStyle = isSelected ? (canAfford ? '#0f0' : '#f00') : '#fff';
             if (isSelected) {
@@ -2903,7 +4143,7 @@ export class Renderer {
         this.ctx.fillStyle = '#888';
         this.ctx.textAlign = 'center';
         this.ctx.font = '12px monospace';
-        this.ctx.fillText('[↑/↓] Select  [ENTER] Buy  [ESC] Leave', this.canvas.width / 2, this.canvas.height - 20);
+        this.ctx.fillText(`[${keyOf('moveUp')}/${keyOf('moveDown')}] Select  [${keyOf('confirm')}] Buy  [${keyOf('cancel')}] Leave`, this.canvas.width / 2, this.canvas.height - 20);
     }
 
     drawSoulTrading(npc: { name: string; dialogue: string[] }, 
@@ -2967,6 +4207,6 @@ export class Renderer {
         this.ctx.fillStyle = '#888';
         this.ctx.textAlign = 'center';
         this.ctx.font = '12px monospace';
-        this.ctx.fillText('[↑/↓] Select  [ENTER] Exchange  [ESC] Leave', this.canvas.width / 2, this.canvas.height - 20);
+        this.ctx.fillText(`[${keyOf('moveUp')}/${keyOf('moveDown')}] Select  [${keyOf('confirm')}] Exchange  [${keyOf('cancel')}] Leave`, this.canvas.width / 2, this.canvas.height - 20);
     }
 }
@@ -2,7 +2,11 @@
 // ROOM TYPES - Special dungeon rooms
 // ============================================
 
-import { getRandomInt } from './utils';
+import { getRandomInt, random } from './utils';
+import type { Point } from './utils';
+import type { Buff } from './Entity';
+import { generateRandomEquipment, getEquipmentValue } from './Equipment';
+import type { Equipment } from './Equipment';
 
 export type RoomType =
     | 'normal'
@@ -152,7 +156,7 @@ export function selectRoomType(floor: number, isFirstRoom: boolean, isLastRoom:
     const totalWeight = available.reduce((sum, r) => sum + r.weight, 0);
 
     // Roll
-    let roll = Math.random() * totalWeight;
+    let roll = random() * totalWeight;
 
     for (const room of available) {
         roll -= room.weight;
@@ -172,8 +176,13 @@ export interface RoomPuzzle {
     data: any;
 }
 
-export function generateRoomPuzzle(floor: number): RoomPuzzle {
-    const types: RoomPuzzle['type'][] = ['pressure_plates', 'symbol_sequence', 'light_redirect', 'number_lock'];
+// Symbols for the symbol sequence puzzle, entered with keys 1-4
+export const PUZZLE_SYMBOLS = ['★', '◆', '●', '▲'];
+
+// Rooms too cramped for a plate sequence ask for one of the pedestal puzzles instead
+export function generateRoomPuzzle(floor: number, allowPlates: boolean = true): RoomPuzzle {
+    const types = (['pressure_plates', 'symbol_sequence', 'light_redirect', 'number_lock'] as RoomPuzzle['type'][])
+        .filter(t => allowPlates || t !== 'pressure_plates');
     const type = types[getRandomInt(0, types.length)];
 
     switch (type) {
@@ -201,7 +210,7 @@ export function generateRoomPuzzle(floor: number): RoomPuzzle {
 
         case 'symbol_sequence':
             // Remember and repeat symbol sequence
-            const symbols = ['★', '◆', '●', '▲'];
+            const symbols = PUZZLE_SYMBOLS;
             const length = 3 + Math.min(floor, 4);
             const symbolSeq: string[] = [];
             for (let i = 0; i < length; i++) {
@@ -214,7 +223,8 @@ export function generateRoomPuzzle(floor: number): RoomPuzzle {
                     sequence: symbolSeq,
                     playerInput: [],
                     showing: true,
-                    showIndex: 0
+                    showIndex: 0,
+                    showTimer: 0
                 }
             };
 
@@ -258,6 +268,134 @@ export function generateRoomPuzzle(floor: number): RoomPuzzle {
     }
 }
 
+// ============================================
+// ROOM PUZZLE LOGIC
+// ============================================
+
+const SYMBOL_DISPLAY_FRAMES = 45;
+
+// Advance the symbol sequence preview (call from game loop)
+export function updateRoomPuzzle(puzzle: RoomPuzzle): void {
+    if (puzzle.type !== 'symbol_sequence' || !puzzle.data.showing) return;
+
+    puzzle.data.showTimer++;
+    if (puzzle.data.showTimer >= SYMBOL_DISPLAY_FRAMES) {
+        puzzle.data.showTimer = 0;
+        puzzle.data.showIndex++;
+        if (puzzle.data.showIndex >= puzzle.data.sequence.length) {
+            puzzle.data.showing = false;
+        }
+    }
+}
+
+// Replay the symbol sequence from the start
+export function restartSymbolSequence(puzzle: RoomPuzzle): void {
+    puzzle.data.playerInput = [];
+    puzzle.data.showing = true;
+    puzzle.data.showIndex = 0;
+    puzzle.data.showTimer = 0;
+}
+
+// Step on a pressure plate - returns false if the order was broken
+export function stepOnPlate(puzzle: RoomPuzzle, requiredOrder: number): boolean {
+    if (requiredOrder !== puzzle.data.currentIndex) {
+        puzzle.data.currentIndex = 0;
+        return false;
+    }
+    puzzle.data.currentIndex++;
+    if (puzzle.data.currentIndex >= puzzle.data.sequence.length) {
+        puzzle.solved = true;
+    }
+    return true;
+}
+
+// Enter a symbol - returns false on a mistake
+export function enterSymbol(puzzle: RoomPuzzle, symbol: string): boolean {
+    const data = puzzle.data;
+    if (data.sequence[data.playerInput.length] !== symbol) {
+        restartSymbolSequence(puzzle);
+        return false;
+    }
+    data.playerInput.push(symbol);
+    if (data.playerInput.length >= data.sequence.length) {
+        puzzle.solved = true;
+    }
+    return true;
+}
+
+// Mirror angles: 0 = '/', 90 = '\', 180/270 = edge-on (light passes straight)
+export function rotateMirror(puzzle: RoomPuzzle, x: number, y: number): void {
+    const mirrors: number[][] = puzzle.data.mirrors;
+    mirrors[y][x] = (mirrors[y][x] + 90) % 360;
+    puzzle.solved = traceLight(puzzle).reachedTarget;
+}
+
+// Follow the beam from the light source (entering from the left)
+export function traceLight(puzzle: RoomPuzzle): { path: Point[]; reachedTarget: boolean } {
+    const { gridSize, mirrors, lightSource, target } = puzzle.data;
+    const path: Point[] = [];
+    let x = lightSource.x;
+    let y = lightSource.y;
+    let dx = 1;
+    let dy = 0;
+
+    // Bounded so a beam caught in a loop still terminates
+    for (let steps = 0; steps < gridSize * gridSize * 4; steps++) {
+        if (x < 0 || x >= gridSize || y < 0 || y >= gridSize) break;
+        path.push({ x, y });
+
+        const angle = mirrors[y][x];
+        if (angle === 0) {
+            [dx, dy] = [-dy, -dx];
+        } else if (angle === 90) {
+            [dx, dy] = [dy, dx];
+        }
+
+        // Beam leaves the target cell heading right into the receiver
+        if (x === target.x && y === target.y && dx === 1 && dy === 0) {
+            return { path, reachedTarget: true };
+        }
+
+        x += dx;
+        y += dy;
+    }
+
+    return { path, reachedTarget: false };
+}
+
+// Score a number lock guess Mastermind-style
+export function submitLockGuess(puzzle: RoomPuzzle, guess: number[]): { exact: number; partial: number } {
+    const code: number[] = puzzle.data.code;
+    let exact = 0;
+    const codeLeft: number[] = [];
+    const guessLeft: number[] = [];
+
+    for (let i = 0; i < code.length; i++) {
+        if (guess[i] === code[i]) {
+            exact++;
+        } else {
+            codeLeft.push(code[i]);
+            guessLeft.push(guess[i]);
+        }
+    }
+
+    let partial = 0;
+    for (const digit of guessLeft) {
+        const idx = codeLeft.indexOf(digit);
+        if (idx !== -1) {
+            partial++;
+            codeLeft.splice(idx, 1);
+        }
+    }
+
+    puzzle.data.guesses.push({ guess: [...guess], exact, partial });
+    puzzle.data.attempts--;
+    if (exact === code.length) {
+        puzzle.solved = true;
+    }
+    return { exact, partial };
+}
+
 // ============================================
 // SWARM CONFIGURATION
 // ============================================
@@ -313,24 +451,110 @@ export function generateBossConfig(floor: number): BossConfig {
 // ============================================
 
 export interface ChallengeConfig {
-    type: 'survive' | 'no_damage' | 'speed_kill' | 'no_mana';
-    duration: number;
+    type: 'survive' | 'no_damage' | 'speed_kill' | 'no_mana' | 'no_heal' | 'no_guard';
+    duration: number; // Turn count for survive/speed_kill
     reward: string;
 }
 
 export function generateChallengeConfig(floor: number): ChallengeConfig {
-    const types: ChallengeConfig['type'][] = ['survive', 'no_damage', 'speed_kill', 'no_mana'];
+    const types: ChallengeConfig['type'][] = ['survive', 'no_damage', 'speed_kill', 'no_mana', 'no_heal', 'no_guard'];
     const type = types[getRandomInt(0, types.length)];
 
     const rewards = ['rare_equipment', 'skill_point', 'stat_boost', 'gold_pile'];
 
+    let duration = 0;
+    if (type === 'survive') duration = 5 + Math.min(floor, 5);
+    if (type === 'speed_kill') duration = 6 + Math.floor(floor / 3);
+
     return {
         type,
-        duration: type === 'survive' ? 10 + floor * 2 : 0,
+        duration,
         reward: rewards[getRandomInt(0, rewards.length)]
     };
 }
 
+export function getChallengeDescription(config: ChallengeConfig): string {
+    switch (config.type) {
+        case 'survive': return `Survive ${config.duration} turns`;
+        case 'no_damage': return 'Take no damage';
+        case 'speed_kill': return `Win within ${config.duration} turns`;
+        case 'no_mana': return 'Spend no mana';
+        case 'no_heal': return 'No healing';
+        case 'no_guard': return 'No Guard';
+    }
+}
+
+export function getChallengeRewardName(reward: string): string {
+    switch (reward) {
+        case 'rare_equipment': return 'Rare Equipment';
+        case 'skill_point': return 'Skill Point';
+        case 'stat_boost': return 'Stat Boost';
+        case 'gold_pile': return 'Gold Pile';
+        default: return reward;
+    }
+}
+
+// ============================================
+// MERCHANT STOCK
+// ============================================
+
+export interface ShopItem {
+    type: 'heal' | 'mana' | 'equipment';
+    name: string;
+    description: string;
+    value: number; // HP/MP restored for potions
+    cost: number;
+    quantity: number;
+    equipment?: Equipment;
+}
+
+export interface MerchantConfig {
+    x: number;
+    y: number;
+    items: ShopItem[];
+}
+
+export function generateMerchantConfig(x: number, y: number, floor: number, priceMod: number): MerchantConfig {
+    const price = (base: number) => Math.round(base * priceMod);
+    const potionValue = 30 + floor * 5;
+
+    const items: ShopItem[] = [
+        {
+            type: 'heal',
+            name: 'Health Potion',
+            description: `Restores ${potionValue} HP`,
+            value: potionValue,
+            cost: price(40 + floor * 8),
+            quantity: 3
+        },
+        {
+            type: 'mana',
+            name: 'Mana Potion',
+            description: `Restores ${potionValue} Mana`,
+            value: potionValue,
+            cost: price(40 + floor * 8),
+            quantity: 3
+        }
+    ];
+
+    // Gear rolls - more on deeper floors
+    const gearCount = Math.min(4, 2 + Math.floor(floor / 3));
+    for (let i = 0; i < gearCount; i++) {
+        const equipment = generateRandomEquipment(floor);
+        items.push({
+            type: 'equipment',
+            name: equipment.name,
+            description: equipment.description,
+            value: 0,
+            cost: price(getEquipmentValue(equipment) * 3),
+            quantity: 1,
+            equipment
+        });
+    }
+
+    return { x, y, items };
+}
+
 // ============================================
 // SHRINE EFFECTS
 // ============================================
@@ -339,19 +563,74 @@ export interface ShrineEffect {
     name: string;
     description: string;
     positive: boolean;
-    effect: () => void;
+    buffs: string[]; // Names from SHRINE_BUFFS - one is rolled on accept
+    goldPerFloor?: number; // Paid out for accepting a curse
 }
 
+// Shrine buffs by name, so saved games can rebuild them (callbacks don't survive JSON)
+const SHRINE_BUFFS: Record<string, () => Buff> = {
+    'Blessing of Vitality': () => ({
+        name: 'Blessing of Vitality', duration: Infinity,
+        apply: s => { s.maxHp += 20; },
+        remove: s => { s.maxHp -= 20; s.hp = Math.min(s.hp, s.maxHp); }
+    }),
+    'Blessing of Power': () => ({
+        name: 'Blessing of Power', duration: Infinity,
+        apply: s => { s.attack += 5; },
+        remove: s => { s.attack -= 5; }
+    }),
+    'Blessing of Wisdom': () => ({
+        name: 'Blessing of Wisdom', duration: Infinity,
+        apply: s => { s.maxMana += 15; },
+        remove: s => { s.maxMana -= 15; s.mana = Math.min(s.mana, s.maxMana); }
+    }),
+    'Blessing of Fortune': () => ({
+        name: 'Blessing of Fortune', duration: Infinity, untilNextFloor: true,
+        apply: s => { s.goldBonus += 0.2; },
+        remove: s => { s.goldBonus -= 0.2; }
+    }),
+    'Curse of Weakness': () => ({
+        name: 'Curse of Weakness', duration: Infinity, untilNextFloor: true,
+        apply: s => { s.attack -= 3; },
+        remove: s => { s.attack += 3; }
+    }),
+    'Curse of Frailty': () => ({
+        name: 'Curse of Frailty', duration: Infinity, untilNextFloor: true,
+        apply: s => { s.maxHp -= 15; s.hp = Math.min(s.hp, s.maxHp); },
+        remove: s => { s.maxHp += 15; }
+    }),
+    'Gambler\'s Triumph': () => ({
+        name: 'Gambler\'s Triumph', duration: Infinity,
+        apply: s => { s.attack += 8; s.maxHp += 25; },
+        remove: s => { s.attack -= 8; s.maxHp -= 25; s.hp = Math.min(s.hp, s.maxHp); }
+    }),
+    'Gambler\'s Ruin': () => ({
+        name: 'Gambler\'s Ruin', duration: Infinity, untilNextFloor: true,
+        apply: s => { s.attack -= 5; s.defense -= 3; },
+        remove: s => { s.attack += 5; s.defense += 3; }
+    })
+};
+
 export const SHRINE_EFFECTS: ShrineEffect[] = [
-    { name: 'Blessing of Vitality', description: '+20 Max HP permanently', positive: true, effect: () => { } },
-    { name: 'Blessing of Power', description: '+5 Attack permanently', positive: true, effect: () => { } },
-    { name: 'Blessing of Wisdom', description: '+15 Max Mana permanently', positive: true, effect: () => { } },
-    { name: 'Blessing of Fortune', description: '+20% gold find this floor', positive: true, effect: () => { } },
-    { name: 'Curse of Weakness', description: '-3 Attack until next floor', positive: false, effect: () => { } },
-    { name: 'Curse of Frailty', description: '-15 Max HP until next floor', positive: false, effect: () => { } },
-    { name: 'Gambler\'s Blessing', description: 'Random: great reward or harsh penalty', positive: true, effect: () => { } },
+    { name: 'Blessing of Vitality', description: '+20 Max HP permanently', positive: true, buffs: ['Blessing of Vitality'] },
+    { name: 'Blessing of Power', description: '+5 Attack permanently', positive: true, buffs: ['Blessing of Power'] },
+    { name: 'Blessing of Wisdom', description: '+15 Max Mana permanently', positive: true, buffs: ['Blessing of Wisdom'] },
+    { name: 'Blessing of Fortune', description: '+20% gold find this floor', positive: true, buffs: ['Blessing of Fortune'] },
+    { name: 'Curse of Weakness', description: '-3 Attack until next floor, grants gold', positive: false, buffs: ['Curse of Weakness'], goldPerFloor: 40 },
+    { name: 'Curse of Frailty', description: '-15 Max HP until next floor, grants gold', positive: false, buffs: ['Curse of Frailty'], goldPerFloor: 40 },
+    { name: 'Gambler\'s Blessing', description: 'Random: great reward or harsh penalty', positive: true, buffs: ['Gambler\'s Triumph', 'Gambler\'s Ruin'] },
 ];
 
+export function createShrineBuff(name: string): Buff | null {
+    const factory = SHRINE_BUFFS[name];
+    return factory ? factory() : null;
+}
+
+export function rollShrineBuff(effect: ShrineEffect): Buff {
+    const name = effect.buffs[getRandomInt(0, effect.buffs.length)];
+    return createShrineBuff(name)!;
+}
+
 export function getRandomShrineEffect(): ShrineEffect {
     return SHRINE_EFFECTS[getRandomInt(0, SHRINE_EFFECTS.length)];
 }
@@ -0,0 +1,546 @@
+// ============================================
+// SAVE SYSTEM - Versioned, multi-slot world saves
+// ============================================
+
+import { GameMap, Rect } from './Map';
+import { Player, Enemy, AlertState, Item, DungeonCore, Trap, PressurePlate, Shrine, Campfire, createStatusBuff } from './Entity';
+import type { Buff } from './Entity';
+import { Chest, MaterialType } from './Equipment';
+import type { NPC } from './NPC';
+import { createShrineBuff } from './RoomTypes';
+import type { MerchantConfig, RoomData } from './RoomTypes';
+import type { TileType } from './utils';
+
+export const SAVE_VERSION = 2;
+export const MAX_SAVE_SLOTS = 5;
+
+const SLOT_INDEX_KEY = 'deluge2_save_slots';
+const SLOT_KEY_PREFIX = 'deluge2_save_';
+const LEGACY_SAVE_KEY = 'deluge2_save'; // Single-slot v1 save
+
+// Live game state that a save round-trips (Game satisfies this)
+export interface WorldState {
+    map: GameMap;
+    player: Player;
+    enemies: Enemy[];
+    items: Item[];
+    chests: Chest[];
+    traps: Trap[];
+    pressurePlates: PressurePlate[];
+    shrines: Shrine[];
+    merchants: MerchantConfig[];
+    campfires: Campfire[];
+    core: DungeonCore | null;
+    npcs: NPC[];
+    floor: number;
+    seed: number;
+    turnCounter: number;
+    floorMoveCount: number;
+    reaperSpawned: boolean;
+    reaper: Enemy | null;
+    restedThisFloor: boolean;
+    currentRoomIndex: number;
+    lastRoomIndex: number;
+}
+
+export interface SaveSlotInfo {
+    slot: number;
+    name: string;
+    className: string;
+    level: number;
+    floor: number;
+    savedAt: number; // ms timestamp
+}
+
+interface SlotIndex {
+    lastSlot: number;
+    slots: SaveSlotInfo[];
+}
+
+// Buffs hold callbacks, so only the name is stored and rebuilt from the shrine registry
+interface SavedBuff {
+    name: string;
+    duration: number | null; // JSON turns Infinity into null
+}
+
+export interface SavedMap {
+    width: number;
+    height: number;
+    floor: number;
+    tiles: string[]; // One string per row, one TileType digit per tile
+    explored: string[]; // One string per row, '1' = explored
+    rooms: { x: number; y: number; w: number; h: number }[];
+    roomData: RoomData[];
+    traps: Trap[];
+}
+
+export interface WorldSnapshot {
+    map: SavedMap;
+    playerX: number;
+    playerY: number;
+    enemies: any[];
+    reaperIndex: number; // -1 = no reaper on this floor
+    items: Item[];
+    chests: Chest[];
+    traps: Trap[];
+    pressurePlates: any[];
+    shrines: any[];
+    merchantRooms: number[]; // Merchants live in their room's specialData
+    campfireRooms: number[]; // Campfires too
+    core: any | null;
+    npcs: NPC[];
+    turnCounter: number;
+    floorMoveCount: number;
+    reaperSpawned: boolean;
+    restedThisFloor: boolean;
+    currentRoomIndex: number;
+    lastRoomIndex: number;
+}
+
+export interface SaveData {
+    version: number;
+    savedAt: number;
+    floor: number;
+    seed: number;
+    player: any;
+    world: WorldSnapshot | null; // null = rebuild the floor from the seed (pre-v2 saves)
+}
+
+// ============================================
+// MIGRATIONS - each step upgrades version N to N + 1
+// ============================================
+
+const MIGRATIONS: Record<number, (data: any) => any> = {
+    // v1: { player, floor, seed? } with no world state; Maps were flattened to {}
+    1: (data) => ({
+        version: 2,
+        savedAt: Date.now(),
+        floor: data.floor ?? 1,
+        seed: data.seed ?? 0,
+        player: {
+            ...data.player,
+            inventory: { ...data.player?.inventory, materials: [] },
+            multiclass: { ...data.player?.multiclass, primarySkills: [], secondarySkills: [] }
+        },
+        world: null
+    })
+};
+
+export function migrateSave(data: any): SaveData {
+    let version = typeof data.version === 'number' ? data.version : 1;
+    if (version > SAVE_VERSION) {
+        throw new Error(`Save version ${version} is newer than supported version ${SAVE_VERSION}`);
+    }
+    while (version < SAVE_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`No migration from save version ${version}`);
+        data = migrate(data);
+        version = data.version;
+    }
+    return data as SaveData;
+}
+
+// ============================================
+// VALIDATION - checks imported files before they touch a slot
+// ============================================
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && !isNaN(v);
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Returns a list of human-readable problems (empty = valid)
+export function validateSave(data: any): string[] {
+    const errors: string[] = [];
+    const expectArray = (value: unknown, path: string) => {
+        if (!Array.isArray(value)) errors.push(`${path} must be an array`);
+    };
+
+    if (!isNumber(data.floor) || data.floor < 1) errors.push('floor must be a number of at least 1');
+    if (!isNumber(data.seed)) errors.push('seed must be a number');
+
+    const player = data.player;
+    if (!isObject(player)) {
+        errors.push('player is missing');
+    } else {
+        if (!isObject(player.stats)) {
+            errors.push('player.stats is missing');
+        } else {
+            for (const stat of ['hp', 'maxHp', 'mana', 'maxMana', 'attack', 'defense', 'level']) {
+                if (!isNumber(player.stats[stat])) errors.push(`player.stats.${stat} must be a number`);
+            }
+        }
+        if (!isObject(player.baseStats)) errors.push('player.baseStats is missing');
+        if (!isObject(player.inventory)) {
+            errors.push('player.inventory is missing');
+        } else {
+            expectArray(player.inventory.equipment, 'player.inventory.equipment');
+            expectArray(player.inventory.materials, 'player.inventory.materials');
+            if (!isNumber(player.inventory.gold)) errors.push('player.inventory.gold must be a number');
+        }
+        if (!isObject(player.equipped)) errors.push('player.equipped is missing');
+        if (!isObject(player.multiclass)) {
+            errors.push('player.multiclass is missing');
+        } else {
+            expectArray(player.multiclass.primarySkills, 'player.multiclass.primarySkills');
+            expectArray(player.multiclass.secondarySkills, 'player.multiclass.secondarySkills');
+        }
+    }
+
+    const world = data.world;
+    if (world === null) return errors;
+    if (!isObject(world)) {
+        errors.push('world must be an object or null');
+        return errors;
+    }
+
+    const map = world.map;
+    if (!isObject(map) || !isNumber(map.width) || !isNumber(map.height)) {
+        errors.push('world.map must have a numeric width and height');
+    } else {
+        for (const grid of ['tiles', 'explored']) {
+            const rows = map[grid];
+            if (!Array.isArray(rows) || rows.length !== map.height) {
+                errors.push(`world.map.${grid} must have ${map.height} rows`);
+            } else if (rows.some((row: unknown) => typeof row !== 'string' || row.length !== map.width)) {
+                errors.push(`world.map.${grid} rows must be strings of length ${map.width}`);
+            }
+        }
+        if (Array.isArray(map.tiles) && map.tiles.some((row: unknown) => typeof row === 'string' && /[^0-4]/.test(row))) {
+            errors.push('world.map.tiles contains unknown tile types');
+        }
+        expectArray(map.rooms, 'world.map.rooms');
+        expectArray(map.roomData, 'world.map.roomData');
+        expectArray(map.traps, 'world.map.traps');
+        if (Array.isArray(map.rooms) && map.rooms.length === 0) errors.push('world.map.rooms is empty');
+
+        if (!isNumber(world.playerX) || !isNumber(world.playerY) ||
+            world.playerX < 0 || world.playerX >= map.width || world.playerY < 0 || world.playerY >= map.height) {
+            errors.push('world.playerX/playerY must be inside the map');
+        }
+    }
+
+    for (const list of ['enemies', 'items', 'chests', 'traps', 'pressurePlates', 'shrines', 'merchantRooms', 'campfireRooms', 'npcs']) {
+        expectArray(world[list], `world.${list}`);
+    }
+    for (const field of ['reaperIndex', 'turnCounter', 'floorMoveCount', 'currentRoomIndex', 'lastRoomIndex']) {
+        if (!isNumber(world[field])) errors.push(`world.${field} must be a number`);
+    }
+    if (world.core !== null && !isObject(world.core)) errors.push('world.core must be an object or null');
+
+    return errors;
+}
+
+// ============================================
+// SERIALIZATION
+// ============================================
+
+function serializeBuffs(buffs: Buff[]): SavedBuff[] {
+    return buffs.map(b => ({ name: b.name, duration: b.duration }));
+}
+
+function restoreBuffs(saved: SavedBuff[] | undefined): Buff[] {
+    return (saved || [])
+        .map(b => {
+            const buff = createShrineBuff(b.name) ?? createStatusBuff(b.name);
+            if (buff) buff.duration = b.duration ?? Infinity;
+            return buff;
+        })
+        .filter((b): b is Buff => b !== null);
+}
+
+function serializePlayer(player: Player): any {
+    return {
+        ...player,
+        buffs: serializeBuffs(player.buffs),
+        inventory: { ...player.inventory, materials: Array.from(player.inventory.materials.entries()) },
+        multiclass: {
+            ...player.multiclass,
+            primarySkills: Array.from(player.multiclass.primarySkills.entries()),
+            secondarySkills: Array.from(player.multiclass.secondarySkills.entries())
+        }
+    };
+}
+
+export function restorePlayer(data: any): Player {
+    const player = new Player(0, 0);
+    Object.assign(player, data);
+    // Stats already include active buffs, so only the buff list is rebuilt
+    player.buffs = restoreBuffs(data.buffs);
+    player.inventory.materials = new Map<MaterialType, number>(data.inventory.materials);
+    player.multiclass.primarySkills = new Map<string, number>(data.multiclass.primarySkills);
+    player.multiclass.secondarySkills = new Map<string, number>(data.multiclass.secondarySkills);
+    return player;
+}
+
+function serializeMap(map: GameMap): SavedMap {
+    return {
+        width: map.width,
+        height: map.height,
+        floor: map.floor,
+        tiles: map.tiles.map(row => row.join('')),
+        explored: map.explored.map(row => row.map(e => (e ? '1' : '0')).join('')),
+        rooms: map.rooms.map(r => ({ x: r.x, y: r.y, w: r.w, h: r.h })),
+        roomData: map.roomData,
+        traps: map.traps
+    };
+}
+
+function restoreMap(data: SavedMap): GameMap {
+    const map = new GameMap(data.width, data.height);
+    map.floor = data.floor;
+    map.tiles = data.tiles.map(row => Array.from(row, c => Number(c) as TileType));
+    map.explored = data.explored.map(row => Array.from(row, c => c === '1'));
+    map.rooms = data.rooms.map(r => new Rect(r.x, r.y, r.w, r.h));
+    map.roomData = data.roomData;
+    map.traps = data.traps.map(t => Object.assign(Object.create(Trap.prototype), t));
+    return map;
+}
+
+// Index of the room whose specialData is this exact object (-1 if none)
+function findRoomIndex(map: GameMap, data: unknown): number {
+    if (!data) return -1;
+    return map.roomData.findIndex(r => r.specialData === data);
+}
+
+export function serializeWorld(world: WorldState): SaveData {
+    const { map } = world;
+    return {
+        version: SAVE_VERSION,
+        savedAt: Date.now(),
+        floor: world.floor,
+        seed: world.seed,
+        player: serializePlayer(world.player),
+        world: {
+            map: serializeMap(map),
+            playerX: world.player.x,
+            playerY: world.player.y,
+            // Path caches are rebuilt on the next move; combat buffs end with combat
+            enemies: world.enemies.map(e => ({
+                ...e,
+                buffs: [],
+                goal: null,
+                path: [],
+                challenge: undefined,
+                challengeRoom: findRoomIndex(map, e.challenge)
+            })),
+            reaperIndex: world.reaper ? world.enemies.indexOf(world.reaper) : -1,
+            items: world.items,
+            chests: world.chests,
+            traps: world.traps,
+            pressurePlates: world.pressurePlates.map(p => ({
+                ...p,
+                linkedPlates: p.linkedPlates.map(l => world.pressurePlates.indexOf(l))
+            })),
+            shrines: world.shrines.map(s => ({ ...s, effect: undefined, effectRoom: findRoomIndex(map, s.effect) })),
+            merchantRooms: world.merchants.map(m => findRoomIndex(map, m)),
+            campfireRooms: world.campfires.map(c => findRoomIndex(map, c)),
+            core: world.core ? { ...world.core, buffs: [] } : null,
+            npcs: world.npcs,
+            turnCounter: world.turnCounter,
+            floorMoveCount: world.floorMoveCount,
+            reaperSpawned: world.reaperSpawned,
+            restedThisFloor: world.restedThisFloor,
+            currentRoomIndex: world.currentRoomIndex,
+            lastRoomIndex: world.lastRoomIndex
+        }
+    };
+}
+
+// Rebuilds live world state from a v2 snapshot. Shared objects (merchant stock, shrine
+// effects, campfires, challenge configs) are re-linked to their room's specialData.
+export function restoreWorld(data: SaveData, snapshot: WorldSnapshot): WorldState {
+    const map = restoreMap(snapshot.map);
+    const roomSpecial = (index: number) => map.roomData[index]?.specialData;
+
+    const player = restorePlayer(data.player);
+    player.x = snapshot.playerX;
+    player.y = snapshot.playerY;
+
+    const enemies: Enemy[] = snapshot.enemies.map(({ challengeRoom, ...e }) => {
+        // Older saves lack the stealth, home and ranged attack fields
+        const defaults = {
+            facing: { x: 0, y: 1 },
+            alertState: AlertState.Unaware,
+            alertTimer: 0,
+            lastKnownPlayer: null,
+            home: { x: e.x, y: e.y },
+            ranged: e.sprite?.behavior?.ranged ?? null,
+            keepDistance: e.sprite?.behavior?.keepDistance ?? 0,
+            rangedCooldown: 0,
+            aimedAt: null
+        };
+        const enemy: Enemy = Object.assign(Object.create(Enemy.prototype), defaults, e);
+        if (enemy.aimedAt && !enemy.aimedAt.line) enemy.aimedAt = null; // Aimed at a single tile before lines of fire
+        enemy.challenge = roomSpecial(challengeRoom) ?? null;
+        return enemy;
+    });
+
+    const pressurePlates: PressurePlate[] = snapshot.pressurePlates.map(({ linkedPlates, ...p }) =>
+        Object.assign(Object.create(PressurePlate.prototype), p, { linkedPlates: [] })
+    );
+    snapshot.pressurePlates.forEach((p, i) => {
+        pressurePlates[i].linkedPlates = p.linkedPlates.map((l: number) => pressurePlates[l]).filter(Boolean);
+    });
+
+    const campfires: Campfire[] = snapshot.campfireRooms
+        .map(i => roomSpecial(i))
+        .filter(Boolean)
+        .map(c => Object.setPrototypeOf(c, Campfire.prototype));
+
+    return {
+        map,
+        player,
+        enemies,
+        items: snapshot.items.map(i => Object.assign(Object.create(Item.prototype), i)),
+        chests: snapshot.chests.map(c => Object.assign(Object.create(Chest.prototype), c)),
+        traps: snapshot.traps.map(t => Object.assign(Object.create(Trap.prototype), t)),
+        pressurePlates,
+        shrines: snapshot.shrines.map(({ effectRoom, ...s }) =>
+            Object.assign(Object.create(Shrine.prototype), s, { effect: roomSpecial(effectRoom) })
+        ),
+        merchants: snapshot.merchantRooms.map(i => roomSpecial(i)).filter(Boolean),
+        campfires,
+        core: snapshot.core ? Object.assign(Object.create(DungeonCore.prototype), snapshot.core) : null,
+        npcs: snapshot.npcs,
+        floor: data.floor,
+        seed: data.seed,
+        turnCounter: snapshot.turnCounter,
+        floorMoveCount: snapshot.floorMoveCount,
+        reaperSpawned: snapshot.reaperSpawned,
+        reaper: snapshot.reaperIndex >= 0 ? enemies[snapshot.reaperIndex] ?? null : null,
+        restedThisFloor: snapshot.restedThisFloor,
+        currentRoomIndex: snapshot.currentRoomIndex,
+        lastRoomIndex: snapshot.lastRoomIndex
+    };
+}
+
+// ============================================
+// SAVE SLOTS - localStorage persistence
+// ============================================
+
+export class SaveSystem {
+    private static readIndex(): SlotIndex {
+        try {
+            const json = localStorage.getItem(SLOT_INDEX_KEY);
+            if (json) return JSON.parse(json);
+        } catch (e) {
+            console.error('Failed to read save slot index:', e);
+        }
+        return { lastSlot: 1, slots: [] };
+    }
+
+    private static writeIndex(index: SlotIndex) {
+        localStorage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+    }
+
+    // Move a pre-slot save into slot 1 so old runs keep going
+    static migrateLegacySave() {
+        const legacy = localStorage.getItem(LEGACY_SAVE_KEY);
+        if (!legacy) return;
+        try {
+            const index = this.readIndex();
+            if (!index.slots.some(s => s.slot === 1)) {
+                const data = migrateSave(JSON.parse(legacy));
+                this.writeSlot(1, data, 'Slot 1');
+            }
+            localStorage.removeItem(LEGACY_SAVE_KEY);
+        } catch (e) {
+            console.error('Failed to migrate legacy save:', e);
+        }
+    }
+
+    static getSlots(): SaveSlotInfo[] {
+        return this.readIndex().slots.sort((a, b) => a.slot - b.slot);
+    }
+
+    static getSlotInfo(slot: number): SaveSlotInfo | undefined {
+        return this.readIndex().slots.find(s => s.slot === slot);
+    }
+
+    static getLastSlot(): number {
+        return this.readIndex().lastSlot;
+    }
+
+    static writeSlot(slot: number, data: SaveData, name?: string): boolean {
+        try {
+            localStorage.setItem(SLOT_KEY_PREFIX + slot, JSON.stringify(data));
+
+            const index = this.readIndex();
+            const existing = index.slots.find(s => s.slot === slot);
+            const info: SaveSlotInfo = {
+                slot,
+                name: name ?? existing?.name ?? `Slot ${slot}`,
+                className: data.player.name ?? 'Player',
+                level: data.player.stats?.level ?? 1,
+                floor: data.floor,
+                savedAt: data.savedAt
+            };
+            index.slots = index.slots.filter(s => s.slot !== slot);
+            index.slots.push(info);
+            index.lastSlot = slot;
+            this.writeIndex(index);
+            return true;
+        } catch (e) {
+            console.error(`Failed to write save slot ${slot}:`, e);
+            return false;
+        }
+    }
+
+    static readSlot(slot: number): SaveData | null {
+        try {
+            const json = localStorage.getItem(SLOT_KEY_PREFIX + slot);
+            if (!json) return null;
+            return migrateSave(JSON.parse(json));
+        } catch (e) {
+            console.error(`Failed to read save slot ${slot}:`, e);
+            return null;
+        }
+    }
+
+    static renameSlot(slot: number, name: string): boolean {
+        const index = this.readIndex();
+        const info = index.slots.find(s => s.slot === slot);
+        if (!info) return false;
+        info.name = name;
+        this.writeIndex(index);
+        return true;
+    }
+
+    // Export save as .deluge file content
+    static exportSave(data: SaveData): string {
+        return JSON.stringify(data, null, 2);
+    }
+
+    // Import save from .deluge file content - migrates older versions, then validates
+    static importSave(content: string): { data: SaveData | null; errors: string[] } {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(content);
+        } catch (e) {
+            return { data: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+        }
+        if (!isObject(parsed)) {
+            return { data: null, errors: ['Save file must contain a JSON object'] };
+        }
+
+        let data: SaveData;
+        try {
+            data = migrateSave(parsed);
+        } catch (e) {
+            return { data: null, errors: [(e as Error).message] };
+        }
+
+        const errors = validateSave(data);
+        if (errors.length > 0) {
+            console.error('Invalid save file:', errors);
+            return { data: null, errors };
+        }
+        return { data, errors: [] };
+    }
+
+    static deleteSlot(slot: number) {
+        localStorage.removeItem(SLOT_KEY_PREFIX + slot);
+        const index = this.readIndex();
+        index.slots = index.slots.filter(s => s.slot !== slot);
+        this.writeIndex(index);
+    }
+}
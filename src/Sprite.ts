@@ -36,6 +36,17 @@ export interface SpriteStats {
     speed: number;
 }
 
+// Attack made on the map from a distance, before melee combat starts
+export interface SpriteRangedAttack {
+    name: string;
+    range: number; // Tiles, needs a clear line of sight
+    damage: number; // Multiplier of attack (0 = effect only)
+    windup: number; // Turns the line of fire is telegraphed before it lands - the player must step off it
+    cooldown: number; // Turns between attacks
+    effect?: 'poison' | 'burn' | 'slow' | 'weaken';
+    color?: string; // Telegraph color
+}
+
 export interface SpriteBehavior {
     pattern: 'aggressive' | 'defensive' | 'tricky' | 'balanced' | 'fleeing';
     aggroRange: number;
@@ -44,6 +55,8 @@ export interface SpriteBehavior {
     minFloor?: number;
     isBoss?: boolean;
     isGolden?: boolean;
+    ranged?: SpriteRangedAttack;
+    keepDistance?: number; // Ranged enemies back off when the player gets this close
 }
 
 export interface SpriteMetadata {
@@ -201,7 +214,7 @@ export const MAGE_SPRITE: SpriteData = {
         { id: 'guard', name: 'Mana Shield', description: 'Uses mana to block', staminaCost: 0, manaCost: 10, baseDamage: 0, speed: 6, key: '2' },
         { id: 'fireball', name: 'Fireball', description: 'Fire damage', staminaCost: 5, manaCost: 12, baseDamage: 2.0, speed: 5, key: '3' },
         { id: 'ice', name: 'Ice Shard', description: 'Slow enemy', staminaCost: 5, manaCost: 10, baseDamage: 1.5, speed: 6, key: '4', special: 'slow' },
-        { id: 'heal', name: 'Meditation', description: 'Restore 20 mana', staminaCost: 15, manaCost: 0, baseDamage: 0, speed: 1, key: 'Q', special: 'restore_mana' },
+        { id: 'meditate', name: 'Meditation', description: 'Restore 20 mana', staminaCost: 15, manaCost: 0, baseDamage: 0, speed: 1, key: 'Q', special: 'restore_mana' },
         { id: 'lightning', name: 'Lightning', description: 'High damage spell', staminaCost: 10, manaCost: 25, baseDamage: 3.0, speed: 7, key: 'W' },
     ]
 };
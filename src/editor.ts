@@ -852,7 +852,9 @@ function saveCurrentSprite() {
         preferredActions: sprite.behavior?.preferredActions || [],
         minFloor: sprite.behavior?.minFloor || 1,
         isBoss: sprite.behavior?.isBoss || false,
-        isGolden: sprite.behavior?.isGolden || false
+        isGolden: sprite.behavior?.isGolden || false,
+        ranged: sprite.behavior?.ranged,
+        keepDistance: sprite.behavior?.keepDistance
     };
 
     SpriteManager.saveSprite(sprite);
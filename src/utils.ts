@@ -41,8 +41,51 @@ export const TrapType = {
 
 export type TrapType = typeof TrapType[keyof typeof TrapType];
 
+// ============================================
+// SEEDED RNG - reproducible dungeon generation
+// ============================================
+
+let rngState = generateSeed();
+
+// Create a fresh run seed (not itself reproducible)
+export function generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+// Turn a typed seed into a number - plain numbers are used as-is, text is hashed
+export function parseSeed(input: string): number {
+    const trimmed = input.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) >>> 0;
+    }
+    let hash = 2166136261;
+    for (let i = 0; i < trimmed.length; i++) {
+        hash ^= trimmed.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+// Same run seed + floor always gives the same floor seed
+export function getFloorSeed(runSeed: number, floor: number): number {
+    return (Math.imul(runSeed ^ 0x9e3779b9, 31) + Math.imul(floor, 0x85ebca6b)) >>> 0;
+}
+
+export function setSeed(seed: number) {
+    rngState = seed >>> 0;
+}
+
+// Mulberry32 - drop-in replacement for Math.random in generators
+export function random(): number {
+    rngState = (rngState + 0x6d2b79f5) >>> 0;
+    let t = rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
 export function getRandomInt(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min)) + min;
+    return Math.floor(random() * (max - min)) + min;
 }
 
 export function clamp(value: number, min: number, max: number): number {
@@ -52,7 +95,7 @@ export function clamp(value: number, min: number, max: number): number {
 export function shuffle<T>(array: T[]): T[] {
     const result = [...array];
     for (let i = result.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(random() * (i + 1));
         [result[i], result[j]] = [result[j], result[i]];
     }
     return result;